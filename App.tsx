@@ -7,6 +7,10 @@ import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { LanguageProvider } from "@/contexts/LanguageContext";
 import { ThemeProvider } from "@/contexts/ThemeContext";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
+import { Button } from "@/components/ui/button";
+import { Loader2, LogOut } from "lucide-react";
 import { LanguageSwitcher } from "@/components/LanguageSwitcher";
 import { ThemeToggle } from "@/components/ThemeToggle";
 import Home from "@/pages/Home";
@@ -14,7 +18,13 @@ import Dashboard from "@/pages/Dashboard";
 import UploadPage from "@/pages/Upload";
 import ProductsPage from "@/pages/Products";
 import ProductDetail from "@/pages/ProductDetail";
+import ProductEditPage from "@/pages/ProductEdit";
 import OrdersPage from "@/pages/Orders";
+import CustomersPage from "@/pages/Customers";
+import CustomerProfilePage from "@/pages/CustomerProfile";
+import QueuePage from "@/pages/Queue";
+import TeamPage from "@/pages/Team";
+import LoginPage from "@/pages/Login";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -24,14 +34,20 @@ function Router() {
       <Route path="/dashboard" component={Dashboard} />
       <Route path="/upload" component={UploadPage} />
       <Route path="/products" component={ProductsPage} />
+      <Route path="/product/:id/edit" component={ProductEditPage} />
       <Route path="/product/:id" component={ProductDetail} />
       <Route path="/orders" component={OrdersPage} />
+      <Route path="/customers" component={CustomersPage} />
+      <Route path="/customers/:id" component={CustomerProfilePage} />
+      <Route path="/queue" component={QueuePage} />
+      <Route path="/team" component={TeamPage} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
 function AppLayout() {
+  const { user, logoutMutation } = useAuth();
   const style = {
     "--sidebar-width": "16rem",
     "--sidebar-width-icon": "3rem",
@@ -45,8 +61,20 @@ function AppLayout() {
           <header className="flex items-center justify-between gap-2 p-3 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
             <SidebarTrigger data-testid="button-sidebar-toggle" />
             <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground" data-testid="text-current-user">
+                {user?.username}
+              </span>
               <LanguageSwitcher />
               <ThemeToggle />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => logoutMutation.mutate()}
+                disabled={logoutMutation.isPending}
+                data-testid="button-logout"
+              >
+                <LogOut className="h-4 w-4" />
+              </Button>
             </div>
           </header>
           <main className="flex-1 overflow-auto">
@@ -58,15 +86,33 @@ function AppLayout() {
   );
 }
 
+// Only logged-in users get the app; everyone else sees the login page
+function AuthGate() {
+  const { user, isLoading } = useAuth();
+  useLiveUpdates(!!user);
+
+  if (isLoading) {
+    return (
+      <div className="flex h-screen items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return user ? <AppLayout /> : <LoginPage />;
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider>
         <LanguageProvider>
-          <TooltipProvider>
-            <AppLayout />
-            <Toaster />
-          </TooltipProvider>
+          <AuthProvider>
+            <TooltipProvider>
+              <AuthGate />
+              <Toaster />
+            </TooltipProvider>
+          </AuthProvider>
         </LanguageProvider>
       </ThemeProvider>
     </QueryClientProvider>
@@ -0,0 +1,401 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useRoute, useLocation } from "wouter";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { CustomerForm } from "@/pages/Customers";
+import {
+  ChevronLeft,
+  Phone,
+  MapPin,
+  Pencil,
+  Trash2,
+  ShoppingCart,
+  PackageCheck,
+  PackageX,
+} from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMoney, type Customer, type CustomerProfile, type InsertCustomer, type Order } from "@shared/schema";
+
+export default function CustomerProfilePage() {
+  const { t, language, isRTL } = useLanguage();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const queryClient = useQueryClient();
+  const [, params] = useRoute("/customers/:id");
+  const [, navigate] = useLocation();
+  const canEdit = hasRole("admin", "agent");
+  const isAdmin = hasRole("admin");
+
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [notes, setNotes] = useState<string | null>(null);
+
+  const translations = {
+    ar: {
+      back: "العودة إلى العملاء",
+      notFound: "العميل غير موجود",
+      editCustomer: "تعديل العميل",
+      totalOrders: "إجمالي الطلبات",
+      deliveryRate: "نسبة التسليم",
+      refusalRate: "نسبة الرفض والإرجاع",
+      orderHistory: "سجل الطلبات",
+      saveNotes: "حفظ الملاحظات",
+      updated: "تم تحديث العميل",
+      deleteTitle: "حذف العميل؟",
+      deleteMessage: "تبقى طلبات هذا العميل محفوظة لكنها لن تكون مرتبطة بأي عميل.",
+      deleted: "تم حذف العميل",
+    },
+    en: {
+      back: "Back to customers",
+      notFound: "Customer not found",
+      editCustomer: "Edit customer",
+      totalOrders: "Total orders",
+      deliveryRate: "Delivery rate",
+      refusalRate: "Refused or returned",
+      orderHistory: "Order history",
+      saveNotes: "Save notes",
+      updated: "Customer updated",
+      deleteTitle: "Delete customer?",
+      deleteMessage: "Their orders are kept but will no longer be linked to a customer.",
+      deleted: "Customer deleted",
+    },
+    fr: {
+      back: "Retour aux clients",
+      notFound: "Client introuvable",
+      editCustomer: "Modifier le client",
+      totalOrders: "Total des commandes",
+      deliveryRate: "Taux de livraison",
+      refusalRate: "Refusées ou retournées",
+      orderHistory: "Historique des commandes",
+      saveNotes: "Enregistrer les notes",
+      updated: "Client mis à jour",
+      deleteTitle: "Supprimer le client ?",
+      deleteMessage: "Ses commandes sont conservées mais ne seront plus liées à un client.",
+      deleted: "Client supprimé",
+    },
+  };
+
+  const trans = translations[language];
+  const customerId = params?.id;
+
+  const { data: customer, isLoading } = useQuery<CustomerProfile>({
+    queryKey: ["/api/customers", customerId],
+    enabled: !!customerId,
+  });
+
+  const { data: orders, isLoading: ordersLoading } = useQuery<Order[]>({
+    queryKey: ["/api/customers", customerId, "orders"],
+    enabled: !!customerId,
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: t.error,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: Partial<InsertCustomer>) => {
+      return apiRequest<Customer>("PATCH", `/api/customers/${customerId}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      setIsEditOpen(false);
+      setNotes(null);
+      toast({
+        title: t.success,
+        description: trans.updated,
+      });
+    },
+    onError: showError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/customers/${customerId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: t.success,
+        description: trans.deleted,
+      });
+      navigate("/customers");
+    },
+    onError: showError,
+  });
+
+  const locale = language === "ar" ? "ar-MA" : language === "fr" ? "fr-FR" : "en-US";
+  const formatRate = (rate: number | null) =>
+    rate === null ? "—" : rate.toLocaleString(locale, { style: "percent", maximumFractionDigits: 0 });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-10 w-32" />
+        <Skeleton className="h-8 w-1/3" />
+        <div className="grid grid-cols-3 gap-4">
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className="h-20" />
+          ))}
+        </div>
+        <Skeleton className="h-40 w-full" />
+      </div>
+    );
+  }
+
+  if (!customer) {
+    return (
+      <div className="p-6 text-center">
+        <p className="text-muted-foreground">{trans.notFound}</p>
+        <Button variant="outline" onClick={() => navigate("/customers")} className="mt-4">
+          {trans.back}
+        </Button>
+      </div>
+    );
+  }
+
+  const stats = [
+    {
+      title: trans.totalOrders,
+      value: customer.stats.totalOrders,
+      icon: ShoppingCart,
+      color: "text-purple-600 dark:text-purple-400",
+      bgColor: "bg-purple-100 dark:bg-purple-900/30",
+    },
+    {
+      title: trans.deliveryRate,
+      value: formatRate(customer.stats.deliveryRate),
+      icon: PackageCheck,
+      color: "text-emerald-600 dark:text-emerald-400",
+      bgColor: "bg-emerald-100 dark:bg-emerald-900/30",
+    },
+    {
+      title: trans.refusalRate,
+      value: formatRate(customer.stats.refusalRate),
+      icon: PackageX,
+      color: "text-rose-600 dark:text-rose-400",
+      bgColor: "bg-rose-100 dark:bg-rose-900/30",
+    },
+  ];
+
+  const notesValue = notes ?? customer.notes ?? "";
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Back Button */}
+      <Button
+        variant="ghost"
+        onClick={() => navigate("/customers")}
+        data-testid="button-back-customers"
+      >
+        <ChevronLeft className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+        {trans.back}
+      </Button>
+
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-semibold" data-testid="text-customer-name">
+            {customer.name}
+          </h1>
+          <a
+            href={`tel:${customer.phone}`}
+            className="flex items-center gap-1 text-sm text-muted-foreground"
+            data-testid="link-customer-phone"
+          >
+            <Phone className="h-3 w-3" />
+            <span dir="ltr">{customer.phone}</span>
+          </a>
+          {(customer.city || customer.address) && (
+            <p className="flex items-center gap-1 text-sm text-muted-foreground" data-testid="text-customer-address">
+              <MapPin className="h-3 w-3" />
+              {[customer.city, customer.address].filter(Boolean).join(" - ")}
+            </p>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => setIsEditOpen(true)}
+            disabled={!canEdit}
+            data-testid="button-edit-customer"
+          >
+            <Pencil className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+            {t.edit}
+          </Button>
+          {isAdmin && (
+            <Button
+              variant="destructive"
+              onClick={() => setIsDeleteOpen(true)}
+              data-testid="button-delete-customer"
+            >
+              <Trash2 className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+              {t.delete}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {stats.map((stat, index) => (
+          <Card key={index} data-testid={`card-customer-stat-${index}`}>
+            <CardContent className="p-4">
+              <div className="flex items-center gap-3">
+                <div className={`p-2 rounded-md ${stat.bgColor}`}>
+                  <stat.icon className={`h-5 w-5 ${stat.color}`} />
+                </div>
+                <div>
+                  <p className="text-2xl font-semibold" data-testid={`text-customer-stat-${index}`}>{stat.value}</p>
+                  <p className="text-xs text-muted-foreground">{stat.title}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Notes */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{t.notes}</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <Textarea
+            value={notesValue}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={3}
+            disabled={!canEdit}
+            data-testid="input-customer-notes"
+          />
+          {canEdit && (
+            <Button
+              size="sm"
+              onClick={() => updateMutation.mutate({ notes: notesValue })}
+              disabled={notes === null || updateMutation.isPending}
+              data-testid="button-save-customer-notes"
+            >
+              {trans.saveNotes}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Orders */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">{trans.orderHistory}</CardTitle>
+        </CardHeader>
+        <CardContent className="p-0">
+          {ordersLoading ? (
+            <div className="p-6 space-y-3">
+              {[1, 2, 3].map((i) => (
+                <Skeleton key={i} className="h-8 w-full" />
+              ))}
+            </div>
+          ) : orders && orders.length > 0 ? (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.date}</TableHead>
+                    <TableHead>{t.quantity}</TableHead>
+                    <TableHead>{t.total}</TableHead>
+                    <TableHead>{t.customerCity}</TableHead>
+                    <TableHead>{t.status}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orders.map((order) => (
+                    <TableRow key={order.id} data-testid={`row-customer-order-${order.id}`}>
+                      <TableCell className="text-muted-foreground">
+                        {new Date(order.createdAt).toLocaleDateString(locale)}
+                      </TableCell>
+                      <TableCell>{order.quantity}</TableCell>
+                      <TableCell className="font-medium">{formatMoney(order.total, order.currency, language)}</TableCell>
+                      <TableCell>{order.customerCity}</TableCell>
+                      <TableCell>
+                        <OrderStatusBadge status={order.status} />
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <p className="p-6 text-sm text-muted-foreground" data-testid="text-no-customer-orders">{t.noOrders}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Edit Dialog */}
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{trans.editCustomer}</DialogTitle>
+          </DialogHeader>
+          <CustomerForm
+            initial={customer}
+            onSubmit={(data) => updateMutation.mutate(data)}
+            isSubmitting={updateMutation.isPending}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{trans.deleteTitle}</AlertDialogTitle>
+            <AlertDialogDescription>{trans.deleteMessage}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete-customer">{t.cancel}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteMutation.mutate()}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="button-confirm-delete-customer"
+            >
+              {t.delete}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ListPagination } from "@/components/ListPagination";
+import { PhoneInput, usePhoneRegion } from "@/components/PhoneInput";
+import { isValidPhoneNumber } from "libphonenumber-js";
+import { Search, Plus, Contact, Phone, MapPin } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { Customer, InsertCustomer, Paginated } from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+export default function CustomersPage() {
+  const { t, language, isRTL } = useLanguage();
+  const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+  const canEdit = hasRole("admin", "agent");
+
+  const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const messages = {
+    ar: {
+      customerCount: "عميل",
+      noResults: "لا توجد نتائج",
+      empty: "يتم إنشاء العملاء تلقائياً مع أول طلب لهم",
+      newCustomer: "عميل جديد",
+      created: "تم إنشاء العميل",
+      since: "عميل منذ",
+    },
+    en: {
+      customerCount: "customers",
+      noResults: "No results found",
+      empty: "Customers are created automatically with their first order",
+      newCustomer: "New customer",
+      created: "Customer created",
+      since: "Customer since",
+    },
+    fr: {
+      customerCount: "clients",
+      noResults: "Aucun résultat trouvé",
+      empty: "Les clients sont créés automatiquement avec leur première commande",
+      newCustomer: "Nouveau client",
+      created: "Client créé",
+      since: "Client depuis",
+    },
+  };
+
+  const msg = messages[language];
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchTerm.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const { data: customersPage, isLoading } = useQuery<Paginated<Customer>>({
+    queryKey: ["/api/customers", { page, limit: PAGE_SIZE, search: debouncedSearch }],
+    placeholderData: keepPreviousData,
+  });
+  const customers = customersPage?.items;
+
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertCustomer) => {
+      return apiRequest<Customer>("POST", "/api/customers", data);
+    },
+    onSuccess: (customer) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      setIsCreateOpen(false);
+      toast({
+        title: t.success,
+        description: msg.created,
+      });
+      navigate(`/customers/${customer.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const locale = language === "ar" ? "ar-MA" : language === "fr" ? "fr-FR" : "en-US";
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="text-customers-title">
+            {t.customers}
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1" data-testid="text-customer-count">
+            {customersPage?.total || 0} {msg.customerCount}
+          </p>
+        </div>
+        <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+          <DialogTrigger asChild>
+            <Button disabled={!canEdit} data-testid="button-new-customer">
+              <Plus className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+              {msg.newCustomer}
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{msg.newCustomer}</DialogTitle>
+            </DialogHeader>
+            <CustomerForm
+              onSubmit={(data) => createMutation.mutate(data)}
+              isSubmitting={createMutation.isPending}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Search */}
+      <div className="relative max-w-md">
+        <Search className={`absolute top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground ${isRTL ? "right-3" : "left-3"}`} />
+        <Input
+          placeholder={t.search}
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className={isRTL ? "pr-10" : "pl-10"}
+          data-testid="input-search-customers"
+        />
+      </div>
+
+      {/* Customers Table */}
+      {isLoading ? (
+        <Card>
+          <CardContent className="p-6 space-y-3">
+            {[1, 2, 3, 4, 5].map((i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      ) : customers && customers.length > 0 ? (
+        <>
+          <Card>
+            <CardContent className="p-0">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t.customerName}</TableHead>
+                      <TableHead>{t.customerPhone}</TableHead>
+                      <TableHead>{t.customerCity}</TableHead>
+                      <TableHead>{msg.since}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {customers.map((customer) => (
+                      <TableRow key={customer.id} data-testid={`row-customer-${customer.id}`}>
+                        <TableCell className="font-medium">
+                          <Link
+                            href={`/customers/${customer.id}`}
+                            className="hover:underline underline-offset-4"
+                            data-testid={`link-customer-${customer.id}`}
+                          >
+                            {customer.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Phone className="h-3 w-3 text-muted-foreground" />
+                            <span dir="ltr">{customer.phone}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {customer.city && (
+                            <div className="flex items-center gap-1">
+                              <MapPin className="h-3 w-3 text-muted-foreground" />
+                              {customer.city}
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {new Date(customer.createdAt).toLocaleDateString(locale)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+          <ListPagination
+            page={page}
+            totalPages={customersPage?.totalPages || 0}
+            onPageChange={setPage}
+          />
+        </>
+      ) : (
+        <div className="text-center py-16">
+          <Contact className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
+          <p className="text-lg font-medium" data-testid="text-no-customers">
+            {debouncedSearch ? msg.noResults : msg.empty}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CustomerFormProps {
+  initial?: Customer;
+  onSubmit: (data: InsertCustomer) => void;
+  isSubmitting: boolean;
+}
+
+// Create and edit form; also used on the customer profile page
+export function CustomerForm({ initial, onSubmit, isSubmitting }: CustomerFormProps) {
+  const { t } = useLanguage();
+  const phoneRegion = usePhoneRegion();
+  const [formData, setFormData] = useState<InsertCustomer>({
+    name: initial?.name || "",
+    phone: initial?.phone || "",
+    address: initial?.address || "",
+    city: initial?.city || "",
+    notes: initial?.notes || "",
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSubmit(formData);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4" data-testid="form-customer">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="name">{t.customerName} *</Label>
+          <Input
+            id="name"
+            value={formData.name}
+            onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+            required
+            data-testid="input-customer-name"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="phone">{t.customerPhone} *</Label>
+          <PhoneInput
+            id="phone"
+            value={formData.phone}
+            onChange={(phone) => setFormData((prev) => ({ ...prev, phone }))}
+            required
+            data-testid="input-customer-phone"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="city">{t.customerCity}</Label>
+          <Input
+            id="city"
+            value={formData.city || ""}
+            onChange={(e) => setFormData((prev) => ({ ...prev, city: e.target.value }))}
+            data-testid="input-customer-city"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="address">{t.customerAddress}</Label>
+          <Input
+            id="address"
+            value={formData.address || ""}
+            onChange={(e) => setFormData((prev) => ({ ...prev, address: e.target.value }))}
+            data-testid="input-customer-address"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="customerNotes">{t.notes}</Label>
+        <Textarea
+          id="customerNotes"
+          value={formData.notes || ""}
+          onChange={(e) => setFormData((prev) => ({ ...prev, notes: e.target.value }))}
+          rows={3}
+          data-testid="input-customer-notes"
+        />
+      </div>
+
+      <div className="flex gap-3 pt-4">
+        <Button
+          type="submit"
+          className="flex-1"
+          disabled={!formData.name.trim() || !isValidPhoneNumber(formData.phone, phoneRegion) || isSubmitting}
+          data-testid="button-save-customer"
+        >
+          {isSubmitting ? t.loading : t.save}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -3,25 +3,43 @@ import { useLanguage } from "@/contexts/LanguageContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { OrderStatusBadge } from "@/components/OrderStatusBadge";
+import { ProductPrice } from "@/components/ProductPrice";
 import { Link } from "wouter";
-import { Upload, Package, ShoppingCart, TrendingUp, Clock, CheckCircle } from "lucide-react";
-import type { Product, Order } from "@shared/schema";
+import { Upload, Package, ShoppingCart, TrendingUp, Clock, CheckCircle, AlertTriangle } from "lucide-react";
+import {
+  orderStatusEnum,
+  type LowStockEntry,
+  type Product,
+  type Order,
+  type OrderStatusCounts,
+  type Paginated,
+} from "@shared/schema";
 
 export default function Dashboard() {
   const { t, language, isRTL } = useLanguage();
 
-  const { data: products, isLoading: productsLoading } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  const { data: productsPage, isLoading: productsLoading } = useQuery<Paginated<Product>>({
+    queryKey: ["/api/products", { limit: 4 }],
   });
 
-  const { data: orders, isLoading: ordersLoading } = useQuery<Order[]>({
-    queryKey: ["/api/orders"],
+  const { data: ordersPage, isLoading: ordersLoading } = useQuery<Paginated<Order>>({
+    queryKey: ["/api/orders", { limit: 5 }],
   });
 
-  const pendingOrders = orders?.filter((o) => o.status === "pending").length || 0;
-  const confirmedOrders = orders?.filter((o) => o.status === "confirmed").length || 0;
-  const totalProducts = products?.length || 0;
-  const recentProducts = products?.slice(0, 4) || [];
+  const { data: statusCounts, isLoading: statusCountsLoading } = useQuery<OrderStatusCounts>({
+    queryKey: ["/api/orders/status-counts"],
+  });
+
+  const { data: lowStock } = useQuery<LowStockEntry[]>({
+    queryKey: ["/api/inventory/low-stock"],
+  });
+
+  const orders = ordersPage?.items;
+  const pendingOrders = statusCounts?.pending || 0;
+  const confirmedOrders = statusCounts?.confirmed || 0;
+  const totalProducts = productsPage?.total || 0;
+  const recentProducts = productsPage?.items || [];
 
   const welcomeText = {
     ar: "مرحباً بك في لوحة تحكم المنتجات",
@@ -35,6 +53,12 @@ export default function Dashboard() {
     fr: "Voir tout",
   };
 
+  const byStatusText = {
+    ar: "الطلبات حسب الحالة",
+    en: "Orders by status",
+    fr: "Commandes par statut",
+  };
+
   const stats = [
     {
       title: t.products,
@@ -59,11 +83,18 @@ export default function Dashboard() {
     },
     {
       title: t.total,
-      value: orders?.length || 0,
+      value: ordersPage?.total || 0,
       icon: TrendingUp,
       color: "text-purple-600 dark:text-purple-400",
       bgColor: "bg-purple-100 dark:bg-purple-900/30",
     },
+    {
+      title: t.lowStock,
+      value: lowStock?.length || 0,
+      icon: AlertTriangle,
+      color: "text-red-600 dark:text-red-400",
+      bgColor: "bg-red-100 dark:bg-red-900/30",
+    },
   ];
 
   return (
@@ -95,7 +126,7 @@ export default function Dashboard() {
       </div>
 
       {/* Stats Grid */}
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
         {stats.map((stat, index) => (
           <Card key={index} data-testid={`card-stat-${index}`}>
             <CardContent className="p-4">
@@ -117,6 +148,69 @@ export default function Dashboard() {
         ))}
       </div>
 
+      {/* Low Stock Alerts */}
+      {lowStock && lowStock.length > 0 && (
+        <Card className="border-red-200 dark:border-red-900" data-testid="card-low-stock">
+          <CardHeader className="pb-4">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400" />
+              {t.lowStock}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {lowStock.map((entry) => (
+                <Link key={entry.variantId ?? entry.productId} href={`/product/${entry.productId}`}>
+                  <div
+                    className="flex items-center justify-between gap-2 p-3 rounded-md hover-elevate cursor-pointer"
+                    data-testid={`low-stock-${entry.variantId ?? entry.productId}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{entry.productName}</p>
+                      {entry.variantLabel && (
+                        <p className="text-xs text-muted-foreground truncate">
+                          {entry.variantLabel}
+                          {entry.sku && ` · ${entry.sku}`}
+                        </p>
+                      )}
+                    </div>
+                    <span className={`font-semibold ${entry.stock <= 0 ? "text-red-600 dark:text-red-400" : ""}`}>
+                      {entry.stock}
+                    </span>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Orders by Status */}
+      <Card>
+        <CardHeader className="pb-4">
+          <CardTitle className="text-lg">{byStatusText[language]}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+            {orderStatusEnum.options.map((status) => (
+              <Link key={status} href="/orders">
+                <div
+                  className="flex items-center justify-between gap-2 p-3 rounded-md hover-elevate cursor-pointer"
+                  data-testid={`status-count-${status}`}
+                >
+                  <OrderStatusBadge status={status} />
+                  {statusCountsLoading ? (
+                    <Skeleton className="h-5 w-8" />
+                  ) : (
+                    <span className="font-semibold">{statusCounts?.[status] || 0}</span>
+                  )}
+                </div>
+              </Link>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
       {/* Recent Products */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between gap-2 pb-4">
@@ -154,8 +248,10 @@ export default function Dashboard() {
                       />
                     </div>
                     <h3 className="text-sm font-medium truncate" data-testid={`text-product-name-${product.id}`}>{product.name}</h3>
-                    {product.price && (
-                      <p className="text-xs text-muted-foreground" data-testid={`text-product-price-${product.id}`}>{product.price}</p>
+                    {product.price !== null && (
+                      <p className="text-xs text-muted-foreground" data-testid={`text-product-price-${product.id}`}>
+                        <ProductPrice product={product} />
+                      </p>
                     )}
                   </div>
                 </Link>
@@ -202,7 +298,7 @@ export default function Dashboard() {
             </div>
           ) : orders && orders.length > 0 ? (
             <div className="space-y-3">
-              {orders.slice(0, 5).map((order) => (
+              {orders.map((order) => (
                 <div
                   key={order.id}
                   className="flex items-center gap-4 p-3 rounded-md hover-elevate"
@@ -215,7 +311,7 @@ export default function Dashboard() {
                     <p className="text-sm font-medium truncate" data-testid={`text-order-customer-${order.id}`}>{order.customerName}</p>
                     <p className="text-xs text-muted-foreground" data-testid={`text-order-phone-${order.id}`}>{order.customerPhone}</p>
                   </div>
-                  <StatusBadge status={order.status} t={t} />
+                  <OrderStatusBadge status={order.status} />
                 </div>
               ))}
             </div>
@@ -236,32 +332,3 @@ export default function Dashboard() {
     </div>
   );
 }
-
-function StatusBadge({ status, t }: { status: string; t: any }) {
-  const statusConfig: Record<string, { label: string; className: string }> = {
-    pending: {
-      label: t.pending,
-      className: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
-    },
-    confirmed: {
-      label: t.confirmed,
-      className: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400",
-    },
-    cancelled: {
-      label: t.cancelled,
-      className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
-    },
-    delivered: {
-      label: t.delivered,
-      className: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
-    },
-  };
-
-  const config = statusConfig[status] || statusConfig.pending;
-
-  return (
-    <span className={`text-xs px-2 py-1 rounded-full ${config.className}`} data-testid={`badge-status-${status}`}>
-      {config.label}
-    </span>
-  );
-}
@@ -8,9 +8,10 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { Send, FileDown, Copy, Upload as UploadIcon, Loader2, CheckCircle, AlertCircle, Image as ImageIcon } from "lucide-react";
+import { useChatStream } from "@/hooks/use-chat-stream";
+import { Send, Square, FileDown, Copy, Upload as UploadIcon, Loader2, CheckCircle, AlertCircle, Image as ImageIcon } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import type { Product, Language } from "@shared/schema";
+import { formatMoney, type Product, type Language } from "@shared/schema";
 
 interface ChatMessage {
   id: string;
@@ -40,6 +41,7 @@ export default function Home() {
   const [marketingPost, setMarketingPost] = useState<MarketingPost | null>(null);
   const [marketingImageUrl, setMarketingImageUrl] = useState<string | null>(null);
   const [generatingImage, setGeneratingImage] = useState(false);
+  const chat = useChatStream();
 
   const translations = {
     ar: {
@@ -217,37 +219,30 @@ export default function Home() {
     },
   });
 
-  const chatMutation = useMutation({
-    mutationFn: async (question: string) => {
-      const response = await apiRequest<{ answer: string }>(
-        "POST",
+  // The answer shows up as it streams in; a cancelled one keeps what it got
+  const askQuestion = async (question: string) => {
+    const answerId = `${Date.now()}-answer`;
+    const setAnswer = (content: string) =>
+      setMessages((prev) => prev.map((msg) => (msg.id === answerId ? { ...msg, content } : msg)));
+    setMessages((prev) => [...prev, { id: answerId, role: "assistant", content: "" }]);
+
+    try {
+      const answer = await chat.stream(
         `/api/products/${product?.id}/chat`,
-        {
-          question,
-          language,
-          productDescription: product?.descriptions[language],
-        }
+        { question },
+        setAnswer,
       );
-      return response.answer;
-    },
-    onSuccess: (answer) => {
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: Date.now().toString(),
-          role: "assistant",
-          content: answer,
-        },
-      ]);
-    },
-    onError: () => {
+      setAnswer(answer);
+    } catch (error: any) {
+      if (error.name === "AbortError") return;
+      setMessages((prev) => prev.filter((msg) => msg.id !== answerId || msg.content));
       toast({
         title: t.error,
         description: "Failed to get AI response",
         variant: "destructive",
       });
-    },
-  });
+    }
+  };
 
   const handleFileSelect = (file: File) => {
     if (!file.type.startsWith("image/")) {
@@ -284,7 +279,7 @@ export default function Home() {
       },
     ]);
 
-    chatMutation.mutate(chatInput);
+    askQuestion(chatInput);
     setChatInput("");
   };
 
@@ -366,7 +361,7 @@ export default function Home() {
   const copyProductInfo = () => {
     if (!product) return;
     const info = `Product: ${product.name}
-Price: ${product.price || "N/A"}
+Price: ${product.price !== null ? formatMoney(product.price, product.currency, language) : "N/A"}
 Category: ${product.category || "N/A"}
 
 Description:
@@ -761,17 +756,14 @@ ${product.descriptions[language]}`;
                           </a>
                         </div>
                       )}
-                      <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                      {msg.content ? (
+                        <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                      ) : (
+                        <Loader2 className="h-4 w-4 animate-spin" />
+                      )}
                     </div>
                   </div>
                 ))}
-                {chatMutation.isPending && (
-                  <div className="flex justify-start">
-                    <div className="bg-muted px-4 py-2 rounded-lg">
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    </div>
-                  </div>
-                )}
               </CardContent>
               <div className="border-t p-3 space-y-2">
                 <form onSubmit={handleSendMessage} className="flex gap-2">
@@ -779,18 +771,30 @@ ${product.descriptions[language]}`;
                     placeholder={trans.askQuestion}
                     value={chatInput}
                     onChange={(e) => setChatInput(e.target.value)}
-                    disabled={chatMutation.isPending || generatingImage}
+                    disabled={chat.isStreaming || generatingImage}
                     data-testid="input-chat"
                     dir={isRTL ? "rtl" : "ltr"}
                   />
-                  <Button
-                    type="submit"
-                    size="icon"
-                    disabled={!chatInput.trim() || chatMutation.isPending || generatingImage}
-                    data-testid="button-send"
-                  >
-                    <Send className="h-4 w-4" />
-                  </Button>
+                  {chat.isStreaming ? (
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="outline"
+                      onClick={chat.cancel}
+                      data-testid="button-stop-chat"
+                    >
+                      <Square className="h-4 w-4" />
+                    </Button>
+                  ) : (
+                    <Button
+                      type="submit"
+                      size="icon"
+                      disabled={!chatInput.trim() || generatingImage}
+                      data-testid="button-send"
+                    >
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  )}
                 </form>
                 <div className="flex gap-2">
                   <Button
@@ -0,0 +1,102 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+} from "@/components/ui/pagination";
+
+interface ListPaginationProps {
+  page: number;
+  totalPages: number;
+  onPageChange: (page: number) => void;
+}
+
+const labels = {
+  ar: { previous: "السابق", next: "التالي" },
+  en: { previous: "Previous", next: "Next" },
+  fr: { previous: "Précédent", next: "Suivant" },
+};
+
+// Pages to show around the current one; the rest collapse into ellipses
+function visiblePages(page: number, totalPages: number): (number | "ellipsis")[] {
+  const pages: (number | "ellipsis")[] = [];
+  for (let p = 1; p <= totalPages; p++) {
+    if (p === 1 || p === totalPages || Math.abs(p - page) <= 1) {
+      pages.push(p);
+    } else if (pages[pages.length - 1] !== "ellipsis") {
+      pages.push("ellipsis");
+    }
+  }
+  return pages;
+}
+
+export function ListPagination({ page, totalPages, onPageChange }: ListPaginationProps) {
+  const { language, isRTL } = useLanguage();
+  const label = labels[language];
+
+  if (totalPages <= 1) return null;
+
+  const goTo = (target: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    if (target >= 1 && target <= totalPages && target !== page) {
+      onPageChange(target);
+    }
+  };
+
+  const PrevIcon = isRTL ? ChevronRight : ChevronLeft;
+  const NextIcon = isRTL ? ChevronLeft : ChevronRight;
+
+  return (
+    <Pagination data-testid="pagination">
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationLink
+            href="#"
+            size="default"
+            className="gap-1"
+            aria-disabled={page <= 1}
+            onClick={goTo(page - 1)}
+            data-testid="pagination-previous"
+          >
+            <PrevIcon className="h-4 w-4" />
+            <span>{label.previous}</span>
+          </PaginationLink>
+        </PaginationItem>
+        {visiblePages(page, totalPages).map((p, index) =>
+          p === "ellipsis" ? (
+            <PaginationItem key={`ellipsis-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={p}>
+              <PaginationLink
+                href="#"
+                isActive={p === page}
+                onClick={goTo(p)}
+                data-testid={`pagination-page-${p}`}
+              >
+                {p}
+              </PaginationLink>
+            </PaginationItem>
+          )
+        )}
+        <PaginationItem>
+          <PaginationLink
+            href="#"
+            size="default"
+            className="gap-1"
+            aria-disabled={page >= totalPages}
+            onClick={goTo(page + 1)}
+            data-testid="pagination-next"
+          >
+            <span>{label.next}</span>
+            <NextIcon className="h-4 w-4" />
+          </PaginationLink>
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/use-auth";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LanguageSwitcher } from "@/components/LanguageSwitcher";
+import { ThemeToggle } from "@/components/ThemeToggle";
+import { Package, Loader2 } from "lucide-react";
+
+export default function LoginPage() {
+  const { language, isRTL } = useLanguage();
+  const { loginMutation } = useAuth();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const translations = {
+    ar: {
+      title: "تسجيل الدخول",
+      subtitle: "سجل الدخول للوصول إلى المنتجات والطلبات",
+      username: "اسم المستخدم",
+      password: "كلمة المرور",
+      submit: "دخول",
+      invalid: "اسم المستخدم أو كلمة المرور غير صحيحة",
+    },
+    en: {
+      title: "Sign in",
+      subtitle: "Sign in to access products and orders",
+      username: "Username",
+      password: "Password",
+      submit: "Sign in",
+      invalid: "Invalid username or password",
+    },
+    fr: {
+      title: "Connexion",
+      subtitle: "Connectez-vous pour accéder aux produits et commandes",
+      username: "Nom d'utilisateur",
+      password: "Mot de passe",
+      submit: "Se connecter",
+      invalid: "Nom d'utilisateur ou mot de passe incorrect",
+    },
+  };
+
+  const trans = translations[language];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ username, password });
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <header className="flex items-center justify-end gap-2 p-3">
+        <LanguageSwitcher />
+        <ThemeToggle />
+      </header>
+      <div className="flex-1 flex items-center justify-center p-6">
+        <Card className="w-full max-w-sm" data-testid="card-login">
+          <CardHeader className="space-y-3 text-center">
+            <div className="mx-auto flex h-12 w-12 items-center justify-center rounded-md bg-primary">
+              <Package className="h-6 w-6 text-primary-foreground" />
+            </div>
+            <CardTitle data-testid="text-login-title">{trans.title}</CardTitle>
+            <p className="text-sm text-muted-foreground">{trans.subtitle}</p>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-4" data-testid="form-login">
+              <div className="space-y-2">
+                <Label htmlFor="username">{trans.username}</Label>
+                <Input
+                  id="username"
+                  autoComplete="username"
+                  value={username}
+                  onChange={(e) => setUsername(e.target.value)}
+                  required
+                  data-testid="input-username"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">{trans.password}</Label>
+                <Input
+                  id="password"
+                  type="password"
+                  autoComplete="current-password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  data-testid="input-password"
+                />
+              </div>
+              {loginMutation.isError && (
+                <p className="text-sm text-destructive" data-testid="text-login-error">
+                  {trans.invalid}
+                </p>
+              )}
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={!username || !password || loginMutation.isPending}
+                data-testid="button-login"
+              >
+                {loginMutation.isPending && (
+                  <Loader2 className={`h-4 w-4 animate-spin ${isRTL ? "ml-2" : "mr-2"}`} />
+                )}
+                {trans.submit}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
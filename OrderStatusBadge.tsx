@@ -0,0 +1,60 @@
+import { useLanguage } from "@/contexts/LanguageContext";
+
+export function OrderStatusBadge({ status }: { status: string }) {
+  const { t } = useLanguage();
+
+  const statusConfig: Record<string, { label: string; className: string }> = {
+    pending: {
+      label: t.pending,
+      className: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+    },
+    no_answer: {
+      label: t.noAnswer,
+      className: "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400",
+    },
+    call_back_later: {
+      label: t.callBackLater,
+      className: "bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400",
+    },
+    wrong_number: {
+      label: t.wrongNumber,
+      className: "bg-pink-100 text-pink-700 dark:bg-pink-900/30 dark:text-pink-400",
+    },
+    duplicate: {
+      label: t.duplicate,
+      className: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
+    },
+    confirmed: {
+      label: t.confirmed,
+      className: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400",
+    },
+    shipped: {
+      label: t.shipped,
+      className: "bg-cyan-100 text-cyan-700 dark:bg-cyan-900/30 dark:text-cyan-400",
+    },
+    delivered: {
+      label: t.delivered,
+      className: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+    },
+    refused: {
+      label: t.refused,
+      className: "bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400",
+    },
+    returned: {
+      label: t.returned,
+      className: "bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-400",
+    },
+    cancelled: {
+      label: t.cancelled,
+      className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+    },
+  };
+
+  const config = statusConfig[status] || statusConfig.pending;
+
+  return (
+    <span className={`text-xs px-2 py-1 rounded-full ${config.className}`} data-testid={`badge-status-${status}`}>
+      {config.label}
+    </span>
+  );
+}
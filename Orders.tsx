@@ -1,7 +1,7 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { useLanguage } from "@/contexts/LanguageContext";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -32,6 +32,8 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ListPagination } from "@/components/ListPagination";
 import {
   Search,
   Plus,
@@ -41,23 +43,84 @@ import {
   Copy,
   FileDown,
   Eye,
+  PhoneCall,
+  AlertTriangle,
+  Merge,
+  Ban,
+  Trash2,
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import type { Product, Order, InsertOrder, Language } from "@shared/schema";
+import { isValidPhoneNumber } from "libphonenumber-js";
+import { PhoneInput, usePhoneRegion } from "@/components/PhoneInput";
+import {
+  callOutcomeEnum,
+  computeOrderTotals,
+  lineTotal,
+  formatMoney,
+  DEFAULT_CURRENCY,
+  orderStatusEnum,
+  orderStatusReasonCodes,
+  orderStatusTransitions,
+  variantLabel,
+  type ProductLookup,
+  type ProductVariant,
+  type Order,
+  type OrderWithStockShortages,
+  type CreateOrder,
+  type OrderItemInput,
+  type OrderItemEntry,
+  type AppConfig,
+  type Language,
+  type OrderReasonCode,
+  type OrderStatus,
+  type OrderStatusHistoryEntry,
+  type CallAttemptEntry,
+  type CallOutcome,
+  type OrderRiskFlag,
+  type Paginated,
+  type PublicUser,
+  type Customer,
+} from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+type SortOption = "newest" | "oldest" | "name";
+
+const sortParams: Record<SortOption, { sort: string; order: "asc" | "desc" }> = {
+  newest: { sort: "createdAt", order: "desc" },
+  oldest: { sort: "createdAt", order: "asc" },
+  name: { sort: "customerName", order: "asc" },
+};
 
 export default function OrdersPage() {
   const { t, language, isRTL } = useLanguage();
   const { toast } = useToast();
+  const { hasRole } = useAuth();
+  const canEdit = hasRole("admin", "agent");
+  const isAdmin = hasRole("admin");
   const queryClient = useQueryClient();
   const [location] = useLocation();
   
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [productFilter, setProductFilter] = useState<string>("all");
+  const [assigneeFilter, setAssigneeFilter] = useState<string>("all");
+  const [flagFilter, setFlagFilter] = useState<string>("all");
+  const [cityFilter, setCityFilter] = useState("");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [sortOption, setSortOption] = useState<SortOption>("newest");
+  const [page, setPage] = useState(1);
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
+  const [nextStatus, setNextStatus] = useState<string>("");
+  const [statusReasonCode, setStatusReasonCode] = useState<string>("");
+  const [statusReason, setStatusReason] = useState("");
   
   const urlParams = new URLSearchParams(location.split("?")[1] || "");
   const preselectedProductId = urlParams.get("product");
+  const preselectedVariantId = urlParams.get("variant");
 
   const messages = {
     ar: {
@@ -70,6 +133,34 @@ export default function OrdersPage() {
       pdfDownloaded: "تم تحميل الـ PDF",
       pdfFailed: "فشل تحميل الـ PDF",
       createFailed: "فشل إنشاء الطلب",
+      from: "من تاريخ",
+      to: "إلى تاريخ",
+      newest: "الأحدث",
+      oldest: "الأقدم",
+      byName: "حسب الاسم",
+      allProducts: "كل المنتجات",
+      allAssignees: "كل الوكلاء",
+      statusHistory: "سجل الحالة",
+      changeStatus: "تغيير الحالة",
+      reason: "السبب (اختياري)",
+      apply: "تطبيق",
+      created: "تم إنشاء الطلب",
+      by: "بواسطة",
+      callLogged: "تم تسجيل المكالمة",
+      noCalls: "لا توجد مكالمات بعد",
+      flagged: "مشبوه",
+      allOrders: "كل الطلبات",
+      flaggedOnly: "الطلبات المشبوهة",
+      riskFlags: { duplicate: "طلب مكرر محتمل", blacklisted: "رقم في القائمة السوداء", high_refusal_rate: "نسبة رفض مرتفعة" },
+      duplicateOf: "مكرر للطلب",
+      merge: "دمج مع الطلب الأصلي",
+      dismiss: "تجاهل التنبيه",
+      blacklistPhone: "حظر الرقم",
+      viewCustomer: "عرض ملف العميل",
+      merged: "تم دمج الطلب",
+      dismissed: "تم تجاهل التنبيه",
+      phoneBlacklisted: "تم حظر الرقم",
+      assigned: "تم إسناد الطلب",
     },
     en: {
       orderCount: "orders",
@@ -81,6 +172,34 @@ export default function OrdersPage() {
       pdfDownloaded: "PDF downloaded successfully",
       pdfFailed: "Failed to download PDF",
       createFailed: "Failed to create order",
+      from: "From",
+      to: "To",
+      newest: "Newest first",
+      oldest: "Oldest first",
+      byName: "By name",
+      allProducts: "All products",
+      allAssignees: "All agents",
+      statusHistory: "Status history",
+      changeStatus: "Change status",
+      reason: "Reason (optional)",
+      apply: "Apply",
+      created: "Order created",
+      by: "by",
+      callLogged: "Call logged",
+      noCalls: "No calls yet",
+      flagged: "Flagged",
+      allOrders: "All orders",
+      flaggedOnly: "Flagged orders",
+      riskFlags: { duplicate: "Likely duplicate", blacklisted: "Blacklisted phone", high_refusal_rate: "High refusal rate" },
+      duplicateOf: "Duplicate of",
+      merge: "Merge into original",
+      dismiss: "Dismiss",
+      blacklistPhone: "Blacklist phone",
+      viewCustomer: "View customer profile",
+      merged: "Order merged",
+      dismissed: "Flags dismissed",
+      phoneBlacklisted: "Phone blacklisted",
+      assigned: "Order assigned",
     },
     fr: {
       orderCount: "commandes",
@@ -92,30 +211,115 @@ export default function OrdersPage() {
       pdfDownloaded: "PDF téléchargé avec succès",
       pdfFailed: "Échec du téléchargement du PDF",
       createFailed: "Échec de la création de la commande",
+      from: "Du",
+      to: "Au",
+      newest: "Plus récentes",
+      oldest: "Plus anciennes",
+      byName: "Par nom",
+      allProducts: "Tous les produits",
+      allAssignees: "Tous les agents",
+      statusHistory: "Historique des statuts",
+      changeStatus: "Changer le statut",
+      reason: "Motif (facultatif)",
+      apply: "Appliquer",
+      created: "Commande créée",
+      by: "par",
+      callLogged: "Appel enregistré",
+      noCalls: "Aucun appel pour l'instant",
+      flagged: "Signalée",
+      allOrders: "Toutes les commandes",
+      flaggedOnly: "Commandes signalées",
+      riskFlags: { duplicate: "Doublon probable", blacklisted: "Numéro sur liste noire", high_refusal_rate: "Taux de refus élevé" },
+      duplicateOf: "Doublon de",
+      merge: "Fusionner avec l'originale",
+      dismiss: "Ignorer",
+      blacklistPhone: "Bloquer le numéro",
+      viewCustomer: "Voir la fiche client",
+      merged: "Commande fusionnée",
+      dismissed: "Signalement ignoré",
+      phoneBlacklisted: "Numéro bloqué",
+      assigned: "Commande assignée",
     },
   };
 
   const msg = messages[language];
 
-  const { data: products } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [debouncedSearch, statusFilter, productFilter, assigneeFilter, flagFilter, cityFilter, dateFrom, dateTo, sortOption]);
+
+  const { data: products } = useQuery<ProductLookup[]>({
+    queryKey: ["/api/products/lookup"],
+  });
+
+  // Only admins can list users and reassign orders
+  const { data: users } = useQuery<PublicUser[]>({
+    queryKey: ["/api/users"],
+    enabled: isAdmin,
   });
+  const assignees = users?.filter((user) => user.role !== "viewer");
+  const usernames = new Map(users?.map((user) => [user.id, user.username]));
+
+  const orderParams = {
+    page,
+    limit: PAGE_SIZE,
+    ...sortParams[sortOption],
+    search: debouncedSearch,
+    status: statusFilter === "all" ? undefined : statusFilter,
+    productId: productFilter === "all" ? undefined : productFilter,
+    assignedTo: assigneeFilter === "all" ? undefined : assigneeFilter,
+    flagged: flagFilter === "flagged" ? true : undefined,
+    city: cityFilter.trim(),
+    from: dateFrom ? new Date(`${dateFrom}T00:00:00`) : undefined,
+    to: dateTo ? new Date(`${dateTo}T23:59:59.999`) : undefined,
+  };
 
-  const { data: orders, isLoading } = useQuery<Order[]>({
-    queryKey: ["/api/orders"],
+  const { data: ordersPage, isLoading } = useQuery<Paginated<Order>>({
+    queryKey: ["/api/orders", orderParams],
+    placeholderData: keepPreviousData,
   });
+  const orders = ordersPage?.items;
+  const hasFilters =
+    !!debouncedSearch ||
+    statusFilter !== "all" ||
+    productFilter !== "all" ||
+    assigneeFilter !== "all" ||
+    flagFilter !== "all" ||
+    !!cityFilter ||
+    !!dateFrom ||
+    !!dateTo;
+
+  // Orders can be taken, and confirmed when STOCK_POLICY is "warn", without
+  // enough stock
+  const warnStockShortages = ({ stockShortages }: OrderWithStockShortages) => {
+    if (stockShortages.length === 0) return;
+    toast({
+      title: t.insufficientStock,
+      description: stockShortages
+        .map((shortage) => `${shortage.name}: ${shortage.requested} / ${shortage.available}`)
+        .join(", "),
+    });
+  };
 
   const createMutation = useMutation({
-    mutationFn: async (data: InsertOrder) => {
-      return apiRequest<Order>("POST", "/api/orders", data);
+    mutationFn: async (data: CreateOrder) => {
+      return apiRequest<OrderWithStockShortages>("POST", "/api/orders", data);
     },
-    onSuccess: () => {
+    onSuccess: (order) => {
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
       setIsCreateOpen(false);
       toast({
         title: t.success,
         description: t.orderCreated,
       });
+      warnStockShortages(order);
     },
     onError: () => {
       toast({
@@ -127,26 +331,129 @@ export default function OrdersPage() {
   });
 
   const updateStatusMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: string; status: string }) => {
-      return apiRequest("PATCH", `/api/orders/${id}`, { status });
+    mutationFn: async ({
+      id,
+      status,
+      reasonCode,
+      reason,
+    }: {
+      id: string;
+      status: string;
+      reasonCode?: string;
+      reason?: string;
+    }) => {
+      return apiRequest<OrderWithStockShortages>("PATCH", `/api/orders/${id}`, {
+        status,
+        reasonCode: reasonCode || undefined,
+        reason: reason || undefined,
+      });
     },
-    onSuccess: () => {
+    onSuccess: (updated) => {
+      // Also refetches the status history, which lives under the same key
       queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      setSelectedOrder((current) => (current?.id === updated.id ? updated : current));
+      setNextStatus("");
+      setStatusReasonCode("");
+      setStatusReason("");
       toast({
         title: t.success,
         description: msg.statusUpdated,
       });
+      warnStockShortages(updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
     },
   });
 
-  const filteredOrders = orders?.filter((order) => {
-    const matchesSearch =
-      order.customerName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      order.customerPhone.includes(searchTerm);
-    const matchesStatus = statusFilter === "all" || order.status === statusFilter;
-    return matchesSearch && matchesStatus;
+  const openOrder = (order: Order | null) => {
+    setSelectedOrder(order);
+    setNextStatus("");
+    setStatusReasonCode("");
+    setStatusReason("");
+  };
+
+  const allowedStatuses = (status: string): OrderStatus[] =>
+    orderStatusTransitions[status as OrderStatus] || [];
+
+  const assignMutation = useMutation({
+    mutationFn: async ({ id, userId }: { id: string; userId: string | null }) => {
+      return apiRequest<Order>("POST", `/api/orders/${id}/assign`, { userId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/agents/workload"] });
+      toast({
+        title: t.success,
+        description: msg.assigned,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Merge, dismiss and blacklist all answer with the reviewed order
+  const onFlagsReviewed = (updated: Order, description: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    setSelectedOrder((current) => (current?.id === updated.id ? updated : current));
+    toast({
+      title: t.success,
+      description,
+    });
+  };
+
+  const onFlagsError = (error: Error) => {
+    toast({
+      title: t.error,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest<{ order: Order }>("POST", `/api/orders/${id}/merge`);
+    },
+    onSuccess: ({ order }) => onFlagsReviewed(order, msg.merged),
+    onError: onFlagsError,
+  });
+
+  const dismissFlagsMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest<Order>("POST", `/api/orders/${id}/dismiss-flags`);
+    },
+    onSuccess: (order) => onFlagsReviewed(order, msg.dismissed),
+    onError: onFlagsError,
+  });
+
+  const blacklistMutation = useMutation({
+    mutationFn: async (phone: string) => {
+      return apiRequest("POST", "/api/blacklist", { phone });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blacklist"] });
+      toast({
+        title: t.success,
+        description: msg.phoneBlacklisted,
+      });
+    },
+    onError: onFlagsError,
   });
 
+  const isFlagged = (order: Order) => order.riskFlags.length > 0 && !order.flagsReviewedAt;
+
+  const getFlagLabels = (order: Order) =>
+    order.riskFlags.map((flag) => msg.riskFlags[flag as OrderRiskFlag] ?? flag).join(", ");
+
   const copyScript = (order: Order) => {
     if (order.confirmationScript) {
       navigator.clipboard.writeText(order.confirmationScript);
@@ -186,9 +493,16 @@ export default function OrdersPage() {
   const getStatusColor = (status: string) => {
     const colors: Record<string, string> = {
       pending: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+      no_answer: "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400",
+      call_back_later: "bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400",
+      wrong_number: "bg-pink-100 text-pink-700 dark:bg-pink-900/30 dark:text-pink-400",
+      duplicate: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
       confirmed: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-400",
-      cancelled: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+      shipped: "bg-cyan-100 text-cyan-700 dark:bg-cyan-900/30 dark:text-cyan-400",
       delivered: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400",
+      refused: "bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400",
+      returned: "bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-400",
+      cancelled: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
     };
     return colors[status] || colors.pending;
   };
@@ -196,9 +510,16 @@ export default function OrdersPage() {
   const getStatusLabel = (status: string) => {
     const labels: Record<string, string> = {
       pending: t.pending,
+      no_answer: t.noAnswer,
+      call_back_later: t.callBackLater,
+      wrong_number: t.wrongNumber,
+      duplicate: t.duplicate,
       confirmed: t.confirmed,
-      cancelled: t.cancelled,
+      shipped: t.shipped,
       delivered: t.delivered,
+      refused: t.refused,
+      returned: t.returned,
+      cancelled: t.cancelled,
     };
     return labels[status] || status;
   };
@@ -212,12 +533,12 @@ export default function OrdersPage() {
             {t.ordersTitle}
           </h1>
           <p className="text-sm text-muted-foreground mt-1" data-testid="text-orders-count">
-            {orders?.length || 0} {msg.orderCount}
+            {ordersPage?.total || 0} {msg.orderCount}
           </p>
         </div>
         <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
           <DialogTrigger asChild>
-            <Button data-testid="button-new-order">
+            <Button disabled={!canEdit} data-testid="button-new-order">
               <Plus className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
               {t.newOrder}
             </Button>
@@ -229,6 +550,7 @@ export default function OrdersPage() {
             <CreateOrderForm
               products={products || []}
               preselectedProductId={preselectedProductId}
+              preselectedVariantId={preselectedVariantId}
               onSubmit={(data) => createMutation.mutate(data)}
               isSubmitting={createMutation.isPending}
               t={t}
@@ -240,7 +562,7 @@ export default function OrdersPage() {
       </div>
 
       {/* Filters */}
-      <div className="flex flex-col sm:flex-row gap-4">
+      <div className="flex flex-col sm:flex-row sm:flex-wrap gap-4">
         <div className="relative flex-1 max-w-md">
           <Search className={`absolute top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground ${isRTL ? "right-3" : "left-3"}`} />
           <Input
@@ -257,10 +579,86 @@ export default function OrdersPage() {
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all" data-testid="filter-all">{msg.all}</SelectItem>
-            <SelectItem value="pending" data-testid="filter-pending">{t.pending}</SelectItem>
-            <SelectItem value="confirmed" data-testid="filter-confirmed">{t.confirmed}</SelectItem>
-            <SelectItem value="cancelled" data-testid="filter-cancelled">{t.cancelled}</SelectItem>
-            <SelectItem value="delivered" data-testid="filter-delivered">{t.delivered}</SelectItem>
+            {orderStatusEnum.options.map((status) => (
+              <SelectItem key={status} value={status} data-testid={`filter-${status}`}>
+                {getStatusLabel(status)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={productFilter} onValueChange={setProductFilter}>
+          <SelectTrigger className="w-[180px]" data-testid="select-product-filter">
+            <SelectValue placeholder={t.selectProduct} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" data-testid="filter-product-all">{msg.allProducts}</SelectItem>
+            {products?.map((product) => (
+              <SelectItem key={product.id} value={product.id} data-testid={`filter-product-${product.id}`}>
+                {product.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={flagFilter} onValueChange={setFlagFilter}>
+          <SelectTrigger className="w-[180px]" data-testid="select-flag-filter">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all" data-testid="filter-flag-all">{msg.allOrders}</SelectItem>
+            <SelectItem value="flagged" data-testid="filter-flag-flagged">{msg.flaggedOnly}</SelectItem>
+          </SelectContent>
+        </Select>
+        {isAdmin && (
+          <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+            <SelectTrigger className="w-[180px]" data-testid="select-assignee-filter">
+              <SelectValue placeholder={t.assignedTo} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all" data-testid="filter-assignee-all">{msg.allAssignees}</SelectItem>
+              <SelectItem value="none" data-testid="filter-assignee-none">{t.unassigned}</SelectItem>
+              {assignees?.map((user) => (
+                <SelectItem key={user.id} value={user.id} data-testid={`filter-assignee-${user.id}`}>
+                  {user.username}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input
+          placeholder={t.customerCity}
+          value={cityFilter}
+          onChange={(e) => setCityFilter(e.target.value)}
+          className="w-[160px]"
+          data-testid="input-city-filter"
+        />
+        <div className="flex items-center gap-2">
+          <Label htmlFor="dateFrom" className="text-sm text-muted-foreground">{msg.from}</Label>
+          <Input
+            id="dateFrom"
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className="w-[150px]"
+            data-testid="input-date-from"
+          />
+          <Label htmlFor="dateTo" className="text-sm text-muted-foreground">{msg.to}</Label>
+          <Input
+            id="dateTo"
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className="w-[150px]"
+            data-testid="input-date-to"
+          />
+        </div>
+        <Select value={sortOption} onValueChange={(value) => setSortOption(value as SortOption)}>
+          <SelectTrigger className="w-[160px]" data-testid="select-sort">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="newest" data-testid="sort-newest">{msg.newest}</SelectItem>
+            <SelectItem value="oldest" data-testid="sort-oldest">{msg.oldest}</SelectItem>
+            <SelectItem value="name" data-testid="sort-name">{msg.byName}</SelectItem>
           </SelectContent>
         </Select>
       </div>
@@ -283,7 +681,8 @@ export default function OrdersPage() {
             </div>
           </CardContent>
         </Card>
-      ) : filteredOrders && filteredOrders.length > 0 ? (
+      ) : orders && orders.length > 0 ? (
+        <>
         <Card>
           <CardContent className="p-0">
             <div className="overflow-x-auto">
@@ -294,16 +693,30 @@ export default function OrdersPage() {
                     <TableHead data-testid="th-customer-phone">{t.customerPhone}</TableHead>
                     <TableHead data-testid="th-customer-city">{t.customerCity}</TableHead>
                     <TableHead data-testid="th-quantity">{t.quantity}</TableHead>
+                    <TableHead data-testid="th-total">{t.total}</TableHead>
                     <TableHead data-testid="th-status">{t.status}</TableHead>
+                    {isAdmin && <TableHead data-testid="th-assigned-to">{t.assignedTo}</TableHead>}
                     <TableHead data-testid="th-date">{t.date}</TableHead>
                     <TableHead className="text-right" data-testid="th-actions">{t.actions}</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {filteredOrders.map((order) => (
+                  {orders.map((order) => (
                     <TableRow key={order.id} data-testid={`row-order-${order.id}`}>
                       <TableCell className="font-medium" data-testid={`cell-name-${order.id}`}>
-                        {order.customerName}
+                        <div className="flex items-center gap-2">
+                          {order.customerName}
+                          {isFlagged(order) && (
+                            <Badge
+                              variant="destructive"
+                              title={getFlagLabels(order)}
+                              data-testid={`badge-flagged-${order.id}`}
+                            >
+                              <AlertTriangle className={`h-3 w-3 ${isRTL ? "ml-1" : "mr-1"}`} />
+                              {msg.flagged}
+                            </Badge>
+                          )}
+                        </div>
                       </TableCell>
                       <TableCell data-testid={`cell-phone-${order.id}`}>
                         <div className="flex items-center gap-1">
@@ -320,26 +733,57 @@ export default function OrdersPage() {
                         )}
                       </TableCell>
                       <TableCell data-testid={`cell-quantity-${order.id}`}>{order.quantity}</TableCell>
+                      <TableCell className="font-medium" data-testid={`cell-total-${order.id}`}>
+                        {formatMoney(order.total, order.currency, language)}
+                      </TableCell>
                       <TableCell>
                         <Select
                           value={order.status}
+                          disabled={!canEdit || allowedStatuses(order.status).length === 0}
                           onValueChange={(status) =>
                             updateStatusMutation.mutate({ id: order.id, status })
                           }
                         >
-                          <SelectTrigger className="w-[130px] h-8" data-testid={`select-status-${order.id}`}>
+                          <SelectTrigger className="w-[160px] h-8" data-testid={`select-status-${order.id}`}>
                             <Badge className={`${getStatusColor(order.status)} border-0`}>
                               {getStatusLabel(order.status)}
                             </Badge>
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="pending">{t.pending}</SelectItem>
-                            <SelectItem value="confirmed">{t.confirmed}</SelectItem>
-                            <SelectItem value="cancelled">{t.cancelled}</SelectItem>
-                            <SelectItem value="delivered">{t.delivered}</SelectItem>
+                            {[order.status, ...allowedStatuses(order.status)].map((status) => (
+                              <SelectItem key={status} value={status}>
+                                {getStatusLabel(status)}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </TableCell>
+                      {isAdmin && (
+                        <TableCell>
+                          <Select
+                            value={order.assignedTo ?? "none"}
+                            onValueChange={(userId) =>
+                              assignMutation.mutate({ id: order.id, userId: userId === "none" ? null : userId })
+                            }
+                          >
+                            <SelectTrigger className="w-[140px] h-8" data-testid={`select-assignee-${order.id}`}>
+                              <SelectValue>
+                                {order.assignedTo
+                                  ? usernames.get(order.assignedTo) ?? order.assignedTo
+                                  : t.unassigned}
+                              </SelectValue>
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="none">{t.unassigned}</SelectItem>
+                              {assignees?.map((user) => (
+                                <SelectItem key={user.id} value={user.id}>
+                                  {user.username}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                      )}
                       <TableCell data-testid={`cell-date-${order.id}`}>
                         {order.createdAt
                           ? new Date(order.createdAt).toLocaleDateString(
@@ -352,7 +796,7 @@ export default function OrdersPage() {
                           <Button
                             variant="ghost"
                             size="icon"
-                            onClick={() => setSelectedOrder(order)}
+                            onClick={() => openOrder(order)}
                             data-testid={`button-view-order-${order.id}`}
                           >
                             <Eye className="h-4 w-4" />
@@ -383,16 +827,22 @@ export default function OrdersPage() {
             </div>
           </CardContent>
         </Card>
+        <ListPagination
+          page={page}
+          totalPages={ordersPage?.totalPages || 0}
+          onPageChange={setPage}
+        />
+        </>
       ) : (
         <div className="text-center py-16">
           <ShoppingCart className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
           <h3 className="text-lg font-medium mb-2" data-testid="text-empty-orders-title">
-            {searchTerm || statusFilter !== "all" ? msg.noResults : t.noOrders}
+            {hasFilters ? msg.noResults : t.noOrders}
           </h3>
           <p className="text-sm text-muted-foreground mb-4" data-testid="text-empty-orders-prompt">
             {msg.createPrompt}
           </p>
-          <Button onClick={() => setIsCreateOpen(true)} data-testid="button-create-first-order">
+          <Button onClick={() => setIsCreateOpen(true)} disabled={!canEdit} data-testid="button-create-first-order">
             <Plus className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
             {t.newOrder}
           </Button>
@@ -400,22 +850,88 @@ export default function OrdersPage() {
       )}
 
       {/* Order Detail Dialog */}
-      <Dialog open={!!selectedOrder} onOpenChange={() => setSelectedOrder(null)}>
-        <DialogContent className="max-w-lg">
+      <Dialog open={!!selectedOrder} onOpenChange={() => openOrder(null)}>
+        <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
           {selectedOrder && (
             <>
               <DialogHeader>
                 <DialogTitle data-testid="dialog-order-title">{t.orderDetails}</DialogTitle>
               </DialogHeader>
               <div className="space-y-4">
+                {isFlagged(selectedOrder) && (
+                  <div
+                    className="rounded-md border border-destructive/50 bg-destructive/10 p-3 space-y-2"
+                    data-testid="dialog-risk-flags"
+                  >
+                    <p className="flex items-center gap-2 text-sm font-medium text-destructive">
+                      <AlertTriangle className="h-4 w-4" />
+                      {getFlagLabels(selectedOrder)}
+                    </p>
+                    {selectedOrder.duplicateOfId && (
+                      <p className="text-xs text-muted-foreground" data-testid="dialog-duplicate-of">
+                        {msg.duplicateOf} #{selectedOrder.duplicateOfId.slice(0, 8)}
+                      </p>
+                    )}
+                    {canEdit && (
+                      <div className="flex gap-2 flex-wrap">
+                        {selectedOrder.duplicateOfId && (
+                          <Button
+                            size="sm"
+                            onClick={() => mergeMutation.mutate(selectedOrder.id)}
+                            disabled={mergeMutation.isPending}
+                            data-testid="dialog-button-merge"
+                          >
+                            <Merge className={`h-4 w-4 ${isRTL ? "ml-1" : "mr-1"}`} />
+                            {msg.merge}
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => dismissFlagsMutation.mutate(selectedOrder.id)}
+                          disabled={dismissFlagsMutation.isPending}
+                          data-testid="dialog-button-dismiss-flags"
+                        >
+                          {msg.dismiss}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <p className="text-sm text-muted-foreground">{t.customerName}</p>
-                    <p className="font-medium" data-testid="dialog-customer-name">{selectedOrder.customerName}</p>
+                    {selectedOrder.customerId ? (
+                      <Link
+                        href={`/customers/${selectedOrder.customerId}`}
+                        className="font-medium underline-offset-4 hover:underline"
+                        title={msg.viewCustomer}
+                        data-testid="dialog-customer-name"
+                      >
+                        {selectedOrder.customerName}
+                      </Link>
+                    ) : (
+                      <p className="font-medium" data-testid="dialog-customer-name">{selectedOrder.customerName}</p>
+                    )}
                   </div>
                   <div>
                     <p className="text-sm text-muted-foreground">{t.customerPhone}</p>
-                    <p className="font-medium" data-testid="dialog-customer-phone">{selectedOrder.customerPhone}</p>
+                    <div className="flex items-center gap-2">
+                      <p className="font-medium" data-testid="dialog-customer-phone">{selectedOrder.customerPhone}</p>
+                      {isAdmin && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          title={msg.blacklistPhone}
+                          onClick={() => blacklistMutation.mutate(selectedOrder.customerPhone)}
+                          disabled={blacklistMutation.isPending}
+                          data-testid="dialog-button-blacklist"
+                        >
+                          <Ban className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
                   </div>
                   {selectedOrder.customerCity && (
                     <div>
@@ -429,10 +945,6 @@ export default function OrdersPage() {
                       <p className="font-medium" data-testid="dialog-customer-address">{selectedOrder.customerAddress}</p>
                     </div>
                   )}
-                  <div>
-                    <p className="text-sm text-muted-foreground">{t.quantity}</p>
-                    <p className="font-medium" data-testid="dialog-quantity">{selectedOrder.quantity}</p>
-                  </div>
                   <div>
                     <p className="text-sm text-muted-foreground">{t.status}</p>
                     <Badge className={`${getStatusColor(selectedOrder.status)} border-0`} data-testid="dialog-status">
@@ -440,6 +952,10 @@ export default function OrdersPage() {
                     </Badge>
                   </div>
                 </div>
+                <div>
+                  <p className="text-sm text-muted-foreground mb-2">{t.items}</p>
+                  <OrderItemsList order={selectedOrder} t={t} language={language} />
+                </div>
                 {selectedOrder.notes && (
                   <div>
                     <p className="text-sm text-muted-foreground">{t.notes}</p>
@@ -469,6 +985,96 @@ export default function OrdersPage() {
                     </Card>
                   </div>
                 )}
+                {canEdit && allowedStatuses(selectedOrder.status).length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">{msg.changeStatus}</p>
+                    <div className="flex gap-2 flex-wrap">
+                      <Select
+                        value={nextStatus}
+                        onValueChange={(status) => {
+                          setNextStatus(status);
+                          setStatusReasonCode("");
+                        }}
+                      >
+                        <SelectTrigger className="w-[160px]" data-testid="dialog-select-status">
+                          <SelectValue placeholder={t.status} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {allowedStatuses(selectedOrder.status).map((status) => (
+                            <SelectItem key={status} value={status}>
+                              {getStatusLabel(status)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {orderStatusReasonCodes[nextStatus as OrderStatus] && (
+                        <Select value={statusReasonCode} onValueChange={setStatusReasonCode}>
+                          <SelectTrigger className="w-[200px]" data-testid="dialog-select-reason-code">
+                            <SelectValue placeholder={t.reasonCode} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {orderStatusReasonCodes[nextStatus as OrderStatus]!.map((code) => (
+                              <SelectItem key={code} value={code}>
+                                {t.reasonCodes[code]}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <Input
+                        className="flex-1 min-w-[160px]"
+                        placeholder={msg.reason}
+                        value={statusReason}
+                        onChange={(e) => setStatusReason(e.target.value)}
+                        maxLength={500}
+                        data-testid="dialog-input-reason"
+                      />
+                      <Button
+                        onClick={() =>
+                          updateStatusMutation.mutate({
+                            id: selectedOrder.id,
+                            status: nextStatus,
+                            reasonCode: statusReasonCode,
+                            reason: statusReason.trim(),
+                          })
+                        }
+                        disabled={!nextStatus || updateStatusMutation.isPending}
+                        data-testid="dialog-button-apply-status"
+                      >
+                        {msg.apply}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                <div>
+                  <p className="text-sm text-muted-foreground mb-2">{t.callAttempts}</p>
+                  <CallLog
+                    orderId={selectedOrder.id}
+                    canLog={canEdit}
+                    onLogged={(updated) => {
+                      setSelectedOrder((current) => (current?.id === updated.id ? updated : current));
+                      toast({
+                        title: t.success,
+                        description: msg.callLogged,
+                      });
+                    }}
+                    noCallsLabel={msg.noCalls}
+                    t={t}
+                    language={language}
+                  />
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground mb-2">{msg.statusHistory}</p>
+                  <OrderStatusTimeline
+                    orderId={selectedOrder.id}
+                    getStatusColor={getStatusColor}
+                    getStatusLabel={getStatusLabel}
+                    reasonCodeLabels={t.reasonCodes}
+                    createdLabel={msg.created}
+                    byLabel={msg.by}
+                    language={language}
+                  />
+                </div>
                 <div className="flex gap-2 pt-4 flex-wrap">
                   <Button
                     onClick={() => copyScript(selectedOrder)}
@@ -498,98 +1104,592 @@ export default function OrdersPage() {
   );
 }
 
+interface OrderItemsListProps {
+  order: Order;
+  t: any;
+  language: Language;
+}
+
+function OrderItemsList({ order, t, language }: OrderItemsListProps) {
+  const money = (amount: number) => formatMoney(amount, order.currency, language);
+  const { data: items, isLoading } = useQuery<OrderItemEntry[]>({
+    queryKey: ["/api/orders", order.id, "items"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  return (
+    <div className="space-y-2" data-testid="dialog-order-items">
+      {items?.map((item) => (
+        <div key={item.id} className="flex items-center gap-3" data-testid={`order-item-${item.id}`}>
+          {item.imageUrl && <img src={item.imageUrl} alt="" className="h-10 w-10 rounded object-cover" />}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate">
+              {item.productName ?? item.productId}
+              {item.variantLabel && <span className="text-muted-foreground"> · {item.variantLabel}</span>}
+            </p>
+            {item.sku && <p className="text-xs text-muted-foreground font-mono">{item.sku}</p>}
+            <p className="text-xs text-muted-foreground">
+              {item.quantity} × {money(item.unitPrice)}
+              {item.discount > 0 && ` − ${money(item.discount)}`}
+            </p>
+          </div>
+          <p className="text-sm font-medium">{money(lineTotal(item))}</p>
+        </div>
+      ))}
+      <div className="border-t pt-2 text-sm space-y-1" data-testid="dialog-order-totals">
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">{t.subtotal}</span>
+          <span>{money(order.subtotal)}</span>
+        </div>
+        {order.discountTotal > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">{t.discount}</span>
+            <span>-{money(order.discountTotal)}</span>
+          </div>
+        )}
+        {order.shippingFee > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">{t.shippingFee}</span>
+            <span>{money(order.shippingFee)}</span>
+          </div>
+        )}
+        <div className="flex justify-between font-semibold">
+          <span>{t.total}</span>
+          <span data-testid="dialog-order-total">{money(order.total)}</span>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface OrderStatusTimelineProps {
+  orderId: string;
+  getStatusColor: (status: string) => string;
+  getStatusLabel: (status: string) => string;
+  reasonCodeLabels: Record<OrderReasonCode, string>;
+  createdLabel: string;
+  byLabel: string;
+  language: Language;
+}
+
+function OrderStatusTimeline({
+  orderId,
+  getStatusColor,
+  getStatusLabel,
+  reasonCodeLabels,
+  createdLabel,
+  byLabel,
+  language,
+}: OrderStatusTimelineProps) {
+  const { data: history, isLoading } = useQuery<OrderStatusHistoryEntry[]>({
+    queryKey: ["/api/orders", orderId, "history"],
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  return (
+    <ol className="space-y-3 border-s ps-4" data-testid="dialog-status-history">
+      {history?.map((entry) => (
+        <li key={entry.id} className="relative" data-testid={`history-entry-${entry.id}`}>
+          <span className="absolute -start-[21px] top-1.5 h-2.5 w-2.5 rounded-full bg-primary" />
+          <div className="flex items-center gap-2 flex-wrap">
+            {entry.fromStatus ? (
+              <>
+                <Badge className={`${getStatusColor(entry.fromStatus)} border-0`}>
+                  {getStatusLabel(entry.fromStatus)}
+                </Badge>
+                <span className="text-muted-foreground">&rarr;</span>
+              </>
+            ) : (
+              <span className="text-sm">{createdLabel}</span>
+            )}
+            <Badge className={`${getStatusColor(entry.toStatus)} border-0`}>
+              {getStatusLabel(entry.toStatus)}
+            </Badge>
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">
+            {new Date(entry.createdAt).toLocaleString(
+              language === "ar" ? "ar-MA" : language === "fr" ? "fr-FR" : "en-US"
+            )}
+            {entry.changedByName && ` · ${byLabel} ${entry.changedByName}`}
+          </p>
+          {entry.reasonCode && (
+            <p className="text-sm font-medium mt-1">
+              {reasonCodeLabels[entry.reasonCode as OrderReasonCode] ?? entry.reasonCode}
+            </p>
+          )}
+          {entry.reason && <p className="text-sm mt-1">{entry.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+interface CallLogProps {
+  orderId: string;
+  canLog: boolean;
+  onLogged: (order: Order) => void;
+  noCallsLabel: string;
+  t: any;
+  language: Language;
+}
+
+function CallLog({ orderId, canLog, onLogged, noCallsLabel, t, language }: CallLogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [outcome, setOutcome] = useState<CallOutcome>("no_answer");
+  const [durationSeconds, setDurationSeconds] = useState("");
+  const [callbackAt, setCallbackAt] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const { data: attempts, isLoading } = useQuery<CallAttemptEntry[]>({
+    queryKey: ["/api/orders", orderId, "calls"],
+  });
+
+  const logCallMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<{ order: Order }>("POST", `/api/orders/${orderId}/calls`, {
+        outcome,
+        durationSeconds: Number(durationSeconds) || 0,
+        notes: notes.trim() || undefined,
+        callbackAt: callbackAt ? new Date(callbackAt).toISOString() : undefined,
+      });
+    },
+    onSuccess: ({ order }) => {
+      // Logging a call can change the status, the callback time and the history
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/callbacks"] });
+      setDurationSeconds("");
+      setCallbackAt("");
+      setNotes("");
+      onLogged(order);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const locale = language === "ar" ? "ar-MA" : language === "fr" ? "fr-FR" : "en-US";
+
+  return (
+    <div className="space-y-3">
+      {isLoading ? (
+        <Skeleton className="h-10 w-full" />
+      ) : attempts && attempts.length > 0 ? (
+        <ul className="space-y-2" data-testid="dialog-call-attempts">
+          {attempts.map((attempt) => (
+            <li key={attempt.id} className="text-sm" data-testid={`call-attempt-${attempt.id}`}>
+              <span className="font-medium">{t.callOutcomes[attempt.outcome] ?? attempt.outcome}</span>
+              <span className="text-muted-foreground">
+                {" · "}
+                {new Date(attempt.createdAt).toLocaleString(locale)}
+                {attempt.durationSeconds > 0 && ` · ${attempt.durationSeconds}s`}
+                {attempt.agentName && ` · ${attempt.agentName}`}
+              </span>
+              {attempt.callbackAt && (
+                <p className="text-xs text-muted-foreground">
+                  {t.callbackAt}: {new Date(attempt.callbackAt).toLocaleString(locale)}
+                </p>
+              )}
+              {attempt.notes && <p className="text-xs">{attempt.notes}</p>}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">{noCallsLabel}</p>
+      )}
+
+      {canLog && (
+        <div className="space-y-2 rounded-md border p-3" data-testid="form-log-call">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="call-outcome" className="text-xs">{t.callOutcome}</Label>
+              <Select value={outcome} onValueChange={(value) => setOutcome(value as CallOutcome)}>
+                <SelectTrigger id="call-outcome" data-testid="select-call-outcome">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {callOutcomeEnum.options.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {t.callOutcomes[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="call-duration" className="text-xs">{t.callDuration}</Label>
+              <Input
+                id="call-duration"
+                type="number"
+                min={0}
+                value={durationSeconds}
+                onChange={(e) => setDurationSeconds(e.target.value)}
+                data-testid="input-call-duration"
+              />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="call-callback" className="text-xs">{t.callbackAt}</Label>
+              <Input
+                id="call-callback"
+                type="datetime-local"
+                value={callbackAt}
+                onChange={(e) => setCallbackAt(e.target.value)}
+                data-testid="input-call-callback"
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder={t.notes}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              maxLength={1000}
+              data-testid="input-call-notes"
+            />
+            <Button
+              onClick={() => logCallMutation.mutate()}
+              disabled={logCallMutation.isPending}
+              data-testid="button-log-call"
+            >
+              <PhoneCall className="h-4 w-4" />
+              {t.logCall}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface LineVariantSelectProps {
+  product: ProductLookup;
+  quantity: number;
+  value: string | null;
+  onChange: (variant: ProductVariant) => void;
+  index: number;
+  t: any;
+  language: Language;
+}
+
+// Variant picker for an order line whose product has options
+function LineVariantSelect({ product, quantity, value, onChange, index, t, language }: LineVariantSelectProps) {
+  const { data: variants } = useQuery<ProductVariant[]>({
+    queryKey: ["/api/products", product.id, "variants"],
+  });
+
+  // A variant preselected from the URL only gets its price once variants load
+  useEffect(() => {
+    const preselected = variants?.find((variant) => variant.id === value);
+    if (preselected) onChange(preselected);
+  }, [variants]);
+
+  const selected = variants?.find((variant) => variant.id === value);
+
+  return (
+    <div className="space-y-1">
+      <Select
+        value={value ?? ""}
+        onValueChange={(id) => {
+          const variant = variants?.find((v) => v.id === id);
+          if (variant) onChange(variant);
+        }}
+      >
+        <SelectTrigger data-testid={`select-variant-${index}`}>
+          <SelectValue placeholder={t.selectVariant} />
+        </SelectTrigger>
+        <SelectContent>
+          {variants?.map((variant) => (
+            <SelectItem key={variant.id} value={variant.id} data-testid={`option-variant-${variant.id}`}>
+              {variantLabel(variant, product.options)}
+              {variant.sku && ` · ${variant.sku}`}
+              {" · "}
+              {formatMoney(variant.price ?? product.price ?? 0, product.currency, language)}
+              {product.trackStock && ` · ${t.stock}: ${variant.stock}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {product.trackStock && selected && quantity > selected.stock && (
+        <StockWarning available={selected.stock} t={t} />
+      )}
+    </div>
+  );
+}
+
+// The order can still be taken; confirming it may be refused, see STOCK_POLICY
+function StockWarning({ available, t }: { available: number; t: any }) {
+  return (
+    <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400" data-testid="text-stock-warning">
+      <AlertTriangle className="h-3 w-3" />
+      {t.insufficientStock} ({t.stock}: {available})
+    </p>
+  );
+}
+
 interface CreateOrderFormProps {
-  products: Product[];
+  products: ProductLookup[];
   preselectedProductId: string | null;
-  onSubmit: (data: InsertOrder) => void;
+  preselectedVariantId: string | null;
+  onSubmit: (data: CreateOrder) => void;
   isSubmitting: boolean;
   t: any;
   language: Language;
   isRTL: boolean;
 }
 
+type CustomerFields = Pick<CreateOrder, "customerName" | "customerPhone" | "customerAddress" | "customerCity" | "notes" | "language">;
+
 function CreateOrderForm({
   products,
   preselectedProductId,
+  preselectedVariantId,
   onSubmit,
   isSubmitting,
   t,
   language,
   isRTL,
 }: CreateOrderFormProps) {
-  const [formData, setFormData] = useState<InsertOrder>({
-    productId: preselectedProductId || "",
+  const [formData, setFormData] = useState<CustomerFields>({
     customerName: "",
     customerPhone: "",
     customerAddress: "",
     customerCity: "",
     notes: "",
-    quantity: 1,
-    status: "pending",
     language: language,
   });
 
+  // Unit prices start from the product's price, or the variant's once one is
+  // picked, and can be overridden per line
+  const newLine = (productId: string, variantId?: string | null): OrderItemInput => ({
+    productId,
+    variantId: variantId ?? null,
+    quantity: 1,
+    unitPrice: products.find((p) => p.id === productId)?.price ?? undefined,
+    discount: 0,
+  });
+  const [lines, setLines] = useState<OrderItemInput[]>([
+    newLine(preselectedProductId || "", preselectedVariantId),
+  ]);
+  const updateLine = (index: number, changes: Partial<OrderItemInput>) => {
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const { data: config } = useQuery<AppConfig>({
+    queryKey: ["/api/config"],
+    staleTime: Infinity,
+  });
+  const [shippingFee, setShippingFee] = useState<number | undefined>();
+  const effectiveShippingFee = shippingFee ?? config?.shippingFee ?? 0;
+
+  // The server rejects orders mixing currencies, the first product's wins
+  const lineProducts = lines.map((line) => products.find((p) => p.id === line.productId));
+  const currency = lineProducts.find((product) => !!product)?.currency ?? config?.currency ?? DEFAULT_CURRENCY;
+  const money = (amount: number) => formatMoney(amount, currency, language);
+
+  const pricedLines = lines.map((line) => ({ ...line, unitPrice: line.unitPrice ?? 0 }));
+  const totals = computeOrderTotals(pricedLines, effectiveShippingFee);
+  const linesValid = lines.every(
+    (line, i) =>
+      lineProducts[i]?.currency === currency &&
+      (lineProducts[i]!.options.length === 0 || !!line.variantId) &&
+      line.unitPrice !== undefined &&
+      lineTotal(pricedLines[i]) >= 0,
+  );
+
+  const phoneRegion = usePhoneRegion();
+  const phoneValid = isValidPhoneNumber(formData.customerPhone, phoneRegion);
+
+  // Existing customers whose phone matches what has been typed so far
+  const [phoneSearch, setPhoneSearch] = useState("");
+  const [customerPicked, setCustomerPicked] = useState(false);
+  useEffect(() => {
+    const timer = setTimeout(() => setPhoneSearch(formData.customerPhone.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [formData.customerPhone]);
+  const { data: customerMatches } = useQuery<Paginated<Customer>>({
+    queryKey: ["/api/customers", { search: phoneSearch, limit: 5 }],
+    enabled: !customerPicked && phoneSearch.replace(/\D/g, "").length >= 4,
+  });
+  const suggestions = customerPicked ? [] : customerMatches?.items || [];
+
+  const pickCustomer = (customer: Customer) => {
+    setFormData((prev) => ({
+      ...prev,
+      customerName: customer.name,
+      customerPhone: customer.phone,
+      customerAddress: customer.address || prev.customerAddress,
+      customerCity: customer.city || prev.customerCity,
+    }));
+    setCustomerPicked(true);
+  };
+
   useEffect(() => {
     if (preselectedProductId) {
-      setFormData((prev) => ({ ...prev, productId: preselectedProductId }));
+      setLines((prev) => [newLine(preselectedProductId, preselectedVariantId), ...prev.slice(1)]);
     }
-  }, [preselectedProductId]);
+  }, [preselectedProductId, preselectedVariantId]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    onSubmit(formData);
+    onSubmit({ ...formData, items: lines, shippingFee: effectiveShippingFee });
   };
 
-  const selectedProduct = products.find((p) => p.id === formData.productId);
-
   return (
     <form onSubmit={handleSubmit} className="space-y-4" data-testid="form-create-order">
       <div className="space-y-2">
-        <Label htmlFor="product">{t.selectProduct} *</Label>
-        <Select
-          value={formData.productId}
-          onValueChange={(value) =>
-            setFormData((prev) => ({ ...prev, productId: value }))
-          }
+        <Label>{t.items} *</Label>
+        {lines.map((line, index) => (
+          <div key={index} className="rounded-md border p-3 space-y-3" data-testid={`order-line-${index}`}>
+            <div className="flex items-center gap-2">
+              <Select
+                value={line.productId}
+                onValueChange={(value) => updateLine(index, newLine(value))}
+              >
+                <SelectTrigger className="flex-1" data-testid={`select-product-${index}`}>
+                  <SelectValue placeholder={t.selectProduct} />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.map((product) => (
+                    <SelectItem key={product.id} value={product.id} data-testid={`option-product-${product.id}`}>
+                      <div className="flex items-center gap-2">
+                        <img
+                          src={product.imageUrl}
+                          alt=""
+                          className="h-6 w-6 rounded object-cover"
+                        />
+                        {product.name}
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                disabled={lines.length === 1}
+                data-testid={`button-remove-line-${index}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {lineProducts[index] && lineProducts[index]!.options.length > 0 && (
+              <LineVariantSelect
+                product={lineProducts[index]!}
+                quantity={line.quantity}
+                value={line.variantId ?? null}
+                onChange={(variant) =>
+                  updateLine(index, {
+                    variantId: variant.id,
+                    unitPrice: variant.price ?? lineProducts[index]!.price ?? undefined,
+                  })
+                }
+                index={index}
+                t={t}
+                language={language}
+              />
+            )}
+            <div className="grid grid-cols-4 gap-2 items-end">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{t.quantity}</Label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={line.quantity}
+                  onChange={(e) => updateLine(index, { quantity: parseInt(e.target.value) || 1 })}
+                  data-testid={`input-quantity-${index}`}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{t.unitPrice}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={line.unitPrice ?? ""}
+                  onChange={(e) =>
+                    updateLine(index, { unitPrice: e.target.value === "" ? undefined : Number(e.target.value) })
+                  }
+                  data-testid={`input-unit-price-${index}`}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{t.discount}</Label>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={line.discount || ""}
+                  onChange={(e) => updateLine(index, { discount: Number(e.target.value) || 0 })}
+                  data-testid={`input-discount-${index}`}
+                />
+              </div>
+              <p className="text-sm font-medium text-end pb-2" data-testid={`text-line-total-${index}`}>
+                {money(lineTotal(pricedLines[index]))}
+              </p>
+            </div>
+            {lineProducts[index]?.trackStock &&
+              lineProducts[index]!.options.length === 0 &&
+              line.quantity > lineProducts[index]!.stock && (
+                <StockWarning available={lineProducts[index]!.stock} t={t} />
+              )}
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setLines((prev) => [...prev, newLine("")])}
+          disabled={lines.length >= 50}
+          data-testid="button-add-line"
         >
-          <SelectTrigger data-testid="select-product">
-            <SelectValue placeholder={t.selectProduct} />
-          </SelectTrigger>
-          <SelectContent>
-            {products.map((product) => (
-              <SelectItem key={product.id} value={product.id} data-testid={`option-product-${product.id}`}>
-                <div className="flex items-center gap-2">
-                  <img
-                    src={product.imageUrl}
-                    alt=""
-                    className="h-6 w-6 rounded object-cover"
-                  />
-                  {product.name}
-                </div>
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+          <Plus className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+          {t.addItem}
+        </Button>
       </div>
 
-      {selectedProduct && (
-        <Card className="bg-muted/50">
-          <CardContent className="p-3 flex items-center gap-3">
-            <img
-              src={selectedProduct.imageUrl}
-              alt=""
-              className="h-12 w-12 rounded object-cover"
-              data-testid="selected-product-image"
-            />
-            <div className="flex-1 min-w-0">
-              <p className="font-medium truncate" data-testid="selected-product-name">{selectedProduct.name}</p>
-              {selectedProduct.price && (
-                <p className="text-sm text-muted-foreground" data-testid="selected-product-price">{selectedProduct.price}</p>
-              )}
+      <div className="grid grid-cols-2 gap-4 items-start">
+        <div className="space-y-2">
+          <Label htmlFor="shippingFee">{t.shippingFee}</Label>
+          <Input
+            id="shippingFee"
+            type="number"
+            min="0"
+            step="0.01"
+            value={effectiveShippingFee}
+            onChange={(e) => setShippingFee(Number(e.target.value) || 0)}
+            data-testid="input-shipping-fee"
+          />
+        </div>
+        <div className="text-sm space-y-1 pt-7" data-testid="order-totals-preview">
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">{t.subtotal}</span>
+            <span>{money(totals.subtotal)}</span>
+          </div>
+          {totals.discountTotal > 0 && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">{t.discount}</span>
+              <span>-{money(totals.discountTotal)}</span>
             </div>
-          </CardContent>
-        </Card>
-      )}
+          )}
+          <div className="flex justify-between font-semibold">
+            <span>{t.total}</span>
+            <span data-testid="text-order-total-preview">{money(totals.total)}</span>
+          </div>
+        </div>
+      </div>
 
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
@@ -606,16 +1706,36 @@ function CreateOrderForm({
         </div>
         <div className="space-y-2">
           <Label htmlFor="customerPhone">{t.customerPhone} *</Label>
-          <Input
+          <PhoneInput
             id="customerPhone"
-            type="tel"
             value={formData.customerPhone}
-            onChange={(e) =>
-              setFormData((prev) => ({ ...prev, customerPhone: e.target.value }))
-            }
+            onChange={(customerPhone) => {
+              setFormData((prev) => ({ ...prev, customerPhone }));
+              setCustomerPicked(false);
+            }}
+            autoComplete="off"
             required
             data-testid="input-customer-phone"
           />
+          {suggestions.length > 0 && (
+            <div className="rounded-md border divide-y" data-testid="list-customer-suggestions">
+              {suggestions.map((customer) => (
+                <button
+                  key={customer.id}
+                  type="button"
+                  className="w-full px-3 py-2 text-start text-sm hover-elevate"
+                  onClick={() => pickCustomer(customer)}
+                  data-testid={`option-customer-${customer.id}`}
+                >
+                  <p className="font-medium truncate">{customer.name}</p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    <span dir="ltr">{customer.phone}</span>
+                    {customer.city && ` · ${customer.city}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
         </div>
       </div>
 
@@ -632,35 +1752,18 @@ function CreateOrderForm({
           />
         </div>
         <div className="space-y-2">
-          <Label htmlFor="quantity">{t.quantity}</Label>
+          <Label htmlFor="customerAddress">{t.customerAddress}</Label>
           <Input
-            id="quantity"
-            type="number"
-            min="1"
-            value={formData.quantity}
+            id="customerAddress"
+            value={formData.customerAddress || ""}
             onChange={(e) =>
-              setFormData((prev) => ({
-                ...prev,
-                quantity: parseInt(e.target.value) || 1,
-              }))
+              setFormData((prev) => ({ ...prev, customerAddress: e.target.value }))
             }
-            data-testid="input-quantity"
+            data-testid="input-customer-address"
           />
         </div>
       </div>
 
-      <div className="space-y-2">
-        <Label htmlFor="customerAddress">{t.customerAddress}</Label>
-        <Input
-          id="customerAddress"
-          value={formData.customerAddress || ""}
-          onChange={(e) =>
-            setFormData((prev) => ({ ...prev, customerAddress: e.target.value }))
-          }
-          data-testid="input-customer-address"
-        />
-      </div>
-
       <div className="space-y-2">
         <Label htmlFor="notes">{t.notes}</Label>
         <Textarea
@@ -679,7 +1782,7 @@ function CreateOrderForm({
         <Select
           value={formData.language}
           onValueChange={(value) =>
-            setFormData((prev) => ({ ...prev, language: value }))
+            setFormData((prev) => ({ ...prev, language: value as Language }))
           }
         >
           <SelectTrigger data-testid="select-language">
@@ -697,7 +1800,7 @@ function CreateOrderForm({
         <Button
           type="submit"
           className="flex-1"
-          disabled={!formData.productId || !formData.customerName || !formData.customerPhone || isSubmitting}
+          disabled={!linesValid || !formData.customerName || !phoneValid || isSubmitting}
           data-testid="button-create-order"
         >
           {isSubmitting ? t.loading : t.createOrder}
@@ -0,0 +1,50 @@
+import { useQuery } from "@tanstack/react-query";
+import { AsYouType, isValidPhoneNumber, type CountryCode } from "libphonenumber-js";
+import { Input } from "@/components/ui/input";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { DEFAULT_PHONE_REGION, type AppConfig } from "@shared/schema";
+
+// Region the server reads numbers without a country code in
+export function usePhoneRegion(): CountryCode {
+  const { data: config } = useQuery<AppConfig>({
+    queryKey: ["/api/config"],
+    staleTime: Infinity,
+  });
+  return config?.defaultPhoneRegion || DEFAULT_PHONE_REGION;
+}
+
+interface PhoneInputProps extends Omit<React.ComponentProps<"input">, "value" | "onChange"> {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// Formats the number as it is typed and shows an error once there are
+// enough digits to tell it is not a valid number
+export function PhoneInput({ value, onChange, ...props }: PhoneInputProps) {
+  const { t } = useLanguage();
+  const region = usePhoneRegion();
+  const showError = value.replace(/\D/g, "").length >= 6 && !isValidPhoneNumber(value, region);
+
+  return (
+    <>
+      <Input
+        type="tel"
+        dir="ltr"
+        {...props}
+        value={value}
+        onChange={(e) => {
+          // Deletions are left alone so the cursor does not jump back over
+          // the spaces the formatter inserts
+          const next = e.target.value;
+          onChange(next.length > value.length ? new AsYouType(region).input(next) : next);
+        }}
+        aria-invalid={showError}
+      />
+      {showError && (
+        <p className="text-sm text-destructive" data-testid="text-phone-error">
+          {t.invalidPhone}
+        </p>
+      )}
+    </>
+  );
+}
@@ -1,24 +1,53 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
-import { useRoute, useLocation } from "wouter";
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link, useRoute, useLocation } from "wouter";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
-import { ChevronLeft, Send, FileDown, Copy } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useChatStream } from "@/hooks/use-chat-stream";
+import { ProductPrice } from "@/components/ProductPrice";
+import { RevisionDiff } from "@/components/RevisionDiff";
+import { ChevronLeft, Send, Square, FileDown, Copy, ShoppingCart, Plus, Trash2, Pencil, RotateCcw, Sparkles, Loader2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import type { Product } from "@shared/schema";
-
-interface ChatMessage {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  timestamp: Date;
-}
+import {
+  formatMoney,
+  languageLocales,
+  productSectionEnum,
+  variantLabel,
+  type ChatMessage,
+  type Language,
+  type Product,
+  type ProductOption,
+  type ProductRevisionEntry,
+  type ProductRevisionSource,
+  type ProductSection,
+  type ProductVariant,
+  type StockMovementEntry,
+  type StockMovementReason,
+} from "@shared/schema";
 
 export default function ProductDetail() {
   const { t, language, isRTL } = useLanguage();
@@ -26,8 +55,9 @@ export default function ProductDetail() {
   const [, params] = useRoute("/product/:id");
   const [, navigate] = useLocation();
 
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
-  const [input, setInput] = useState("");
+  const { hasRole } = useAuth();
+
+  const [selectedValues, setSelectedValues] = useState<Record<string, string>>({});
 
   const productId = params?.id;
 
@@ -41,55 +71,11 @@ export default function ProductDetail() {
     },
   });
 
-  const chatMutation = useMutation({
-    mutationFn: async (question: string) => {
-      const response = await apiRequest<{ answer: string }>(
-        "POST",
-        `/api/products/${productId}/chat`,
-        {
-          question,
-          language,
-          productDescription: product?.descriptions[language],
-        }
-      );
-      return response.answer;
-    },
-    onSuccess: (answer) => {
-      setMessages((prev) => [
-        ...prev,
-        {
-          id: Date.now().toString(),
-          role: "assistant",
-          content: answer,
-          timestamp: new Date(),
-        },
-      ]);
-    },
-    onError: () => {
-      toast({
-        title: t.error,
-        description: "Failed to get AI response",
-        variant: "destructive",
-      });
-    },
+  const { data: variants } = useQuery<ProductVariant[]>({
+    queryKey: ["/api/products", productId, "variants"],
+    enabled: !!productId,
   });
 
-  const handleSendMessage = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!input.trim()) return;
-
-    const userMessage: ChatMessage = {
-      id: Date.now().toString(),
-      role: "user",
-      content: input,
-      timestamp: new Date(),
-    };
-
-    setMessages((prev) => [...prev, userMessage]);
-    chatMutation.mutate(input);
-    setInput("");
-  };
-
   const copyDescription = () => {
     if (product) {
       navigator.clipboard.writeText(product.descriptions[language]);
@@ -163,6 +149,45 @@ export default function ProductDetail() {
       copyDescription: "نسخ الوصف",
       downloadPDF: "تحميل PDF",
       askAboutProduct: "اسأل AI عن أي شيء متعلق بهذا المنتج",
+      clearChat: "مسح المحادثة",
+      pickVariant: "اختر من الخيارات أعلاه",
+      unavailable: "هذا الاختيار غير متوفر",
+      variants: "الأنواع",
+      options: "الخيارات",
+      optionName: "اسم الخيار (مثلا المقاس)",
+      optionValues: "القيم مفصولة بفواصل",
+      addOption: "إضافة خيار",
+      saveOptions: "حفظ الخيارات",
+      optionsSaved: "تم حفظ الخيارات",
+      noVariants: "لا توجد أنواع بعد",
+      addVariant: "إضافة نوع",
+      variantAdded: "تمت إضافة النوع",
+      variantDeleted: "تم حذف النوع",
+      priceOverride: "السعر (اختياري)",
+      image: "الصورة",
+      trackStock: "تتبع المخزون",
+      setStock: "تعيين",
+      stockUpdated: "تم تحديث المخزون",
+      stockMovements: "حركات المخزون",
+      noMovements: "لا توجد حركات بعد",
+      adjustment: "تعديل",
+      reserved: "محجوز",
+      released: "مُسترجع",
+      stockNote: "ملاحظة (اختياري)",
+      revisions: "سجل التعديلات",
+      noRevisions: "لا توجد تعديلات مسجلة بعد",
+      compareWith: "مقارنة مع",
+      restore: "استرجاع",
+      revisionRestored: "تم استرجاع النسخة",
+      sourceOriginal: "النسخة الأصلية",
+      sourceGenerated: "مولد بالذكاء الاصطناعي",
+      sourceEdited: "تعديل",
+      sourceRestored: "استرجاع نسخة سابقة",
+      benefits: "الفوائد",
+      features: "المميزات",
+      regenerate: "إعادة التوليد",
+      regenerateGuidance: "توجيهات اختيارية، مثلا: أقصر، ركز على المتانة",
+      regenerated: "تمت إعادة توليد المحتوى",
     },
     en: {
       back: "Back",
@@ -173,6 +198,45 @@ export default function ProductDetail() {
       copyDescription: "Copy Description",
       downloadPDF: "Download PDF",
       askAboutProduct: "Ask AI about anything related to this product",
+      clearChat: "Clear chat",
+      pickVariant: "Pick from the options above",
+      unavailable: "This combination is not available",
+      variants: "Variants",
+      options: "Options",
+      optionName: "Option name (e.g. Size)",
+      optionValues: "Values, separated by commas",
+      addOption: "Add option",
+      saveOptions: "Save options",
+      optionsSaved: "Options saved",
+      noVariants: "No variants yet",
+      addVariant: "Add variant",
+      variantAdded: "Variant added",
+      variantDeleted: "Variant deleted",
+      priceOverride: "Price (optional)",
+      image: "Image",
+      trackStock: "Track stock",
+      setStock: "Set",
+      stockUpdated: "Stock updated",
+      stockMovements: "Stock movements",
+      noMovements: "No movements yet",
+      adjustment: "Adjustment",
+      reserved: "Reserved",
+      released: "Released",
+      stockNote: "Note (optional)",
+      revisions: "Revision history",
+      noRevisions: "No revisions recorded yet",
+      compareWith: "Compare with",
+      restore: "Restore",
+      revisionRestored: "Revision restored",
+      sourceOriginal: "Original",
+      sourceGenerated: "Generated by AI",
+      sourceEdited: "Edited",
+      sourceRestored: "Restored",
+      benefits: "Benefits",
+      features: "Features",
+      regenerate: "Regenerate",
+      regenerateGuidance: "Optional guidance, e.g. shorter, focus on durability",
+      regenerated: "Content regenerated",
     },
     fr: {
       back: "Retour",
@@ -183,11 +247,65 @@ export default function ProductDetail() {
       copyDescription: "Copier la description",
       downloadPDF: "Télécharger PDF",
       askAboutProduct: "Posez à l'IA une question sur ce produit",
+      clearChat: "Effacer la discussion",
+      pickVariant: "Choisissez parmi les options ci-dessus",
+      unavailable: "Cette combinaison n'est pas disponible",
+      variants: "Variantes",
+      options: "Options",
+      optionName: "Nom de l'option (ex. Taille)",
+      optionValues: "Valeurs, séparées par des virgules",
+      addOption: "Ajouter une option",
+      saveOptions: "Enregistrer les options",
+      optionsSaved: "Options enregistrées",
+      noVariants: "Aucune variante pour le moment",
+      addVariant: "Ajouter une variante",
+      variantAdded: "Variante ajoutée",
+      variantDeleted: "Variante supprimée",
+      priceOverride: "Prix (facultatif)",
+      image: "Image",
+      trackStock: "Suivre le stock",
+      setStock: "Définir",
+      stockUpdated: "Stock mis à jour",
+      stockMovements: "Mouvements de stock",
+      noMovements: "Aucun mouvement pour le moment",
+      adjustment: "Ajustement",
+      reserved: "Réservé",
+      released: "Libéré",
+      stockNote: "Note (facultatif)",
+      revisions: "Historique des révisions",
+      noRevisions: "Aucune révision enregistrée pour le moment",
+      compareWith: "Comparer avec",
+      restore: "Restaurer",
+      revisionRestored: "Révision restaurée",
+      sourceOriginal: "Original",
+      sourceGenerated: "Généré par l'IA",
+      sourceEdited: "Modifié",
+      sourceRestored: "Restauré",
+      benefits: "Avantages",
+      features: "Caractéristiques",
+      regenerate: "Régénérer",
+      regenerateGuidance: "Consignes facultatives, ex. plus court, insister sur la durabilité",
+      regenerated: "Contenu régénéré",
     },
   };
 
   const trans = translations[language];
 
+  // The variant matching every picked option value, once all are picked
+  const hasOptions = product.options.length > 0;
+  const allPicked = product.options.every((option) => !!selectedValues[option.name]);
+  const selectedVariant = allPicked
+    ? variants?.find((variant) =>
+        product.options.every((option) => variant.options[option.name] === selectedValues[option.name]),
+      )
+    : undefined;
+  const shownPrice =
+    selectedVariant?.price != null ? { ...product, price: selectedVariant.price } : product;
+  const canRegenerate = hasRole("admin", "agent");
+  const orderHref = selectedVariant
+    ? `/orders?product=${product.id}&variant=${selectedVariant.id}`
+    : `/orders?product=${product.id}`;
+
   return (
     <div className="p-6 space-y-6">
       {/* Header */}
@@ -208,7 +326,7 @@ export default function ProductDetail() {
             <CardContent className="p-6 space-y-4">
               <div className="aspect-square rounded-lg overflow-hidden bg-muted">
                 <img
-                  src={product.imageUrl}
+                  src={selectedVariant?.imageUrl ?? product.imageUrl}
                   alt={product.name}
                   className="w-full h-full object-cover"
                   data-testid="product-detail-image"
@@ -220,9 +338,17 @@ export default function ProductDetail() {
                   {product.name}
                 </h1>
                 <div className="flex flex-wrap gap-3 mt-3">
-                  {product.price && (
+                  {shownPrice.price !== null && (
                     <Badge variant="secondary" data-testid="product-detail-price">
-                      {product.price}
+                      <ProductPrice product={shownPrice} />
+                    </Badge>
+                  )}
+                  {product.trackStock && !hasOptions && (
+                    <Badge
+                      variant={product.stock > 0 ? "outline" : "destructive"}
+                      data-testid="product-detail-stock"
+                    >
+                      {t.stock}: {product.stock}
                     </Badge>
                   )}
                   {product.category && (
@@ -233,6 +359,42 @@ export default function ProductDetail() {
                 </div>
               </div>
 
+              {hasOptions && (
+                <div className="space-y-3" data-testid="variant-picker">
+                  {product.options.map((option) => (
+                    <div key={option.name} className="space-y-1.5">
+                      <p className="text-sm font-medium">{option.name}</p>
+                      <div className="flex flex-wrap gap-2">
+                        {option.values.map((value) => (
+                          <Button
+                            key={value}
+                            type="button"
+                            size="sm"
+                            variant={selectedValues[option.name] === value ? "default" : "outline"}
+                            onClick={() => setSelectedValues((prev) => ({ ...prev, [option.name]: value }))}
+                            data-testid={`button-option-${option.name}-${value}`}
+                          >
+                            {value}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                  <p className="text-sm text-muted-foreground" data-testid="text-selected-variant">
+                    {selectedVariant
+                      ? [
+                          `${t.sku}: ${selectedVariant.sku ?? "—"}`,
+                          product.trackStock && `${t.stock}: ${selectedVariant.stock}`,
+                        ]
+                          .filter(Boolean)
+                          .join(" · ")
+                      : allPicked
+                        ? trans.unavailable
+                        : trans.pickVariant}
+                  </p>
+                </div>
+              )}
+
               <div className="flex gap-2 flex-wrap pt-4">
                 <Button onClick={copyDescription} className="flex-1" data-testid="button-copy-desc">
                   <Copy className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
@@ -242,10 +404,43 @@ export default function ProductDetail() {
                   <FileDown className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
                   {trans.downloadPDF}
                 </Button>
+                {hasRole("admin") && (
+                  <Button variant="outline" className="flex-1" asChild data-testid="button-edit-product">
+                    <Link href={`/product/${product.id}/edit`}>
+                      <Pencil className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+                      {t.edit}
+                    </Link>
+                  </Button>
+                )}
+                {hasOptions && !selectedVariant ? (
+                  <Button variant="outline" className="flex-1" disabled data-testid="button-create-order">
+                    <ShoppingCart className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+                    {t.createOrder}
+                  </Button>
+                ) : (
+                  <Button variant="outline" className="flex-1" asChild data-testid="button-create-order">
+                    <Link href={orderHref}>
+                      <ShoppingCart className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+                      {t.createOrder}
+                    </Link>
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
 
+          {hasRole("admin") && (
+            <>
+              <VariantManager
+                product={product}
+                variants={variants ?? []}
+                trans={trans}
+                language={language}
+              />
+              <InventoryCard product={product} trans={trans} />
+            </>
+          )}
+
           {/* Description Tabs */}
           <Card>
             <CardHeader>
@@ -258,84 +453,904 @@ export default function ProductDetail() {
                   <TabsTrigger value="en">English</TabsTrigger>
                   <TabsTrigger value="fr">Français</TabsTrigger>
                 </TabsList>
-                <TabsContent value="ar" className="mt-4">
+                <TabsContent value="ar" className="mt-4 space-y-4">
                   <p className="text-right whitespace-pre-wrap" dir="rtl" data-testid="desc-ar">
                     {product.descriptions.ar}
                   </p>
+                  <SectionLists product={product} lang="ar" trans={trans} />
+                  {canRegenerate && <RegenerateSectionForm product={product} lang="ar" trans={trans} />}
                 </TabsContent>
-                <TabsContent value="en" className="mt-4">
+                <TabsContent value="en" className="mt-4 space-y-4">
                   <p className="whitespace-pre-wrap" data-testid="desc-en">
                     {product.descriptions.en}
                   </p>
+                  <SectionLists product={product} lang="en" trans={trans} />
+                  {canRegenerate && <RegenerateSectionForm product={product} lang="en" trans={trans} />}
                 </TabsContent>
-                <TabsContent value="fr" className="mt-4">
+                <TabsContent value="fr" className="mt-4 space-y-4">
                   <p className="whitespace-pre-wrap" data-testid="desc-fr">
                     {product.descriptions.fr}
                   </p>
+                  <SectionLists product={product} lang="fr" trans={trans} />
+                  {canRegenerate && <RegenerateSectionForm product={product} lang="fr" trans={trans} />}
                 </TabsContent>
               </Tabs>
             </CardContent>
           </Card>
+
+          <RevisionHistory product={product} trans={trans} canRestore={hasRole("admin")} />
         </div>
 
         {/* AI Chat */}
-        <Card className="md:col-span-1 flex flex-col h-[600px]" data-testid="card-chat">
-          <CardHeader className="border-b">
-            <CardTitle className="text-lg">{trans.chat}</CardTitle>
-            <p className="text-xs text-muted-foreground mt-1">{trans.askAboutProduct}</p>
-          </CardHeader>
-          <CardContent className="flex-1 overflow-y-auto p-4 space-y-4 flex flex-col">
-            {messages.length === 0 && (
-              <div className="flex items-center justify-center h-full text-center">
-                <p className="text-sm text-muted-foreground">{trans.askQuestion}</p>
-              </div>
+        {productId && <ProductChat productId={productId} trans={trans} />}
+      </div>
+    </div>
+  );
+}
+
+interface ProductChatProps {
+  productId: string;
+  trans: any;
+}
+
+// The user's conversation with the AI about the product, kept on the server.
+// A question being answered is shown on top of it until the answer is over.
+function ProductChat({ productId, trans }: ProductChatProps) {
+  const { t, isRTL } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const chat = useChatStream();
+
+  const [input, setInput] = useState("");
+  const [pendingTurn, setPendingTurn] = useState<{ question: string; answer: string } | null>(null);
+
+  const chatKey = ["/api/products", productId, "chat"];
+  const { data: history = [] } = useQuery<ChatMessage[]>({ queryKey: chatKey });
+
+  const clearMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/products/${productId}/chat`),
+    onSuccess: () => {
+      queryClient.setQueryData(chatKey, []);
+    },
+    onError: (error: Error) => {
+      toast({ title: t.error, description: error.message, variant: "destructive" });
+    },
+  });
+
+  // The answer shows up as it streams in; once it is over, stopped or not,
+  // the stored conversation is reloaded with the new turn
+  const askQuestion = async (question: string) => {
+    setPendingTurn({ question, answer: "" });
+    try {
+      await chat.stream(`/api/products/${productId}/chat`, { question }, (answer) => setPendingTurn({ question, answer }));
+    } catch (error: any) {
+      if (error.name !== "AbortError") {
+        toast({
+          title: t.error,
+          description: "Failed to get AI response",
+          variant: "destructive",
+        });
+      }
+    }
+    await queryClient.invalidateQueries({ queryKey: chatKey });
+    setPendingTurn(null);
+  };
+
+  const handleSendMessage = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+
+    askQuestion(input.trim());
+    setInput("");
+  };
+
+  const messages: Pick<ChatMessage, "id" | "role" | "content">[] = pendingTurn
+    ? [
+        ...history,
+        { id: "pending-question", role: "user", content: pendingTurn.question },
+        { id: "pending-answer", role: "assistant", content: pendingTurn.answer },
+      ]
+    : history;
+
+  return (
+    <Card className="md:col-span-1 flex flex-col h-[600px]" data-testid="card-chat">
+      <CardHeader className="border-b">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-lg">{trans.chat}</CardTitle>
+          {history.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => clearMutation.mutate()}
+              disabled={clearMutation.isPending || chat.isStreaming}
+              data-testid="button-clear-chat"
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              {trans.clearChat}
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">{trans.askAboutProduct}</p>
+      </CardHeader>
+      <CardContent className="flex-1 overflow-y-auto p-4 space-y-4 flex flex-col">
+        {messages.length === 0 && (
+          <div className="flex items-center justify-center h-full text-center">
+            <p className="text-sm text-muted-foreground">{trans.askQuestion}</p>
+          </div>
+        )}
+        {messages.map((msg) => (
+          <div
+            key={msg.id}
+            className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}
+            data-testid={`chat-message-${msg.role}`}
+          >
+            <div
+              className={`max-w-xs px-4 py-2 rounded-lg ${
+                msg.role === "user"
+                  ? "bg-primary text-primary-foreground"
+                  : "bg-muted text-foreground"
+              }`}
+            >
+              {msg.content ? (
+                <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+              ) : (
+                <p className="text-sm animate-pulse">Typing...</p>
+              )}
+            </div>
+          </div>
+        ))}
+      </CardContent>
+      <form onSubmit={handleSendMessage} className="border-t p-4 flex gap-2">
+        <Input
+          placeholder={trans.askQuestion}
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          disabled={chat.isStreaming}
+          data-testid="input-chat-question"
+          className={isRTL ? "text-right" : ""}
+          dir={isRTL ? "rtl" : "ltr"}
+        />
+        {chat.isStreaming ? (
+          <Button
+            type="button"
+            size="icon"
+            variant="outline"
+            onClick={chat.cancel}
+            data-testid="button-stop-chat"
+          >
+            <Square className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button
+            type="submit"
+            size="icon"
+            disabled={!input.trim()}
+            data-testid="button-send-chat"
+          >
+            <Send className="h-4 w-4" />
+          </Button>
+        )}
+      </form>
+    </Card>
+  );
+}
+
+interface VariantManagerProps {
+  product: Product;
+  variants: ProductVariant[];
+  trans: any;
+  language: Language;
+}
+
+// Values are edited as comma-separated text and split on save
+interface OptionRow {
+  name: string;
+  values: string;
+}
+
+const toOptionRows = (options: ProductOption[]): OptionRow[] =>
+  options.map((option) => ({ name: option.name, values: option.values.join(", ") }));
+
+// Admin-only editing of a product's options and variants
+function VariantManager({ product, variants, trans, language }: VariantManagerProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [optionRows, setOptionRows] = useState<OptionRow[]>(toOptionRows(product.options));
+  const [newValues, setNewValues] = useState<Record<string, string>>({});
+  const [newSku, setNewSku] = useState("");
+  const [newPrice, setNewPrice] = useState("");
+  const [newStock, setNewStock] = useState("0");
+  const [newImage, setNewImage] = useState<File | null>(null);
+
+  const updateOptionRow = (index: number, changes: Partial<OptionRow>) => {
+    setOptionRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: t.error,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveOptionsMutation = useMutation({
+    mutationFn: async () => {
+      const options = optionRows
+        .filter((row) => row.name.trim())
+        .map((row) => ({
+          name: row.name.trim(),
+          values: row.values
+            .split(",")
+            .map((value) => value.trim())
+            .filter(Boolean),
+        }));
+      return apiRequest<Product>("PUT", `/api/products/${product.id}/options`, { options });
+    },
+    onSuccess: (updated) => {
+      invalidate();
+      setOptionRows(toOptionRows(updated.options));
+      setNewValues({});
+      toast({ title: t.success, description: trans.optionsSaved });
+    },
+    onError: showError,
+  });
+
+  const addVariantMutation = useMutation({
+    mutationFn: async () => {
+      const variant = await apiRequest<ProductVariant>("POST", `/api/products/${product.id}/variants`, {
+        options: newValues,
+        sku: newSku,
+        price: newPrice === "" ? null : Number(newPrice),
+        stock: parseInt(newStock) || 0,
+      });
+      if (newImage) {
+        const formData = new FormData();
+        formData.append("image", newImage);
+        const response = await fetch(`/api/products/${product.id}/variants/${variant.id}/image`, {
+          method: "POST",
+          body: formData,
+        });
+        if (!response.ok) {
+          const error = await response.json();
+          throw new Error(error.message || "Upload failed");
+        }
+      }
+      return variant;
+    },
+    onSuccess: () => {
+      invalidate();
+      setNewValues({});
+      setNewSku("");
+      setNewPrice("");
+      setNewStock("0");
+      setNewImage(null);
+      toast({ title: t.success, description: trans.variantAdded });
+    },
+    onError: (error: Error) => {
+      // The variant may exist even though its image failed to upload
+      invalidate();
+      showError(error);
+    },
+  });
+
+  const setStockMutation = useMutation({
+    mutationFn: async ({ variantId, stock }: { variantId: string; stock: number }) => {
+      return apiRequest("POST", `/api/products/${product.id}/stock`, { variantId, stock });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t.success, description: trans.stockUpdated });
+    },
+    onError: showError,
+  });
+
+  const deleteVariantMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/products/${product.id}/variants/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: t.success, description: trans.variantDeleted });
+    },
+    onError: showError,
+  });
+
+  const canAddVariant =
+    product.options.length > 0 && product.options.every((option) => !!newValues[option.name]);
+
+  return (
+    <Card data-testid="card-variants">
+      <CardHeader>
+        <CardTitle>{trans.variants}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Options */}
+        <div className="space-y-2">
+          <Label>{trans.options}</Label>
+          {optionRows.map((row, index) => (
+            <div key={index} className="flex gap-2" data-testid={`option-row-${index}`}>
+              <Input
+                placeholder={trans.optionName}
+                value={row.name}
+                onChange={(e) => updateOptionRow(index, { name: e.target.value })}
+                className="w-1/3"
+                data-testid={`input-option-name-${index}`}
+              />
+              <Input
+                placeholder={trans.optionValues}
+                value={row.values}
+                onChange={(e) => updateOptionRow(index, { values: e.target.value })}
+                className="flex-1"
+                data-testid={`input-option-values-${index}`}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setOptionRows((prev) => prev.filter((_, i) => i !== index))}
+                data-testid={`button-remove-option-${index}`}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => setOptionRows((prev) => [...prev, { name: "", values: "" }])}
+              disabled={optionRows.length >= 3}
+              data-testid="button-add-option"
+            >
+              <Plus className="h-4 w-4" />
+              {trans.addOption}
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => saveOptionsMutation.mutate()}
+              disabled={saveOptionsMutation.isPending}
+              data-testid="button-save-options"
+            >
+              {trans.saveOptions}
+            </Button>
+          </div>
+        </div>
+
+        {/* Variants */}
+        {product.options.length > 0 && (
+          <>
+            {variants.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{trans.noVariants}</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t.variant}</TableHead>
+                    <TableHead>{t.sku}</TableHead>
+                    <TableHead>{t.price}</TableHead>
+                    <TableHead>{t.stock}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {variants.map((variant) => (
+                    <TableRow key={variant.id} data-testid={`row-variant-${variant.id}`}>
+                      <TableCell>
+                        <div className="flex items-center gap-2">
+                          {variant.imageUrl && (
+                            <img src={variant.imageUrl} alt="" className="h-8 w-8 rounded object-cover" />
+                          )}
+                          {variantLabel(variant, product.options)}
+                        </div>
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{variant.sku ?? "—"}</TableCell>
+                      <TableCell>
+                        {formatMoney(variant.price ?? product.price ?? 0, product.currency, language)}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          key={variant.stock}
+                          type="number"
+                          min="0"
+                          defaultValue={variant.stock}
+                          onBlur={(e) => {
+                            const stock = parseInt(e.target.value);
+                            if (!isNaN(stock) && stock !== variant.stock) {
+                              setStockMutation.mutate({ variantId: variant.id, stock });
+                            }
+                          }}
+                          className="w-20"
+                          data-testid={`input-variant-stock-${variant.id}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => deleteVariantMutation.mutate(variant.id)}
+                          disabled={deleteVariantMutation.isPending}
+                          className="text-destructive hover:text-destructive"
+                          data-testid={`button-delete-variant-${variant.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
             )}
-            {messages.map((msg) => (
-              <div
-                key={msg.id}
-                className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}
-                data-testid={`chat-message-${msg.role}`}
+
+            <div className="rounded-md border p-3 space-y-3" data-testid="form-add-variant">
+              <div className="grid grid-cols-3 gap-2">
+                {product.options.map((option) => (
+                  <Select
+                    key={option.name}
+                    value={newValues[option.name] ?? ""}
+                    onValueChange={(value) => setNewValues((prev) => ({ ...prev, [option.name]: value }))}
+                  >
+                    <SelectTrigger data-testid={`select-new-variant-${option.name}`}>
+                      <SelectValue placeholder={option.name} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {option.values.map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {value}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <Input
+                  placeholder={t.sku}
+                  value={newSku}
+                  onChange={(e) => setNewSku(e.target.value)}
+                  data-testid="input-new-variant-sku"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  placeholder={trans.priceOverride}
+                  value={newPrice}
+                  onChange={(e) => setNewPrice(e.target.value)}
+                  data-testid="input-new-variant-price"
+                />
+                <Input
+                  type="number"
+                  min="0"
+                  placeholder={t.stock}
+                  value={newStock}
+                  onChange={(e) => setNewStock(e.target.value)}
+                  data-testid="input-new-variant-stock"
+                />
+              </div>
+              <div className="flex items-center gap-2">
+                <Label className="text-xs text-muted-foreground shrink-0">{trans.image}</Label>
+                <Input
+                  type="file"
+                  accept="image/*"
+                  onChange={(e) => setNewImage(e.target.files?.[0] ?? null)}
+                  className="flex-1"
+                  data-testid="input-new-variant-image"
+                />
+                <Button
+                  type="button"
+                  onClick={() => addVariantMutation.mutate()}
+                  disabled={!canAddVariant || addVariantMutation.isPending}
+                  data-testid="button-add-variant"
+                >
+                  <Plus className="h-4 w-4" />
+                  {trans.addVariant}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface InventoryCardProps {
+  product: Product;
+  trans: any;
+}
+
+// Admin-only stock tracking: the product's own stock when it has no options
+// (variants have theirs in VariantManager) and the movement history
+function InventoryCard({ product, trans }: InventoryCardProps) {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [stock, setStock] = useState(String(product.stock));
+  const [note, setNote] = useState("");
+  // Orders reserve and release stock meanwhile
+  useEffect(() => {
+    setStock(String(product.stock));
+  }, [product.stock]);
+
+  const { data: movements } = useQuery<StockMovementEntry[]>({
+    queryKey: ["/api/products", product.id, "stock-movements"],
+    enabled: product.trackStock,
+  });
+
+  const reasonLabels: Record<StockMovementReason, string> = {
+    adjustment: trans.adjustment,
+    reserved: trans.reserved,
+    released: trans.released,
+  };
+
+  const showError = (error: Error) => {
+    toast({
+      title: t.error,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const trackStockMutation = useMutation({
+    mutationFn: async (trackStock: boolean) => {
+      return apiRequest<Product>("PATCH", `/api/products/${product.id}`, { trackStock });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+    },
+    onError: showError,
+  });
+
+  const setStockMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/products/${product.id}/stock`, {
+        stock: parseInt(stock) || 0,
+        note: note || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/inventory/low-stock"] });
+      setNote("");
+      toast({ title: t.success, description: trans.stockUpdated });
+    },
+    onError: showError,
+  });
+
+  return (
+    <Card data-testid="card-inventory">
+      <CardHeader className="flex flex-row items-center justify-between gap-2">
+        <CardTitle>{t.stock}</CardTitle>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="track-stock" className="text-sm">{trans.trackStock}</Label>
+          <Switch
+            id="track-stock"
+            checked={product.trackStock}
+            onCheckedChange={(checked) => trackStockMutation.mutate(checked)}
+            disabled={trackStockMutation.isPending}
+            data-testid="switch-track-stock"
+          />
+        </div>
+      </CardHeader>
+      {product.trackStock && (
+        <CardContent className="space-y-4">
+          {product.options.length === 0 && (
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min="0"
+                value={stock}
+                onChange={(e) => setStock(e.target.value)}
+                className="w-28"
+                data-testid="input-product-stock"
+              />
+              <Input
+                placeholder={trans.stockNote}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="flex-1"
+                data-testid="input-stock-note"
+              />
+              <Button
+                type="button"
+                onClick={() => setStockMutation.mutate()}
+                disabled={setStockMutation.isPending}
+                data-testid="button-set-stock"
               >
+                {trans.setStock}
+              </Button>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>{trans.stockMovements}</Label>
+            {movements && movements.length > 0 ? (
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {movements.map((movement) => (
+                  <div
+                    key={movement.id}
+                    className="flex items-center justify-between gap-2 text-sm py-1 border-b last:border-0"
+                    data-testid={`stock-movement-${movement.id}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate">
+                        {reasonLabels[movement.reason as StockMovementReason] ?? movement.reason}
+                        {movement.variantLabel && ` · ${movement.variantLabel}`}
+                        {movement.note && ` · ${movement.note}`}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(movement.createdAt).toLocaleString(languageLocales[language])}
+                        {movement.createdByName && ` · ${movement.createdByName}`}
+                      </p>
+                    </div>
+                    <span
+                      className={`font-semibold ${movement.change < 0 ? "text-red-600 dark:text-red-400" : "text-emerald-600 dark:text-emerald-400"}`}
+                    >
+                      {movement.change > 0 ? `+${movement.change}` : movement.change}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">{trans.noMovements}</p>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
+
+interface RevisionHistoryProps {
+  product: Product;
+  trans: any;
+  canRestore: boolean;
+}
+
+// Past versions of the product's content: pick one to see what changed since
+// an earlier one, and, for admins, bring it back
+function RevisionHistory({ product, trans, canRestore }: RevisionHistoryProps) {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState<string | null>(null);
+
+  const { data: revisions = [] } = useQuery<ProductRevisionEntry[]>({
+    queryKey: ["/api/products", product.id, "revisions"],
+  });
+
+  // Newest first: by default the latest change, against the revision before it
+  const selectedIndex = Math.max(0, revisions.findIndex((revision) => revision.id === selectedId));
+  const selected = revisions[selectedIndex];
+  const compared =
+    revisions.find((revision) => revision.id === compareId && revision.id !== selected?.id) ??
+    revisions[selectedIndex + 1];
+
+  const sourceLabels: Record<ProductRevisionSource, string> = {
+    original: trans.sourceOriginal,
+    generated: trans.sourceGenerated,
+    edited: trans.sourceEdited,
+    restored: trans.sourceRestored,
+  };
+
+  const describe = (revision: ProductRevisionEntry) =>
+    [
+      sourceLabels[revision.source as ProductRevisionSource] ?? revision.source,
+      new Date(revision.createdAt).toLocaleString(languageLocales[language]),
+      revision.createdByName,
+    ]
+      .filter(Boolean)
+      .join(" · ");
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      return apiRequest<Product>("POST", `/api/products/${product.id}/revisions/${revisionId}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setSelectedId(null);
+      setCompareId(null);
+      toast({ title: t.success, description: trans.revisionRestored });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card data-testid="card-revisions">
+      <CardHeader>
+        <CardTitle>{trans.revisions}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{trans.noRevisions}</p>
+        ) : (
+          <>
+            <div className="space-y-1 max-h-64 overflow-y-auto">
+              {revisions.map((revision, index) => (
                 <div
-                  className={`max-w-xs px-4 py-2 rounded-lg ${
-                    msg.role === "user"
-                      ? "bg-primary text-primary-foreground"
-                      : "bg-muted text-foreground"
+                  key={revision.id}
+                  className={`flex items-center justify-between gap-2 rounded-md px-2 py-1 text-sm cursor-pointer hover-elevate ${
+                    revision.id === selected?.id ? "bg-muted" : ""
                   }`}
+                  onClick={() => {
+                    setSelectedId(revision.id);
+                    setCompareId(null);
+                  }}
+                  data-testid={`revision-${revision.id}`}
                 >
-                  <p className="text-sm whitespace-pre-wrap">{msg.content}</p>
+                  <span className="truncate">{describe(revision)}</span>
+                  {canRestore && index > 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        restoreMutation.mutate(revision.id);
+                      }}
+                      disabled={restoreMutation.isPending}
+                      data-testid={`button-restore-${revision.id}`}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                      {trans.restore}
+                    </Button>
+                  )}
                 </div>
-              </div>
-            ))}
-            {chatMutation.isPending && (
-              <div className="flex justify-start">
-                <div className="bg-muted text-foreground px-4 py-2 rounded-lg">
-                  <p className="text-sm animate-pulse">Typing...</p>
+              ))}
+            </div>
+
+            {selected && compared && (
+              <div className="space-y-3">
+                <div className="flex items-center gap-2">
+                  <Label className="shrink-0">{trans.compareWith}</Label>
+                  <Select value={compared.id} onValueChange={setCompareId}>
+                    <SelectTrigger data-testid="select-compare-revision">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {revisions
+                        .filter((revision) => revision.id !== selected.id)
+                        .map((revision) => (
+                          <SelectItem key={revision.id} value={revision.id}>
+                            {describe(revision)}
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
                 </div>
+                <RevisionDiff from={compared.content} to={selected.content} />
               </div>
             )}
-          </CardContent>
-          <form onSubmit={handleSendMessage} className="border-t p-4 flex gap-2">
-            <Input
-              placeholder={trans.askQuestion}
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              disabled={chatMutation.isPending}
-              data-testid="input-chat-question"
-              className={isRTL ? "text-right" : ""}
-              dir={isRTL ? "rtl" : "ltr"}
-            />
-            <Button
-              type="submit"
-              size="icon"
-              disabled={!input.trim() || chatMutation.isPending}
-              data-testid="button-send-chat"
-            >
-              <Send className="h-4 w-4" />
-            </Button>
-          </form>
-        </Card>
-      </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface SectionProps {
+  product: Product;
+  lang: Language;
+  trans: any;
+}
+
+// Benefits and features of the product in one language
+function SectionLists({ product, lang, trans }: SectionProps) {
+  const lists = [
+    { section: "benefits", title: trans.benefits, items: product.benefits?.[lang] ?? [] },
+    { section: "features", title: trans.features, items: product.features?.[lang] ?? [] },
+  ].filter((list) => list.items.length > 0);
+
+  if (lists.length === 0) return null;
+
+  return (
+    <div className="grid sm:grid-cols-2 gap-4" dir={lang === "ar" ? "rtl" : "ltr"}>
+      {lists.map((list) => (
+        <div key={list.section} data-testid={`${list.section}-${lang}`}>
+          <p className="text-sm font-medium mb-1">{list.title}</p>
+          <ul className="list-disc ps-5 text-sm space-y-1">
+            {list.items.map((item, index) => (
+              <li key={index}>{item}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Has the AI rewrite one section of the product in one language, from the
+// product's image and optional guidance
+function RegenerateSectionForm({ product, lang, trans }: SectionProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [section, setSection] = useState<ProductSection>("descriptions");
+  const [guidance, setGuidance] = useState("");
+
+  const sectionLabels: Record<ProductSection, string> = {
+    descriptions: trans.description,
+    benefits: trans.benefits,
+    features: trans.features,
+  };
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<Product>("POST", `/api/products/${product.id}/regenerate`, {
+        section,
+        language: lang,
+        guidance: guidance || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      setGuidance("");
+      toast({ title: t.success, description: trans.regenerated });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap gap-2 pt-4 border-t">
+      <Select value={section} onValueChange={(value) => setSection(value as ProductSection)}>
+        <SelectTrigger className="w-40" data-testid={`select-regenerate-section-${lang}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {productSectionEnum.options.map((option) => (
+            <SelectItem key={option} value={option}>
+              {sectionLabels[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        placeholder={trans.regenerateGuidance}
+        value={guidance}
+        onChange={(e) => setGuidance(e.target.value)}
+        maxLength={300}
+        className="flex-1 min-w-48"
+        data-testid={`input-regenerate-guidance-${lang}`}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => regenerateMutation.mutate()}
+        disabled={regenerateMutation.isPending}
+        data-testid={`button-regenerate-${lang}`}
+      >
+        {regenerateMutation.isPending ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <Sparkles className="h-4 w-4" />
+        )}
+        {trans.regenerate}
+      </Button>
     </div>
   );
 }
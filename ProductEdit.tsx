@@ -0,0 +1,408 @@
+import { useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useRoute, useLocation } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, Save } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { insertProductSchema, type Language, type Product } from "@shared/schema";
+
+// The fields an admin edits here; options, stock and images have their own editors
+const productFormSchema = insertProductSchema.pick({
+  name: true,
+  category: true,
+  price: true,
+  currency: true,
+  compareAtPrice: true,
+  descriptions: true,
+  benefits: true,
+  features: true,
+});
+
+type ProductForm = z.infer<typeof productFormSchema>;
+
+function toFormValues(product: Product): ProductForm {
+  return {
+    name: product.name,
+    category: product.category ?? "",
+    price: product.price,
+    currency: product.currency,
+    compareAtPrice: product.compareAtPrice,
+    descriptions: product.descriptions,
+    benefits: product.benefits ?? { ar: [], en: [], fr: [] },
+    features: product.features ?? { ar: [], en: [], fr: [] },
+  };
+}
+
+// Each language tab, labelled in its own language
+const languageTabs: { value: Language; label: string }[] = [
+  { value: "ar", label: "العربية" },
+  { value: "en", label: "English" },
+  { value: "fr", label: "Français" },
+];
+
+// Benefits and features are edited one per line; blank lines are dropped on save
+const fromLines = (text: string) => text.split("\n");
+const withoutBlankLines = (lists: Record<Language, string[]>) => ({
+  ar: lists.ar.map((line) => line.trim()).filter(Boolean),
+  en: lists.en.map((line) => line.trim()).filter(Boolean),
+  fr: lists.fr.map((line) => line.trim()).filter(Boolean),
+});
+
+export default function ProductEdit() {
+  const { t, language, isRTL } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, params] = useRoute("/product/:id/edit");
+  const [, navigate] = useLocation();
+
+  const productId = params?.id;
+
+  const { data: product, isLoading } = useQuery<Product>({
+    queryKey: ["/api/products", productId],
+    enabled: !!productId,
+  });
+
+  const form = useForm<ProductForm>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: {
+      name: "",
+      category: "",
+      price: null,
+      compareAtPrice: null,
+      descriptions: { ar: "", en: "", fr: "" },
+      benefits: { ar: [], en: [], fr: [] },
+      features: { ar: [], en: [], fr: [] },
+    },
+  });
+
+  useEffect(() => {
+    if (product) form.reset(toFormValues(product));
+  }, [product]);
+
+  const translations = {
+    ar: {
+      title: "تعديل المنتج",
+      back: "العودة",
+      compareAtPrice: "السعر قبل التخفيض",
+      currency: "العملة",
+      benefits: "الفوائد",
+      features: "المميزات",
+      onePerLine: "سطر لكل عنصر",
+      saved: "تم حفظ المنتج",
+      notFound: "المنتج غير موجود",
+    },
+    en: {
+      title: "Edit product",
+      back: "Back",
+      compareAtPrice: "Compare-at price",
+      currency: "Currency",
+      benefits: "Benefits",
+      features: "Features",
+      onePerLine: "One per line",
+      saved: "Product saved",
+      notFound: "Product not found",
+    },
+    fr: {
+      title: "Modifier le produit",
+      back: "Retour",
+      compareAtPrice: "Prix barré",
+      currency: "Devise",
+      benefits: "Avantages",
+      features: "Caractéristiques",
+      onePerLine: "Un par ligne",
+      saved: "Produit enregistré",
+      notFound: "Produit introuvable",
+    },
+  };
+
+  const trans = translations[language];
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: ProductForm) => {
+      return apiRequest<Product>("PATCH", `/api/products/${productId}`, {
+        ...values,
+        category: values.category || null,
+        benefits: withoutBlankLines(values.benefits),
+        features: withoutBlankLines(values.features),
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      toast({
+        title: t.success,
+        description: trans.saved,
+      });
+      navigate(`/product/${productId}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-10 w-32" />
+        <Skeleton className="h-64 w-full" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (!product) {
+    return (
+      <div className="p-6 text-center">
+        <p className="text-muted-foreground">{trans.notFound}</p>
+        <Button variant="outline" onClick={() => navigate("/products")} className="mt-4">
+          {trans.back}
+        </Button>
+      </div>
+    );
+  }
+
+  // Empty number inputs mean "no price"
+  const toAmount = (value: string) => (value === "" ? null : Number(value));
+
+  return (
+    <div className="p-6 space-y-6 max-w-4xl">
+      <Button
+        variant="ghost"
+        onClick={() => navigate(`/product/${product.id}`)}
+        data-testid="button-back-product"
+      >
+        <ChevronLeft className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+        {trans.back}
+      </Button>
+
+      <h1 className="text-2xl font-semibold" data-testid="text-edit-product-title">
+        {trans.title}
+      </h1>
+
+      <Form {...form}>
+        <form
+          onSubmit={form.handleSubmit((values) => saveMutation.mutate(values))}
+          className="space-y-6"
+          data-testid="form-edit-product"
+        >
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              <div className="flex gap-4 items-start">
+                <img
+                  src={product.imageUrl}
+                  alt={product.name}
+                  className="h-24 w-24 rounded-md object-cover shrink-0"
+                />
+                <div className="flex-1 grid sm:grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="name"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.productName} *</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-product-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="category"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t.category}</FormLabel>
+                        <FormControl>
+                          <Input {...field} value={field.value ?? ""} data-testid="input-product-category" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+
+              <div className="grid sm:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{t.price}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(toAmount(e.target.value))}
+                          onBlur={field.onBlur}
+                          data-testid="input-product-price"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="compareAtPrice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{trans.compareAtPrice}</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={field.value ?? ""}
+                          onChange={(e) => field.onChange(toAmount(e.target.value))}
+                          onBlur={field.onBlur}
+                          data-testid="input-product-compare-at-price"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{trans.currency}</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          value={field.value ?? ""}
+                          maxLength={3}
+                          className="uppercase"
+                          data-testid="input-product-currency"
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>{t.description}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue={language}>
+                <TabsList className="grid grid-cols-3 w-full">
+                  {languageTabs.map(({ value, label }) => (
+                    <TabsTrigger key={value} value={value} data-testid={`tab-edit-${value}`}>
+                      {label}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+                {languageTabs.map(({ value: lang }) => (
+                  <TabsContent key={lang} value={lang} className="mt-4 space-y-4" dir={lang === "ar" ? "rtl" : "ltr"}>
+                    <FormField
+                      control={form.control}
+                      name={`descriptions.${lang}`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t.description}</FormLabel>
+                          <FormControl>
+                            <Textarea {...field} rows={8} data-testid={`input-description-${lang}`} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <div className="grid sm:grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name={`benefits.${lang}`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{trans.benefits}</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                value={field.value.join("\n")}
+                                onChange={(e) => field.onChange(fromLines(e.target.value))}
+                                onBlur={field.onBlur}
+                                rows={6}
+                                data-testid={`input-benefits-${lang}`}
+                              />
+                            </FormControl>
+                            <FormDescription>{trans.onePerLine}</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`features.${lang}`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{trans.features}</FormLabel>
+                            <FormControl>
+                              <Textarea
+                                value={field.value.join("\n")}
+                                onChange={(e) => field.onChange(fromLines(e.target.value))}
+                                onBlur={field.onBlur}
+                                rows={6}
+                                data-testid={`input-features-${lang}`}
+                              />
+                            </FormControl>
+                            <FormDescription>{trans.onePerLine}</FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  </TabsContent>
+                ))}
+              </Tabs>
+            </CardContent>
+          </Card>
+
+          <div className="flex gap-2 justify-end">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => navigate(`/product/${product.id}`)}
+              data-testid="button-cancel-edit"
+            >
+              {t.cancel}
+            </Button>
+            <Button type="submit" disabled={saveMutation.isPending} data-testid="button-save-product">
+              <Save className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+              {t.save}
+            </Button>
+          </div>
+        </form>
+      </Form>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import { useLanguage } from "@/contexts/LanguageContext";
+import { formatMoney, type Product } from "@shared/schema";
+
+// Price in the interface language, with the compare-at price struck through
+// when it is higher; renders nothing for products without a price
+export function ProductPrice({ product }: { product: Pick<Product, "price" | "currency" | "compareAtPrice"> }) {
+  const { language } = useLanguage();
+  if (product.price === null) return null;
+
+  const showCompareAt = product.compareAtPrice !== null && product.compareAtPrice > product.price;
+
+  return (
+    <span className="inline-flex items-baseline gap-1.5">
+      <span>{formatMoney(product.price, product.currency, language)}</span>
+      {showCompareAt && (
+        <s className="text-xs text-muted-foreground font-normal" data-testid="text-compare-at-price">
+          {formatMoney(product.compareAtPrice!, product.currency, language)}
+        </s>
+      )}
+    </span>
+  );
+}
@@ -1,5 +1,5 @@
-import { useState, useRef } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useRef, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient, keepPreviousData } from "@tanstack/react-query";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -24,12 +24,16 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { ListPagination } from "@/components/ListPagination";
+import { ProductPrice } from "@/components/ProductPrice";
 import { Link } from "wouter";
 import {
   Search,
   Package,
   Upload,
   Eye,
+  Pencil,
   Trash2,
   FileDown,
   Copy,
@@ -39,7 +43,9 @@ import {
   AlertCircle,
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
-import type { Product, Language } from "@shared/schema";
+import { formatMoney, type Product, type Language, type Paginated } from "@shared/schema";
+
+const PAGE_SIZE = 24;
 
 interface UploadingFile {
   id: string;
@@ -52,10 +58,13 @@ interface UploadingFile {
 export default function ProductsPage() {
   const { t, language, isRTL } = useLanguage();
   const { toast } = useToast();
+  const { hasRole } = useAuth();
   const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  const [page, setPage] = useState(1);
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [deleteProduct, setDeleteProduct] = useState<Product | null>(null);
   const [descriptionLang, setDescriptionLang] = useState<Language>(language);
@@ -102,9 +111,19 @@ export default function ProductsPage() {
 
   const msg = messages[language];
 
-  const { data: products, isLoading } = useQuery<Product[]>({
-    queryKey: ["/api/products"],
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setDebouncedSearch(searchTerm.trim());
+      setPage(1);
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  const { data: productsPage, isLoading } = useQuery<Paginated<Product>>({
+    queryKey: ["/api/products", { page, limit: PAGE_SIZE, search: debouncedSearch }],
+    placeholderData: keepPreviousData,
   });
+  const products = productsPage?.items;
 
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -127,12 +146,6 @@ export default function ProductsPage() {
     },
   });
 
-  const filteredProducts = products?.filter(
-    (product) =>
-      product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      product.descriptions[language]?.toLowerCase().includes(searchTerm.toLowerCase())
-  );
-
   const copyScript = (product: Product) => {
     const script = generateConfirmationScript(product, language);
     navigator.clipboard.writeText(script);
@@ -278,7 +291,7 @@ export default function ProductsPage() {
             {t.productsTitle}
           </h1>
           <p className="text-sm text-muted-foreground mt-1" data-testid="text-products-count">
-            {products?.length || 0} {msg.productCount}
+            {productsPage?.total || 0} {msg.productCount}
           </p>
         </div>
         <Button onClick={() => fileInputRef.current?.click()} data-testid="button-add-product">
@@ -359,9 +372,10 @@ export default function ProductsPage() {
             </Card>
           ))}
         </div>
-      ) : filteredProducts && filteredProducts.length > 0 ? (
+      ) : products && products.length > 0 ? (
+        <>
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
-          {filteredProducts.map((product) => (
+          {products.map((product) => (
             <Link key={product.id} href={`/product/${product.id}`}>
               <Card
                 className="overflow-hidden hover-elevate h-full cursor-pointer"
@@ -378,9 +392,9 @@ export default function ProductsPage() {
                 <CardContent className="p-4 space-y-3">
                   <div className="flex items-start justify-between gap-2">
                     <h3 className="font-medium truncate" data-testid={`text-product-name-${product.id}`}>{product.name}</h3>
-                    {product.price && (
+                    {product.price !== null && (
                       <Badge variant="secondary" className="shrink-0" data-testid={`badge-price-${product.id}`}>
-                        {product.price}
+                        <ProductPrice product={product} />
                       </Badge>
                     )}
                   </div>
@@ -427,26 +441,46 @@ export default function ProductsPage() {
                       <ShoppingCart className="h-4 w-4" />
                     </Link>
                   </Button>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    onClick={() => setDeleteProduct(product)}
-                    className="text-destructive hover:text-destructive"
-                    data-testid={`button-delete-${product.id}`}
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+                  {hasRole("admin") && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      asChild
+                      data-testid={`button-edit-${product.id}`}
+                    >
+                      <Link href={`/product/${product.id}/edit`}>
+                        <Pencil className="h-4 w-4" />
+                      </Link>
+                    </Button>
+                  )}
+                  {hasRole("admin") && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDeleteProduct(product)}
+                      className="text-destructive hover:text-destructive"
+                      data-testid={`button-delete-${product.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </CardContent>
             </Card>
             </Link>
           ))}
         </div>
+        <ListPagination
+          page={page}
+          totalPages={productsPage?.totalPages || 0}
+          onPageChange={setPage}
+        />
+        </>
       ) : (
         <div className="text-center py-16">
           <Package className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
           <h3 className="text-lg font-medium mb-2" data-testid="text-empty-title">
-            {searchTerm ? msg.noResults : t.noProducts}
+            {debouncedSearch ? msg.noResults : t.noProducts}
           </h3>
           <p className="text-sm text-muted-foreground mb-4" data-testid="text-empty-prompt">
             {msg.uploadPrompt}
@@ -478,10 +512,12 @@ export default function ProductsPage() {
                   />
                 </div>
                 <div className="space-y-4">
-                  {selectedProduct.price && (
+                  {selectedProduct.price !== null && (
                     <div>
                       <p className="text-sm text-muted-foreground">{t.price}</p>
-                      <p className="text-lg font-semibold" data-testid="dialog-product-price">{selectedProduct.price}</p>
+                      <p className="text-lg font-semibold" data-testid="dialog-product-price">
+                        <ProductPrice product={selectedProduct} />
+                      </p>
                     </div>
                   )}
                   {selectedProduct.category && (
@@ -560,6 +596,7 @@ export default function ProductsPage() {
 }
 
 function generateConfirmationScript(product: Product, lang: Language): string {
+  const price = product.price !== null ? formatMoney(product.price, product.currency, lang) : "";
   const scripts = {
     ar: `
 السلام عليكم،
@@ -569,7 +606,7 @@ function generateConfirmationScript(product: Product, lang: Language): string {
 تفاصيل المنتج:
 ${product.descriptions.ar}
 
-${product.price ? `السعر: ${product.price}` : ""}
+${price ? `السعر: ${price}` : ""}
 
 هل تريد تأكيد الطلب؟
 
@@ -583,7 +620,7 @@ Thank you for your interest in our product "${product.name}".
 Product Details:
 ${product.descriptions.en}
 
-${product.price ? `Price: ${product.price}` : ""}
+${price ? `Price: ${price}` : ""}
 
 Would you like to confirm your order?
 
@@ -597,7 +634,7 @@ Merci pour votre intérêt pour notre produit "${product.name}".
 Détails du produit:
 ${product.descriptions.fr}
 
-${product.price ? `Prix: ${product.price}` : ""}
+${price ? `Prix: ${price}` : ""}
 
 Souhaitez-vous confirmer votre commande?
 
@@ -0,0 +1,330 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Phone, PhoneMissed, MapPin, CheckCircle, XCircle, Copy, Inbox, AlarmClock } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { formatMoney, type Order, type OrderItemEntry, type OrderWithStockShortages, type Paginated } from "@shared/schema";
+
+export default function QueuePage() {
+  const { t, language, isRTL } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const translations = {
+    ar: {
+      subtitle: "الطلبات المسندة إليك، الأقدم أولاً",
+      next: "الطلب التالي",
+      upNext: "في الانتظار",
+      empty: "لا توجد طلبات في قائمتك",
+      call: "اتصال",
+      copied: "تم نسخ السكربت",
+      updated: "تم تحديث الطلب",
+      callLogged: "تم تسجيل المكالمة",
+    },
+    en: {
+      subtitle: "Orders assigned to you, oldest first",
+      next: "Next order",
+      upNext: "Up next",
+      empty: "Your queue is empty",
+      call: "Call",
+      copied: "Script copied to clipboard",
+      updated: "Order updated",
+      callLogged: "Call logged",
+    },
+    fr: {
+      subtitle: "Commandes qui vous sont assignées, les plus anciennes d'abord",
+      next: "Commande suivante",
+      upNext: "À suivre",
+      empty: "Votre file est vide",
+      call: "Appeler",
+      copied: "Script copié dans le presse-papiers",
+      updated: "Commande mise à jour",
+      callLogged: "Appel enregistré",
+    },
+  };
+
+  const trans = translations[language];
+
+  const { data: queue, isLoading } = useQuery<Paginated<Order>>({
+    queryKey: ["/api/queue", { limit: 20 }],
+  });
+
+  const { data: callbacks } = useQuery<Paginated<Order>>({
+    queryKey: ["/api/callbacks", { limit: 20 }],
+  });
+
+  const nextOrder = queue?.items[0];
+  const upcoming = queue?.items.slice(1) || [];
+
+  const { data: items } = useQuery<OrderItemEntry[]>({
+    queryKey: ["/api/orders", nextOrder?.id, "items"],
+    enabled: !!nextOrder,
+  });
+
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      return apiRequest<OrderWithStockShortages>("PATCH", `/api/orders/${id}`, { status });
+    },
+    onSuccess: ({ stockShortages }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: t.success,
+        description: trans.updated,
+      });
+      // Confirmed without enough stock, as STOCK_POLICY "warn" allows
+      if (stockShortages.length > 0) {
+        toast({
+          title: t.insufficientStock,
+          description: stockShortages
+            .map((shortage) => `${shortage.name}: ${shortage.requested} / ${shortage.available}`)
+            .join(", "),
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const noAnswerMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/orders/${id}/calls`, { outcome: "no_answer" });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/queue"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/callbacks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: t.success,
+        description: trans.callLogged,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t.error,
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const locale = language === "ar" ? "ar-MA" : language === "fr" ? "fr-FR" : "en-US";
+
+  const copyScript = (order: Order) => {
+    if (order.confirmationScript) {
+      navigator.clipboard.writeText(order.confirmationScript);
+      toast({
+        title: t.success,
+        description: trans.copied,
+      });
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-semibold" data-testid="text-queue-title">
+          {t.myQueue}
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1" data-testid="text-queue-subtitle">
+          {trans.subtitle} · {queue?.total || 0}
+        </p>
+      </div>
+
+      {/* Callbacks Due */}
+      {callbacks && callbacks.items.length > 0 && (
+        <Card data-testid="card-callbacks-due">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <AlarmClock className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+              {t.callbacksDue} · {callbacks.total}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {callbacks.items.map((order) => (
+              <div
+                key={order.id}
+                className="flex items-center gap-4 p-3 rounded-md hover-elevate"
+                data-testid={`row-callback-${order.id}`}
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{order.customerName}</p>
+                  <a href={`tel:${order.customerPhone}`} className="text-xs text-muted-foreground" dir="ltr">
+                    {order.customerPhone}
+                  </a>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {order.callbackAt && new Date(order.callbackAt).toLocaleString(locale)}
+                </p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="p-6 space-y-4">
+            <Skeleton className="h-6 w-1/3" />
+            <Skeleton className="h-4 w-1/4" />
+            <Skeleton className="h-32 w-full" />
+          </CardContent>
+        </Card>
+      ) : nextOrder ? (
+        <>
+          {/* Next Order */}
+          <Card data-testid="card-next-order">
+            <CardHeader>
+              <CardTitle className="text-lg">{trans.next}</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+                <div className="space-y-1">
+                  <p className="text-xl font-semibold" data-testid="text-next-customer">
+                    {nextOrder.customerName}
+                  </p>
+                  <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                    <Phone className="h-3 w-3" />
+                    <span dir="ltr">{nextOrder.customerPhone}</span>
+                  </p>
+                  {(nextOrder.customerCity || nextOrder.customerAddress) && (
+                    <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                      <MapPin className="h-3 w-3" />
+                      {[nextOrder.customerCity, nextOrder.customerAddress].filter(Boolean).join(" - ")}
+                    </p>
+                  )}
+                </div>
+                {items && (
+                  <div className="space-y-2" data-testid="next-order-items">
+                    {items.map((item) => (
+                      <div key={item.id} className="flex items-center gap-3">
+                        {item.imageUrl && <img src={item.imageUrl} alt="" className="h-12 w-12 rounded object-cover" />}
+                        <div>
+                          <p className="font-medium">
+                            {item.productName ?? item.productId}
+                            {item.variantLabel && <span className="text-muted-foreground"> · {item.variantLabel}</span>}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {t.quantity}: {item.quantity}
+                          </p>
+                        </div>
+                      </div>
+                    ))}
+                    <p className="text-sm font-semibold" data-testid="text-next-total">
+                      {t.total}: {formatMoney(nextOrder.total, nextOrder.currency, language)}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {nextOrder.notes && (
+                <div>
+                  <p className="text-sm text-muted-foreground">{t.notes}</p>
+                  <p className="text-sm">{nextOrder.notes}</p>
+                </div>
+              )}
+
+              {nextOrder.confirmationScript && (
+                <Card className="bg-muted/50">
+                  <CardContent className="p-4">
+                    <pre
+                      className="text-sm whitespace-pre-wrap font-sans"
+                      dir={nextOrder.language === "ar" ? "rtl" : "ltr"}
+                      data-testid="text-next-script"
+                    >
+                      {nextOrder.confirmationScript}
+                    </pre>
+                  </CardContent>
+                </Card>
+              )}
+
+              <div className="flex gap-2 flex-wrap">
+                <Button asChild variant="outline" data-testid="button-call-customer">
+                  <a href={`tel:${nextOrder.customerPhone}`}>
+                    <Phone className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+                    {trans.call}
+                  </a>
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => copyScript(nextOrder)}
+                  disabled={!nextOrder.confirmationScript}
+                  data-testid="button-copy-next-script"
+                >
+                  <Copy className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+                  {t.copyScript}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => noAnswerMutation.mutate(nextOrder.id)}
+                  disabled={noAnswerMutation.isPending}
+                  data-testid="button-no-answer-next"
+                >
+                  <PhoneMissed className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+                  {t.callOutcomes.no_answer}
+                </Button>
+                <Button
+                  onClick={() => updateStatusMutation.mutate({ id: nextOrder.id, status: "confirmed" })}
+                  disabled={updateStatusMutation.isPending}
+                  data-testid="button-confirm-next"
+                >
+                  <CheckCircle className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+                  {t.confirmed}
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={() => updateStatusMutation.mutate({ id: nextOrder.id, status: "cancelled" })}
+                  disabled={updateStatusMutation.isPending}
+                  data-testid="button-cancel-next"
+                >
+                  <XCircle className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+                  {t.cancelled}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Upcoming Orders */}
+          {upcoming.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">{trans.upNext}</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {upcoming.map((order) => (
+                  <div
+                    key={order.id}
+                    className="flex items-center gap-4 p-3 rounded-md hover-elevate"
+                    data-testid={`row-queue-${order.id}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{order.customerName}</p>
+                      <p className="text-xs text-muted-foreground" dir="ltr">{order.customerPhone}</p>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(order.createdAt).toLocaleString(locale)}
+                    </p>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      ) : (
+        <div className="text-center py-16">
+          <Inbox className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
+          <p className="text-lg font-medium" data-testid="text-queue-empty">{trans.empty}</p>
+        </div>
+      )}
+    </div>
+  );
+}
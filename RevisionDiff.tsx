@@ -0,0 +1,163 @@
+import { useLanguage } from "@/contexts/LanguageContext";
+import { formatMoney, type Language, type ProductContent } from "@shared/schema";
+
+interface RevisionDiffProps {
+  from: ProductContent;
+  to: ProductContent;
+}
+
+const labels = {
+  ar: {
+    benefits: "الفوائد",
+    features: "المميزات",
+    compareAtPrice: "السعر قبل التخفيض",
+    noChanges: "لا توجد تغييرات",
+  },
+  en: {
+    benefits: "Benefits",
+    features: "Features",
+    compareAtPrice: "Compare-at price",
+    noChanges: "No changes",
+  },
+  fr: {
+    benefits: "Avantages",
+    features: "Caractéristiques",
+    compareAtPrice: "Prix barré",
+    noChanges: "Aucun changement",
+  },
+};
+
+const contentLanguages: Language[] = ["ar", "en", "fr"];
+
+interface ContentRow {
+  key: string;
+  label: string;
+  text: string;
+  rtl: boolean;
+}
+
+interface DiffPart {
+  text: string;
+  change: "same" | "added" | "removed";
+}
+
+// Above this many word pairs the diff shows the whole text as replaced
+const maxDiffCells = 1000000;
+
+// Word-level diff through the longest common subsequence of the two texts'
+// words and whitespace
+function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  if (a.length * b.length > maxDiffCells) {
+    return [
+      { text: before, change: "removed" },
+      { text: after, change: "added" },
+    ];
+  }
+
+  // common[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, change: DiffPart["change"]) => {
+    const last = parts[parts.length - 1];
+    if (last && last.change === change) last.text += text;
+    else parts.push({ text, change });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], "same");
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      push(a[i++], "removed");
+    } else {
+      push(b[j++], "added");
+    }
+  }
+  while (i < a.length) push(a[i++], "removed");
+  while (j < b.length) push(b[j++], "added");
+  return parts;
+}
+
+// Changes between two revisions of a product, field by field and word by
+// word; unchanged fields are left out
+export function RevisionDiff({ from, to }: RevisionDiffProps) {
+  const { t, language } = useLanguage();
+  const label = labels[language];
+
+  const price = (content: ProductContent, amount: number | null) =>
+    amount === null ? "" : formatMoney(amount, content.currency, language);
+
+  const rows = (content: ProductContent): ContentRow[] => [
+    { key: "name", label: t.productName, text: content.name, rtl: false },
+    { key: "price", label: t.price, text: price(content, content.price), rtl: false },
+    { key: "compareAtPrice", label: label.compareAtPrice, text: price(content, content.compareAtPrice), rtl: false },
+    ...contentLanguages.flatMap((lang) => [
+      {
+        key: `descriptions.${lang}`,
+        label: `${t.description} (${lang.toUpperCase()})`,
+        text: content.descriptions[lang],
+        rtl: lang === "ar",
+      },
+      {
+        key: `benefits.${lang}`,
+        label: `${label.benefits} (${lang.toUpperCase()})`,
+        text: (content.benefits?.[lang] ?? []).join("\n"),
+        rtl: lang === "ar",
+      },
+      {
+        key: `features.${lang}`,
+        label: `${label.features} (${lang.toUpperCase()})`,
+        text: (content.features?.[lang] ?? []).join("\n"),
+        rtl: lang === "ar",
+      },
+    ]),
+  ];
+
+  const toRows = rows(to);
+  const changed = rows(from)
+    .map((row, index) => ({ before: row, after: toRows[index] }))
+    .filter(({ before, after }) => before.text !== after.text);
+
+  if (changed.length === 0) {
+    return <p className="text-sm text-muted-foreground">{label.noChanges}</p>;
+  }
+
+  return (
+    <div className="space-y-4" data-testid="revision-diff">
+      {changed.map(({ before, after }) => (
+        <div key={after.key} className="space-y-1">
+          <p className="text-sm font-medium">{after.label}</p>
+          <p
+            className="text-sm whitespace-pre-wrap rounded-md border p-2"
+            dir={after.rtl ? "rtl" : "ltr"}
+            data-testid={`diff-${after.key}`}
+          >
+            {diffWords(before.text, after.text).map((part, index) =>
+              part.change === "same" ? (
+                <span key={index}>{part.text}</span>
+              ) : part.change === "added" ? (
+                <ins key={index} className="no-underline bg-emerald-100 text-emerald-900 dark:bg-emerald-900/40 dark:text-emerald-200">
+                  {part.text}
+                </ins>
+              ) : (
+                <del key={index} className="bg-red-100 text-red-900 dark:bg-red-900/40 dark:text-red-200">
+                  {part.text}
+                </del>
+              ),
+            )}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Shuffle, Users, Loader2, Ban, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { AgentWorkload, BlacklistEntry } from "@shared/schema";
+
+export default function TeamPage() {
+  const { t, language, isRTL } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const translations = {
+    ar: {
+      subtitle: "عبء العمل لكل وكيل",
+      agent: "الوكيل",
+      open: "طلبات مفتوحة",
+      total: "إجمالي الطلبات",
+      distribute: "توزيع الطلبات غير المسندة",
+      distributed: (count: number) => `تم إسناد ${count} طلب`,
+      noAgents: "لا يوجد وكلاء بعد",
+      blacklist: "الأرقام المحظورة",
+      blacklistHint: "الطلبات الجديدة من هذه الأرقام يتم تمييزها للمراجعة",
+      reason: "السبب (اختياري)",
+      add: "إضافة",
+      noBlacklist: "لا توجد أرقام محظورة",
+      blacklisted: "تم حظر الرقم",
+      removed: "تمت إزالة الرقم",
+    },
+    en: {
+      subtitle: "Workload per agent",
+      agent: "Agent",
+      open: "Open orders",
+      total: "Total orders",
+      distribute: "Distribute unassigned orders",
+      distributed: (count: number) => `${count} orders assigned`,
+      noAgents: "No agents yet",
+      blacklist: "Blacklisted phones",
+      blacklistHint: "New orders from these numbers are flagged for review",
+      reason: "Reason (optional)",
+      add: "Add",
+      noBlacklist: "No blacklisted phones",
+      blacklisted: "Phone blacklisted",
+      removed: "Phone removed",
+    },
+    fr: {
+      subtitle: "Charge de travail par agent",
+      agent: "Agent",
+      open: "Commandes ouvertes",
+      total: "Total des commandes",
+      distribute: "Répartir les commandes non assignées",
+      distributed: (count: number) => `${count} commandes assignées`,
+      noAgents: "Aucun agent pour l'instant",
+      blacklist: "Numéros bloqués",
+      blacklistHint: "Les nouvelles commandes de ces numéros sont signalées pour vérification",
+      reason: "Motif (facultatif)",
+      add: "Ajouter",
+      noBlacklist: "Aucun numéro bloqué",
+      blacklisted: "Numéro bloqué",
+      removed: "Numéro retiré",
+    },
+  };
+
+  const trans = translations[language];
+
+  const [blacklistPhone, setBlacklistPhone] = useState("");
+  const [blacklistReason, setBlacklistReason] = useState("");
+
+  const { data: workloads, isLoading } = useQuery<AgentWorkload[]>({
+    queryKey: ["/api/agents/workload"],
+  });
+
+  const { data: blacklist } = useQuery<BlacklistEntry[]>({
+    queryKey: ["/api/blacklist"],
+  });
+
+  const showError = (error: Error) => {
+    toast({
+      title: t.error,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const addBlacklistMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<BlacklistEntry>("POST", "/api/blacklist", {
+        phone: blacklistPhone.trim(),
+        reason: blacklistReason.trim() || undefined,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blacklist"] });
+      setBlacklistPhone("");
+      setBlacklistReason("");
+      toast({
+        title: t.success,
+        description: trans.blacklisted,
+      });
+    },
+    onError: showError,
+  });
+
+  const removeBlacklistMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/blacklist/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/blacklist"] });
+      toast({
+        title: t.success,
+        description: trans.removed,
+      });
+    },
+    onError: showError,
+  });
+
+  const distributeMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest<{ assigned: number }>("POST", "/api/orders/distribute");
+    },
+    onSuccess: ({ assigned }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/agents/workload"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      toast({
+        title: t.success,
+        description: trans.distributed(assigned),
+      });
+    },
+    onError: showError,
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="text-team-title">
+            {t.team}
+          </h1>
+          <p className="text-sm text-muted-foreground mt-1" data-testid="text-team-subtitle">
+            {trans.subtitle}
+          </p>
+        </div>
+        <Button
+          onClick={() => distributeMutation.mutate()}
+          disabled={distributeMutation.isPending || !workloads?.length}
+          data-testid="button-distribute-orders"
+        >
+          {distributeMutation.isPending ? (
+            <Loader2 className={`h-4 w-4 animate-spin ${isRTL ? "ml-2" : "mr-2"}`} />
+          ) : (
+            <Shuffle className={`h-4 w-4 ${isRTL ? "ml-2" : "mr-2"}`} />
+          )}
+          {trans.distribute}
+        </Button>
+      </div>
+
+      {/* Workload Table */}
+      {isLoading ? (
+        <Card>
+          <CardContent className="p-6 space-y-3">
+            {[1, 2, 3].map((i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </CardContent>
+        </Card>
+      ) : workloads && workloads.length > 0 ? (
+        <Card>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{trans.agent}</TableHead>
+                <TableHead>{trans.open}</TableHead>
+                <TableHead>{trans.total}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {workloads.map(({ user, open, total }) => (
+                <TableRow key={user.id} data-testid={`row-agent-${user.id}`}>
+                  <TableCell className="font-medium">{user.username}</TableCell>
+                  <TableCell data-testid={`text-agent-open-${user.id}`}>{open}</TableCell>
+                  <TableCell data-testid={`text-agent-total-${user.id}`}>{total}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+      ) : (
+        <div className="text-center py-16">
+          <Users className="h-16 w-16 mx-auto text-muted-foreground/50 mb-4" />
+          <p className="text-lg font-medium" data-testid="text-no-agents">{trans.noAgents}</p>
+        </div>
+      )}
+
+      {/* Phone Blacklist */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Ban className="h-5 w-5" />
+            {trans.blacklist}
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">{trans.blacklistHint}</p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form
+            className="flex gap-2 flex-wrap"
+            onSubmit={(e) => {
+              e.preventDefault();
+              addBlacklistMutation.mutate();
+            }}
+            data-testid="form-blacklist"
+          >
+            <Input
+              className="w-[200px]"
+              placeholder={t.customerPhone}
+              value={blacklistPhone}
+              onChange={(e) => setBlacklistPhone(e.target.value)}
+              dir="ltr"
+              data-testid="input-blacklist-phone"
+            />
+            <Input
+              className="flex-1 min-w-[200px]"
+              placeholder={trans.reason}
+              value={blacklistReason}
+              onChange={(e) => setBlacklistReason(e.target.value)}
+              data-testid="input-blacklist-reason"
+            />
+            <Button
+              type="submit"
+              disabled={!blacklistPhone.trim() || addBlacklistMutation.isPending}
+              data-testid="button-add-blacklist"
+            >
+              {trans.add}
+            </Button>
+          </form>
+          {blacklist && blacklist.length > 0 ? (
+            <div className="space-y-2">
+              {blacklist.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex items-center gap-4 p-2 rounded-md hover-elevate"
+                  data-testid={`row-blacklist-${entry.id}`}
+                >
+                  <span className="font-medium" dir="ltr">{entry.phone}</span>
+                  <span className="flex-1 text-sm text-muted-foreground truncate">{entry.reason}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeBlacklistMutation.mutate(entry.id)}
+                    disabled={removeBlacklistMutation.isPending}
+                    data-testid={`button-remove-blacklist-${entry.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-blacklist">{trans.noBlacklist}</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
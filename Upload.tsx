@@ -1,48 +1,307 @@
-import { useState, useCallback } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { Upload as UploadIcon, X, ImageIcon, Loader2, CheckCircle, AlertCircle } from "lucide-react";
-import type { Product } from "@shared/schema";
+import { Upload as UploadIcon, X, ImageIcon, Loader2, CheckCircle, AlertCircle, Copy, RefreshCw, Clock } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { AnalysisJob, Product } from "@shared/schema";
 
+// An image being sent to the server, before it has an analysis job
 interface UploadingFile {
   id: string;
   file: File;
   preview: string;
-  status: "uploading" | "analyzing" | "complete" | "error";
   progress: number;
-  product?: Product;
-  error?: string;
+}
+
+// Jobs shown in the queue, kept across page reloads
+const jobsStorageKey = "analysisJobs";
+
+function loadJobIds(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(jobsStorageKey) ?? "[]");
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+// Posts the image with XMLHttpRequest, which unlike fetch reports upload progress
+function uploadImage(file: File, onProgress: (percent: number) => void): Promise<AnalysisJob> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData();
+    formData.append("image", file);
+
+    const request = new XMLHttpRequest();
+    request.open("POST", "/api/products/analyze");
+    request.withCredentials = true;
+    request.responseType = "json";
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(Math.round((event.loaded / event.total) * 100));
+    };
+    request.onload = () => {
+      if (request.status >= 200 && request.status < 300) {
+        resolve(request.response);
+      } else {
+        reject(new Error(request.response?.message || `${request.status}: ${request.statusText}`));
+      }
+    };
+    request.onerror = () => reject(new Error(request.statusText || "Network error"));
+    request.send(formData);
+  });
+}
+
+const isFinished = (job: AnalysisJob | undefined) => job?.status === "succeeded" || job?.status === "failed";
+
+interface AnalysisJobCardProps {
+  jobId: string;
+  // Local preview of the image, until the page is reloaded
+  preview?: string;
+  onRemove: (jobId: string) => void;
+  trans: any;
+}
+
+function AnalysisJobCard({ jobId, preview, onRemove, trans }: AnalysisJobCardProps) {
+  const { t, isRTL } = useLanguage();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Polled until the job has finished
+  const { data: job, error: jobError } = useQuery<AnalysisJob>({
+    queryKey: ["/api/analysis-jobs", jobId],
+    refetchInterval: (query) => (isFinished(query.state.data) || query.state.error ? false : 1000),
+  });
+
+  const createdProduct = job?.status === "succeeded" ? job.productId : null;
+  const { data: product } = useQuery<Product>({
+    queryKey: ["/api/products", createdProduct],
+    enabled: !!createdProduct,
+  });
+
+  // Announce jobs that finish while the page is open, not those that had
+  // finished before it was loaded
+  const previousStatus = useRef(job?.status);
+  useEffect(() => {
+    if (!job) return;
+    const wasPending = previousStatus.current === "queued" || previousStatus.current === "running";
+    previousStatus.current = job.status;
+    if (!wasPending) return;
+
+    if (job.status === "succeeded") {
+      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+      if (!job.duplicate) {
+        toast({ title: t.success, description: trans.analyzed });
+      }
+    } else if (job.status === "failed") {
+      toast({ title: t.error, description: errorText(job.error), variant: "destructive" });
+    }
+  }, [job?.status]);
+
+  const retryMutation = useMutation({
+    mutationFn: (force: boolean) => apiRequest<AnalysisJob>("POST", `/api/analysis-jobs/${jobId}/retry`, { force }),
+    onSuccess: (updated) => {
+      previousStatus.current = updated.status;
+      queryClient.setQueryData(["/api/analysis-jobs", jobId], updated);
+    },
+    onError: (error: Error) => {
+      toast({ title: t.error, description: error.message, variant: "destructive" });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/analysis-jobs/${jobId}`),
+    onSuccess: () => onRemove(jobId),
+    onError: (error: Error) => {
+      // A job the server no longer knows can just be dropped
+      if (error.message.startsWith("404:")) onRemove(jobId);
+      else toast({ title: t.error, description: error.message, variant: "destructive" });
+    },
+  });
+
+  function errorText(error: string | null) {
+    if (!error) return t.error;
+    return error.includes("OPENAI_API_KEY") ? trans.apiKeyMissing : error;
+  }
+
+  const imageUrl = preview ?? job?.imageUrl;
+
+  return (
+    <Card data-testid={`card-upload-${jobId}`}>
+      <CardContent className="p-4">
+        <div className="flex gap-3">
+          <div className="relative h-20 w-20 rounded-md overflow-hidden bg-muted flex-shrink-0">
+            {imageUrl ? (
+              <img
+                src={imageUrl}
+                alt=""
+                className="w-full h-full object-cover"
+                data-testid={`img-preview-${jobId}`}
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center">
+                <ImageIcon className="h-8 w-8 text-muted-foreground" />
+              </div>
+            )}
+            {job?.status === "running" && (
+              <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
+                <Loader2 className="h-6 w-6 text-white animate-spin" />
+              </div>
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-sm font-medium truncate" data-testid={`text-file-name-${jobId}`}>
+                {product ? (
+                  <Link href={`/product/${product.id}`} className="hover:underline">
+                    {product.name}
+                  </Link>
+                ) : (
+                  job?.fileName
+                )}
+              </p>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6 -mt-1 -mr-1"
+                onClick={() => (jobError ? onRemove(jobId) : removeMutation.mutate())}
+                disabled={job?.status === "running" || removeMutation.isPending}
+                data-testid={`button-remove-${jobId}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="mt-2 space-y-2">
+              {!job && !jobError && <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />}
+              {jobError && (
+                <span className="text-xs text-destructive flex items-center gap-1" data-testid={`status-error-${jobId}`}>
+                  <AlertCircle className="h-3 w-3" />
+                  {jobError.message}
+                </span>
+              )}
+              {job?.status === "queued" && (
+                <span className="text-xs text-muted-foreground flex items-center gap-1" data-testid={`status-queued-${jobId}`}>
+                  <Clock className="h-3 w-3" />
+                  {job.attempts > 0 ? `${trans.retrying} (${job.attempts + 1})` : trans.waiting}
+                </span>
+              )}
+              {job?.status === "running" && (
+                <div className="flex items-center gap-2" data-testid={`status-analyzing-${jobId}`}>
+                  <Progress value={job.progress} className="h-1" />
+                  <span className="text-xs text-primary whitespace-nowrap">
+                    {t.analyzing} {job.progress}%
+                  </span>
+                </div>
+              )}
+              {job?.status === "succeeded" && !job.duplicate && (
+                <span className="text-xs text-emerald-600 dark:text-emerald-400 flex items-center gap-1" data-testid={`status-complete-${jobId}`}>
+                  <CheckCircle className="h-3 w-3" />
+                  {t.success}
+                </span>
+              )}
+              {job?.status === "succeeded" && job.duplicate && (
+                <div className="space-y-2" data-testid={`status-duplicate-${jobId}`}>
+                  <span className="text-xs text-amber-600 dark:text-amber-400 flex items-center gap-1">
+                    <Copy className="h-3 w-3" />
+                    {trans.duplicate}
+                  </span>
+                  <div className="flex flex-wrap gap-2">
+                    <Button asChild size="sm" variant="outline" data-testid={`button-open-existing-${jobId}`}>
+                      <Link href={`/product/${job.productId}`}>{trans.openProduct}</Link>
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => retryMutation.mutate(true)}
+                      disabled={retryMutation.isPending}
+                      data-testid={`button-analyze-again-${jobId}`}
+                    >
+                      <RefreshCw className={`h-3 w-3 ${isRTL ? "ml-1" : "mr-1"}`} />
+                      {trans.analyzeAgain}
+                    </Button>
+                  </div>
+                </div>
+              )}
+              {job?.status === "failed" && (
+                <div className="space-y-2" data-testid={`status-error-${jobId}`}>
+                  <span className="text-xs text-destructive flex items-center gap-1">
+                    <AlertCircle className="h-3 w-3 shrink-0" />
+                    {errorText(job.error)}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => retryMutation.mutate(false)}
+                    disabled={retryMutation.isPending}
+                    data-testid={`button-retry-${jobId}`}
+                  >
+                    <RefreshCw className={`h-3 w-3 ${isRTL ? "ml-1" : "mr-1"}`} />
+                    {trans.retry}
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
 }
 
 export default function UploadPage() {
   const { t, language, isRTL } = useLanguage();
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const [files, setFiles] = useState<UploadingFile[]>([]);
+  const [uploads, setUploads] = useState<UploadingFile[]>([]);
+  const [jobIds, setJobIds] = useState<string[]>(loadJobIds);
+  // Local previews of the images uploaded since the page was loaded, by job
+  const [previews, setPreviews] = useState<Record<string, string>>({});
   const [isDragging, setIsDragging] = useState(false);
 
+  useEffect(() => {
+    localStorage.setItem(jobsStorageKey, JSON.stringify(jobIds));
+  }, [jobIds]);
+
   const errorMessages = {
     ar: {
       imageOnly: "يرجى اختيار صور فقط",
       apiKeyMissing: "مفتاح OpenAI API غير متوفر. يرجى إعداده للاستمرار.",
       uploadFailed: "فشل رفع الصورة",
       analyzed: "تم تحليل المنتج بنجاح",
+      duplicate: "تم تحليل هذه الصورة من قبل",
+      openProduct: "فتح المنتج",
+      analyzeAgain: "تحليل من جديد",
+      waiting: "في الانتظار",
+      retrying: "إعادة المحاولة",
+      retry: "إعادة المحاولة",
     },
     en: {
       imageOnly: "Please select only images",
       apiKeyMissing: "OpenAI API key is not set. Please configure it to continue.",
       uploadFailed: "Image upload failed",
       analyzed: "Product analyzed successfully",
+      duplicate: "This image was already analyzed",
+      openProduct: "Open product",
+      analyzeAgain: "Analyze again",
+      waiting: "Waiting",
+      retrying: "Retrying",
+      retry: "Retry",
     },
     fr: {
       imageOnly: "Veuillez sélectionner uniquement des images",
       apiKeyMissing: "La clé API OpenAI n'est pas configurée. Veuillez la configurer pour continuer.",
       uploadFailed: "Échec du téléchargement de l'image",
       analyzed: "Produit analysé avec succès",
+      duplicate: "Cette image a déjà été analysée",
+      openProduct: "Ouvrir le produit",
+      analyzeAgain: "Analyser à nouveau",
+      waiting: "En attente",
+      retrying: "Nouvelle tentative",
+      retry: "Réessayer",
     },
   };
 
@@ -52,28 +311,6 @@ export default function UploadPage() {
     fr: "File d'attente",
   };
 
-  const uploadMutation = useMutation({
-    mutationFn: async (file: File): Promise<Product> => {
-      const formData = new FormData();
-      formData.append("image", file);
-      
-      const response = await fetch("/api/products/analyze", {
-        method: "POST",
-        body: formData,
-      });
-      
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || errorMessages[language].uploadFailed);
-      }
-      
-      return response.json();
-    },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/products"] });
-    },
-  });
-
   const handleFiles = useCallback(async (fileList: FileList | File[]) => {
     const imageFiles = Array.from(fileList).filter((file) =>
       file.type.startsWith("image/")
@@ -88,66 +325,37 @@ export default function UploadPage() {
       return;
     }
 
-    const newFiles: UploadingFile[] = imageFiles.map((file) => ({
+    const newUploads: UploadingFile[] = imageFiles.map((file) => ({
       id: Math.random().toString(36).substr(2, 9),
       file,
       preview: URL.createObjectURL(file),
-      status: "uploading" as const,
       progress: 0,
     }));
 
-    setFiles((prev) => [...prev, ...newFiles]);
+    setUploads((prev) => [...prev, ...newUploads]);
 
-    for (const uploadFile of newFiles) {
+    // One upload at a time; the server analyzes several images at once
+    for (const upload of newUploads) {
       try {
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === uploadFile.id
-              ? { ...f, status: "analyzing" as const, progress: 50 }
-              : f
-          )
-        );
-
-        const product = await uploadMutation.mutateAsync(uploadFile.file);
-
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === uploadFile.id
-              ? { ...f, status: "complete" as const, progress: 100, product }
-              : f
-          )
+        const job = await uploadImage(upload.file, (progress) =>
+          setUploads((prev) => prev.map((u) => (u.id === upload.id ? { ...u, progress } : u)))
         );
-
-        toast({
-          title: t.success,
-          description: `"${product.name}" - ${errorMessages[language].analyzed}`,
-        });
+        // Seeded so that the card sees the job go from queued to finished
+        queryClient.setQueryData(["/api/analysis-jobs", job.id], job);
+        setPreviews((prev) => ({ ...prev, [job.id]: upload.preview }));
+        setJobIds((prev) => [...prev, job.id]);
       } catch (error: any) {
-        const errorMessage = error.message.includes("OPENAI_API_KEY")
-          ? errorMessages[language].apiKeyMissing
-          : error.message;
-
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === uploadFile.id
-              ? {
-                  ...f,
-                  status: "error" as const,
-                  progress: 0,
-                  error: errorMessage,
-                }
-              : f
-          )
-        );
-
+        URL.revokeObjectURL(upload.preview);
         toast({
-          title: t.error,
-          description: errorMessage,
+          title: errorMessages[language].uploadFailed,
+          description: `${upload.file.name}: ${error.message}`,
           variant: "destructive",
         });
+      } finally {
+        setUploads((prev) => prev.filter((u) => u.id !== upload.id));
       }
     }
-  }, [uploadMutation, t, language, toast]);
+  }, [queryClient, t, language, toast]);
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -177,13 +385,12 @@ export default function UploadPage() {
     [handleFiles]
   );
 
-  const removeFile = useCallback((id: string) => {
-    setFiles((prev) => {
-      const file = prev.find((f) => f.id === id);
-      if (file?.preview) {
-        URL.revokeObjectURL(file.preview);
-      }
-      return prev.filter((f) => f.id !== id);
+  const removeJob = useCallback((jobId: string) => {
+    setJobIds((prev) => prev.filter((id) => id !== jobId));
+    setPreviews((prev) => {
+      if (prev[jobId]) URL.revokeObjectURL(prev[jobId]);
+      const { [jobId]: _removed, ...rest } = prev;
+      return rest;
     });
   }, []);
 
@@ -245,80 +452,45 @@ export default function UploadPage() {
       </Card>
 
       {/* Upload Queue */}
-      {files.length > 0 && (
+      {(uploads.length > 0 || jobIds.length > 0) && (
         <div className="space-y-4">
           <h2 className="text-lg font-semibold" data-testid="text-queue-title">
             {queueText[language]}
           </h2>
           <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
-            {files.map((file) => (
-              <Card key={file.id} data-testid={`card-upload-${file.id}`}>
+            {jobIds.map((jobId) => (
+              <AnalysisJobCard
+                key={jobId}
+                jobId={jobId}
+                preview={previews[jobId]}
+                onRemove={removeJob}
+                trans={errorMessages[language]}
+              />
+            ))}
+            {uploads.map((upload) => (
+              <Card key={upload.id} data-testid={`card-upload-${upload.id}`}>
                 <CardContent className="p-4">
                   <div className="flex gap-3">
-                    <div className="relative h-20 w-20 rounded-md overflow-hidden bg-muted flex-shrink-0">
-                      {file.preview ? (
-                        <img
-                          src={file.preview}
-                          alt=""
-                          className="w-full h-full object-cover"
-                          data-testid={`img-preview-${file.id}`}
-                        />
-                      ) : (
-                        <div className="w-full h-full flex items-center justify-center">
-                          <ImageIcon className="h-8 w-8 text-muted-foreground" />
-                        </div>
-                      )}
-                      {file.status === "analyzing" && (
-                        <div className="absolute inset-0 bg-black/50 flex items-center justify-center">
-                          <Loader2 className="h-6 w-6 text-white animate-spin" />
-                        </div>
-                      )}
+                    <div className="h-20 w-20 rounded-md overflow-hidden bg-muted flex-shrink-0">
+                      <img
+                        src={upload.preview}
+                        alt=""
+                        className="w-full h-full object-cover"
+                        data-testid={`img-preview-${upload.id}`}
+                      />
                     </div>
                     <div className="flex-1 min-w-0">
-                      <div className="flex items-start justify-between gap-2">
-                        <p className="text-sm font-medium truncate" data-testid={`text-file-name-${file.id}`}>
-                          {file.product?.name || file.file.name}
-                        </p>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-6 w-6 -mt-1 -mr-1"
-                          onClick={() => removeFile(file.id)}
-                          data-testid={`button-remove-${file.id}`}
-                        >
-                          <X className="h-4 w-4" />
-                        </Button>
-                      </div>
-                      <p className="text-xs text-muted-foreground mb-2" data-testid={`text-file-size-${file.id}`}>
-                        {(file.file.size / 1024 / 1024).toFixed(2)} MB
+                      <p className="text-sm font-medium truncate" data-testid={`text-file-name-${upload.id}`}>
+                        {upload.file.name}
+                      </p>
+                      <p className="text-xs text-muted-foreground mb-2" data-testid={`text-file-size-${upload.id}`}>
+                        {(upload.file.size / 1024 / 1024).toFixed(2)} MB
                       </p>
                       <div className="flex items-center gap-2">
-                        {file.status === "uploading" && (
-                          <>
-                            <Progress value={file.progress} className="h-1" />
-                            <span className="text-xs text-muted-foreground">
-                              {file.progress}%
-                            </span>
-                          </>
-                        )}
-                        {file.status === "analyzing" && (
-                          <span className="text-xs text-primary flex items-center gap-1" data-testid={`status-analyzing-${file.id}`}>
-                            <Loader2 className="h-3 w-3 animate-spin" />
-                            {t.analyzing}
-                          </span>
-                        )}
-                        {file.status === "complete" && (
-                          <span className="text-xs text-emerald-600 dark:text-emerald-400 flex items-center gap-1" data-testid={`status-complete-${file.id}`}>
-                            <CheckCircle className="h-3 w-3" />
-                            {t.success}
-                          </span>
-                        )}
-                        {file.status === "error" && (
-                          <span className="text-xs text-destructive flex items-center gap-1" data-testid={`status-error-${file.id}`}>
-                            <AlertCircle className="h-3 w-3" />
-                            {file.error || t.error}
-                          </span>
-                        )}
+                        <Progress value={upload.progress} className="h-1" />
+                        <span className="text-xs text-muted-foreground">
+                          {upload.progress}%
+                        </span>
                       </div>
                     </div>
                   </div>
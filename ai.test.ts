@@ -0,0 +1,75 @@
+import { describe, it, beforeEach, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import { z } from "zod";
+import { generateJson, getAIProvider, getMaxRepairs } from "./ai";
+
+// Runs with AI_PROVIDER=mock, whose JSON answers are the object the system
+// prompt shows
+const schema = z.object({ name: z.string().min(1), tags: z.array(z.string()).min(1) });
+
+function request(example: object) {
+  return { system: `Answer with this JSON:\n${JSON.stringify(example)}`, prompt: "Describe the product" };
+}
+
+describe("generateJson", () => {
+  beforeEach(() => {
+    delete process.env.AI_MAX_REPAIRS;
+    mock.method(console, "warn", () => {});
+  });
+
+  afterEach(() => {
+    delete process.env.AI_MAX_REPAIRS;
+    mock.restoreAll();
+  });
+
+  it("returns an answer that matches without repairs", async () => {
+    const result = await generateJson(schema, request({ name: "Lamp", tags: ["light"] }));
+    assert.deepEqual(result, { ok: true, data: { name: "Lamp", tags: ["light"] }, repairs: 0 });
+  });
+
+  it("sends a wrong answer back with what is wrong until it matches", async () => {
+    const chat = mock.method(getAIProvider(), "chat");
+    let checks = 0;
+    // Rejects the first answer only
+    const picky = schema.refine(() => ++checks > 1, { message: "Try again", path: ["name"] });
+
+    const result = await generateJson(picky, request({ name: "Lamp", tags: ["light"] }));
+    assert.deepEqual(result, { ok: true, data: { name: "Lamp", tags: ["light"] }, repairs: 1 });
+    assert.equal(chat.mock.callCount(), 1);
+    const messages = chat.mock.calls[0].arguments[0].messages;
+    assert.deepEqual(messages.map((message) => message.role), ["system", "user", "assistant", "user"]);
+    assert.match(messages[3].content, /- name: Try again/);
+  });
+
+  it("gives up after AI_MAX_REPAIRS repairs, keeping every failure", async () => {
+    process.env.AI_MAX_REPAIRS = "3";
+    const chat = mock.method(getAIProvider(), "chat");
+
+    const result = await generateJson(schema, request({ name: "", tags: [] }));
+    assert.ok(!result.ok);
+    assert.deepEqual(result.failures.map((failure) => failure.attempt), [0, 1, 2, 3]);
+    assert.ok(result.failures.every((failure) => failure.reason === "schema_mismatch"));
+    assert.deepEqual(result.failures[0].issues.map((issue) => issue.path), ["name", "tags"]);
+    assert.equal(chat.mock.callCount(), 3);
+  });
+
+  it("does not repair at all when AI_MAX_REPAIRS is 0", async () => {
+    process.env.AI_MAX_REPAIRS = "0";
+    const chat = mock.method(getAIProvider(), "chat");
+
+    const result = await generateJson(schema, { system: "No format here", prompt: "Describe the product" });
+    assert.ok(!result.ok);
+    assert.equal(result.failures.length, 1);
+    assert.equal(chat.mock.callCount(), 0);
+  });
+
+  it("reads AI_MAX_REPAIRS, falling back to 2 for values that are not a count", () => {
+    assert.equal(getMaxRepairs(), 2);
+    process.env.AI_MAX_REPAIRS = "5";
+    assert.equal(getMaxRepairs(), 5);
+    process.env.AI_MAX_REPAIRS = "-1";
+    assert.equal(getMaxRepairs(), 2);
+    process.env.AI_MAX_REPAIRS = "many";
+    assert.equal(getMaxRepairs(), 2);
+  });
+});
@@ -0,0 +1,406 @@
+import OpenAI from "openai";
+import type { ChatCompletionMessageParam } from "openai/resources/chat/completions";
+import type { z } from "zod";
+
+export interface AIMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+interface AIOptions {
+  // Answer with a JSON object. The prompt must show the object to answer
+  // with, which is what MockAIProvider gives back.
+  json?: boolean;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface TextRequest extends AIOptions {
+  system: string;
+  prompt: string;
+}
+
+export interface ImageAnalysisRequest extends TextRequest {
+  // Data URL of the image
+  image: string;
+}
+
+export interface ChatRequest extends AIOptions {
+  messages: AIMessage[];
+}
+
+export interface ChatStreamRequest extends ChatRequest {
+  // Called with each piece of the answer as it arrives
+  onText: (text: string) => void;
+  // Stops the answer midway; the promise then rejects
+  signal?: AbortSignal;
+}
+
+export interface ImageRequest {
+  prompt: string;
+  size?: "1024x1024" | "1024x1792" | "1792x1024";
+}
+
+// What the routes need from an AI service. Answers are the model's text as is,
+// empty when it gave none.
+export interface AIProvider {
+  readonly name: string;
+  analyzeImage(request: ImageAnalysisRequest): Promise<string>;
+  generateText(request: TextRequest): Promise<string>;
+  chat(request: ChatRequest): Promise<string>;
+  // Same as chat, handing out the answer while it is being written
+  streamChat(request: ChatStreamRequest): Promise<string>;
+  // URL of the generated image, or a data URL
+  generateImage(request: ImageRequest): Promise<string>;
+}
+
+export type AIProviderName = "openai" | "openai-compatible" | "mock";
+
+// AI_PROVIDER, default "openai"
+export function getAIProviderName(): AIProviderName {
+  const value = process.env.AI_PROVIDER || "openai";
+  if (value !== "openai" && value !== "openai-compatible" && value !== "mock") {
+    throw new Error(`AI_PROVIDER "${value}" must be "openai", "openai-compatible" or "mock"`);
+  }
+  return value;
+}
+
+export interface AIModels {
+  text: string;
+  vision: string;
+  image: string;
+}
+
+// AI_TEXT_MODEL (default "gpt-4o"), AI_VISION_MODEL (default the text model)
+// and AI_IMAGE_MODEL (default "dall-e-3")
+export function getAIModels(): AIModels {
+  const text = process.env.AI_TEXT_MODEL || "gpt-4o";
+  return {
+    text,
+    vision: process.env.AI_VISION_MODEL || text,
+    image: process.env.AI_IMAGE_MODEL || "dall-e-3",
+  };
+}
+
+export class OpenAIProvider implements AIProvider {
+  readonly name: string = "openai";
+
+  constructor(
+    protected client: OpenAI,
+    protected models: AIModels,
+  ) {}
+
+  // Current OpenAI models only accept max_completion_tokens
+  protected tokenLimit(maxTokens: number | undefined): object {
+    return maxTokens === undefined ? {} : { max_completion_tokens: maxTokens };
+  }
+
+  protected jsonFormat(): object {
+    return { response_format: { type: "json_object" } };
+  }
+
+  protected async complete(messages: ChatCompletionMessageParam[], model: string, options: AIOptions): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model,
+      messages,
+      temperature: options.temperature,
+      ...this.tokenLimit(options.maxTokens),
+      ...(options.json ? this.jsonFormat() : {}),
+    });
+    return response.choices[0]?.message?.content ?? "";
+  }
+
+  analyzeImage(request: ImageAnalysisRequest): Promise<string> {
+    return this.complete(
+      [
+        { role: "system", content: request.system },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: request.prompt },
+            { type: "image_url", image_url: { url: request.image } },
+          ],
+        },
+      ],
+      this.models.vision,
+      request,
+    );
+  }
+
+  generateText(request: TextRequest): Promise<string> {
+    return this.complete(
+      [
+        { role: "system", content: request.system },
+        { role: "user", content: request.prompt },
+      ],
+      this.models.text,
+      request,
+    );
+  }
+
+  chat(request: ChatRequest): Promise<string> {
+    return this.complete(request.messages, this.models.text, request);
+  }
+
+  async streamChat(request: ChatStreamRequest): Promise<string> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.models.text,
+        messages: request.messages,
+        temperature: request.temperature,
+        ...this.tokenLimit(request.maxTokens),
+        ...(request.json ? this.jsonFormat() : {}),
+        stream: true,
+      },
+      { signal: request.signal },
+    );
+    let answer = "";
+    for await (const chunk of stream) {
+      const text = chunk.choices[0]?.delta?.content;
+      if (text) {
+        answer += text;
+        request.onText(text);
+      }
+    }
+    return answer;
+  }
+
+  async generateImage(request: ImageRequest): Promise<string> {
+    const response = await this.client.images.generate({
+      model: this.models.image,
+      prompt: request.prompt,
+      n: 1,
+      size: request.size ?? "1024x1024",
+      ...(this.models.image === "dall-e-3" ? { quality: "hd" as const } : {}),
+    });
+    const image = response.data?.[0];
+    if (image?.url) return image.url;
+    if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+    throw new Error("Failed to generate image");
+  }
+}
+
+// Any server speaking the OpenAI API, such as Ollama, LM Studio or vLLM
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name = "openai-compatible";
+
+  // max_tokens is what these servers understand
+  protected tokenLimit(maxTokens: number | undefined): object {
+    return maxTokens === undefined ? {} : { max_tokens: maxTokens };
+  }
+
+  // Many of them reject response_format, so JSON is only asked for in the prompt
+  protected jsonFormat(): object {
+    return {};
+  }
+}
+
+// First JSON object in the text that parses, e.g. the format a prompt asks for
+function firstJsonObject(text: string): string | undefined {
+  for (let start = text.indexOf("{"); start !== -1; start = text.indexOf("{", start + 1)) {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (char === "\\") i++;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === "{") {
+        depth++;
+      } else if (char === "}" && --depth === 0) {
+        const candidate = text.slice(start, i + 1);
+        try {
+          JSON.parse(candidate);
+          return candidate;
+        } catch {
+          break;
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+// Same answer for the same request, without any network: JSON requests get
+// the object their prompt shows, other requests a short text quoting it, and
+// images a placeholder SVG
+export class MockAIProvider implements AIProvider {
+  readonly name = "mock";
+
+  private answer(texts: string[], options: AIOptions, label: string): string {
+    if (options.json) return firstJsonObject(texts.join("\n")) ?? "{}";
+    return `[mock] ${label}: ${texts[texts.length - 1].slice(0, 200)}`;
+  }
+
+  async analyzeImage(request: ImageAnalysisRequest): Promise<string> {
+    return this.answer([request.system, request.prompt], request, "image analysis");
+  }
+
+  async generateText(request: TextRequest): Promise<string> {
+    return this.answer([request.system, request.prompt], request, "text");
+  }
+
+  async chat(request: ChatRequest): Promise<string> {
+    return this.answer(
+      request.messages.map((message) => message.content),
+      request,
+      "answer",
+    );
+  }
+
+  // The chat answer word by word, like a model writing it
+  async streamChat(request: ChatStreamRequest): Promise<string> {
+    const answer = await this.chat(request);
+    for (const piece of answer.match(/\S+\s*|\s+/g) ?? []) {
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      request.signal?.throwIfAborted();
+      request.onText(piece);
+    }
+    return answer;
+  }
+
+  async generateImage(request: ImageRequest): Promise<string> {
+    const caption = request.prompt
+      .slice(-80)
+      .replace(/[<>&"]/g, "")
+      .trim();
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024"><rect width="100%" height="100%" fill="#1a1a2e"/><text x="50%" y="50%" fill="#ffffff" font-size="28" text-anchor="middle">${caption}</text></svg>`;
+    return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+  }
+}
+
+function createAIProvider(name: AIProviderName): AIProvider {
+  switch (name) {
+    case "mock":
+      return new MockAIProvider();
+    case "openai-compatible": {
+      const baseURL = process.env.AI_BASE_URL;
+      if (!baseURL) {
+        throw new Error("AI_BASE_URL environment variable is not set");
+      }
+      // Local servers usually ignore the key, but the client requires one
+      const client = new OpenAI({ baseURL, apiKey: process.env.AI_API_KEY || "none" });
+      return new OpenAICompatibleProvider(client, getAIModels());
+    }
+    case "openai": {
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error("OPENAI_API_KEY environment variable is not set");
+      }
+      return new OpenAIProvider(new OpenAI({ apiKey: process.env.OPENAI_API_KEY }), getAIModels());
+    }
+  }
+}
+
+let provider: AIProvider | null = null;
+
+// Created on first use, so that the app starts without an API key
+export function getAIProvider(): AIProvider {
+  if (!provider) {
+    provider = createAIProvider(getAIProviderName());
+  }
+  return provider;
+}
+
+// AI_MAX_REPAIRS, default 2: how many times an answer that is not the JSON
+// asked for is sent back to the AI to be fixed
+export function getMaxRepairs(): number {
+  const repairs = Number(process.env.AI_MAX_REPAIRS);
+  return Number.isInteger(repairs) && repairs >= 0 ? repairs : 2;
+}
+
+// Why an answer was rejected; attempt 0 is the first answer, then each repair
+export interface AIOutputFailure {
+  attempt: number;
+  reason: "empty" | "invalid_json" | "schema_mismatch";
+  message: string;
+  issues: { path: string; message: string }[];
+}
+
+export type AIOutputResult<T> =
+  | { ok: true; data: T; repairs: number }
+  | { ok: false; failures: AIOutputFailure[] };
+
+// Models often wrap JSON in a markdown code block
+function stripCodeFence(text: string): string {
+  const trimmed = text.trim();
+  if (!trimmed.startsWith("```")) return trimmed;
+  return trimmed.replace(/^```[\w]*\n?/, "").replace(/\n?```$/, "");
+}
+
+function checkAnswer<T>(
+  answer: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  attempt: number,
+): { ok: true; data: T } | { ok: false; failure: AIOutputFailure } {
+  const text = stripCodeFence(answer);
+  if (!text) {
+    return { ok: false, failure: { attempt, reason: "empty", message: "The answer is empty", issues: [] } };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error: any) {
+    return { ok: false, failure: { attempt, reason: "invalid_json", message: error.message, issues: [] } };
+  }
+
+  const parsed = schema.safeParse(json);
+  if (parsed.success) return { ok: true, data: parsed.data };
+  const issues = parsed.error.issues.map((issue) => ({
+    path: issue.path.join(".") || "(root)",
+    message: issue.message,
+  }));
+  return {
+    ok: false,
+    failure: { attempt, reason: "schema_mismatch", message: "The answer does not match the format", issues },
+  };
+}
+
+// Asks the AI for a JSON object matching the schema, with the image when there
+// is one. An answer that does not parse or match is sent back with what is
+// wrong, for the AI to complete or fix, up to getMaxRepairs() times.
+export async function generateJson<T>(
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+  request: TextRequest | ImageAnalysisRequest,
+): Promise<AIOutputResult<T>> {
+  const provider = getAIProvider();
+  const maxRepairs = getMaxRepairs();
+  const failures: AIOutputFailure[] = [];
+
+  let answer =
+    "image" in request
+      ? await provider.analyzeImage({ ...request, json: true })
+      : await provider.generateText({ ...request, json: true });
+
+  for (let attempt = 0; ; attempt++) {
+    const checked = checkAnswer(answer, schema, attempt);
+    if (checked.ok) return { ok: true, data: checked.data, repairs: attempt };
+
+    failures.push(checked.failure);
+    console.warn("Rejected AI answer:", JSON.stringify(checked.failure));
+    if (attempt >= maxRepairs) return { ok: false, failures };
+
+    const problems = checked.failure.issues.length > 0
+      ? checked.failure.issues.map((issue) => `- ${issue.path}: ${issue.message}`).join("\n")
+      : `- ${checked.failure.message}`;
+    // The image is not sent again: the answer already describes it
+    answer = await provider.chat({
+      messages: [
+        { role: "system", content: request.system },
+        { role: "user", content: request.prompt },
+        { role: "assistant", content: answer },
+        {
+          role: "user",
+          content: `إجابتك لا تطابق التنسيق المطلوب:
+${problems}
+أعد كائن JSON كاملاً بالتنسيق المطلوب، مع إكمال الحقول واللغات الناقصة دون تغيير ما هو صحيح. أرجع JSON فقط.`,
+        },
+      ],
+      json: true,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature,
+    });
+  }
+}
@@ -0,0 +1,98 @@
+import { describe, it, before, after, afterEach, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { storage } from "./storage";
+import { uploadDir } from "./uploads";
+import { enqueueAnalysisJob, retryDelay } from "./analysis";
+import type { AnalysisJob } from "@shared/schema";
+
+// Runs with STORAGE_DRIVER=memory and AI_PROVIDER=mock, which answers with the
+// example product in the analysis prompt
+
+const image = `${randomUUID()}.png`;
+
+// The job once a worker is done with it, queued again for a retry or not
+async function finished(id: string): Promise<AnalysisJob> {
+  for (let i = 0; i < 10000; i++) {
+    const job = await storage.getAnalysisJob(id);
+    if (job && job.attempts > 0 && job.status !== "running") return job;
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  throw new Error(`Analysis job ${id} did not finish`);
+}
+
+describe("analysis jobs", () => {
+  before(() => {
+    fs.writeFileSync(path.join(uploadDir, image), "not really a png");
+  });
+
+  after(() => {
+    fs.rmSync(path.join(uploadDir, image), { force: true });
+  });
+
+  afterEach(() => {
+    delete process.env.ANALYSIS_MAX_ATTEMPTS;
+    mock.restoreAll();
+    mock.timers.reset();
+  });
+
+  it("waits twice as long before each retry, from 5 seconds", () => {
+    assert.deepEqual([1, 2, 3, 4].map(retryDelay), [5000, 10000, 20000, 40000]);
+  });
+
+  it("creates a product, then marks the same image as a duplicate of it", async () => {
+    const first = await finished((await enqueueAnalysisJob({ imageUrl: `/uploads/${image}`, fileName: "a.png" })).id);
+    assert.equal(first.status, "succeeded");
+    assert.equal(first.duplicate, false);
+    const product = await storage.getProduct(first.productId!);
+    assert.equal(product?.imageUrl, `/uploads/${image}`);
+
+    const second = await finished((await enqueueAnalysisJob({ imageUrl: `/uploads/${image}`, fileName: "a.png" })).id);
+    assert.equal(second.status, "succeeded");
+    assert.equal(second.duplicate, true);
+    assert.equal(second.productId, first.productId);
+  });
+
+  it("fails without retrying when the image is gone", async () => {
+    const job = await enqueueAnalysisJob({ imageUrl: `/uploads/${randomUUID()}.png`, fileName: "gone.png" });
+    const done = await finished(job.id);
+    assert.equal(done.status, "failed");
+    assert.equal(done.attempts, 1);
+    assert.equal(done.error, "The image is no longer available");
+  });
+
+  it("queues a failed attempt again after the retry delay", async () => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+    mock.method(console, "error", () => {});
+    mock.method(storage, "getImageAnalysis", async () => {
+      throw new Error("Storage is down");
+    });
+
+    const before = Date.now();
+    const job = await enqueueAnalysisJob({ imageUrl: `/uploads/${image}`, fileName: "a.png" });
+    const done = await finished(job.id);
+    assert.equal(done.status, "queued");
+    assert.equal(done.attempts, 1);
+    assert.equal(done.error, "Storage is down");
+    assert.ok(done.runAt.getTime() >= before + retryDelay(1));
+    assert.ok(done.runAt.getTime() <= Date.now() + retryDelay(1));
+
+    // Out of the way of the jobs that follow
+    await storage.updateAnalysisJob(job.id, { status: "failed" });
+  });
+
+  it("fails the job once ANALYSIS_MAX_ATTEMPTS attempts are used up", async () => {
+    process.env.ANALYSIS_MAX_ATTEMPTS = "1";
+    mock.method(console, "error", () => {});
+    mock.method(storage, "getImageAnalysis", async () => {
+      throw new Error("Storage is down");
+    });
+
+    const job = await enqueueAnalysisJob({ imageUrl: `/uploads/${image}`, fileName: "a.png" });
+    const done = await finished(job.id);
+    assert.equal(done.status, "failed");
+    assert.equal(done.error, "Storage is down");
+  });
+});
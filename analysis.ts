@@ -0,0 +1,209 @@
+import { createHash } from "crypto";
+import { storage } from "./storage";
+import { generateJson } from "./ai";
+import { getDefaultCurrency } from "./pricing";
+import { readUpload } from "./uploads";
+import { broadcastProduct } from "./live";
+import {
+  productAnalysisSchema,
+  suggestedPriceSchema,
+  type AnalysisJob,
+  type InsertAnalysisJob,
+} from "@shared/schema";
+
+// ANALYSIS_CONCURRENCY, default 2: how many images are analyzed at once
+export function getAnalysisConcurrency(): number {
+  const concurrency = Number(process.env.ANALYSIS_CONCURRENCY);
+  return Number.isInteger(concurrency) && concurrency > 0 ? concurrency : 2;
+}
+
+// ANALYSIS_MAX_ATTEMPTS, default 3: attempts at a job before it is failed
+export function getAnalysisMaxAttempts(): number {
+  const attempts = Number(process.env.ANALYSIS_MAX_ATTEMPTS);
+  return Number.isInteger(attempts) && attempts > 0 ? attempts : 3;
+}
+
+// Wait before the attempt after the given one: 5s, 10s, 20s...
+export function retryDelay(attempt: number): number {
+  return 5000 * 2 ** (attempt - 1);
+}
+
+type JobOutcome =
+  | { ok: true; productId: string; duplicate: boolean }
+  | { ok: false; error: string; retry: boolean };
+
+// Creates a product from the job's image, reusing the stored analysis of an
+// image analyzed before. While the product made from that image exists, it is
+// the outcome instead, marked as a duplicate.
+async function analyzeJobImage(job: AnalysisJob): Promise<JobOutcome> {
+  const image = readUpload(job.imageUrl);
+  if (!image) {
+    return { ok: false, error: "The image is no longer available", retry: false };
+  }
+
+  const hash = createHash("sha256").update(image.data).digest("hex");
+  const cached = job.force ? undefined : await storage.getImageAnalysis(hash);
+  const existing = cached?.productId ? await storage.getProduct(cached.productId) : undefined;
+  if (existing) {
+    return { ok: true, productId: existing.id, duplicate: true };
+  }
+
+  const defaultCurrency = getDefaultCurrency();
+  let data = cached?.analysis;
+  if (!data) {
+    await storage.updateAnalysisJob(job.id, { progress: 20 });
+
+    // Analyze image with the AI provider's vision model
+    const analysis = await generateJson(productAnalysisSchema, {
+      system: `أنت خبير تحليل المنتجات احترافي. حلل صورة المنتج بشكل مفصل جداً وأرجع JSON.
+أرجع هذا التنسيق بالضبط مع معلومات مفصلة وشاملة جداً:
+{
+  "name": "اسم المنتج",
+  "descriptions": {
+    "ar": "وصف طويل وشامل ومفصل جداً للمنتج بالعربية (200+ كلمة) يتضمن المواد والمزايا والاستخدامات",
+    "en": "Very detailed and comprehensive product description in English (200+ words) with materials, features and uses",
+    "fr": "Description très détaillée et complète du produit en français (200+ mots) avec matériaux, caractéristiques et usages"
+  },
+  "benefits": {
+    "ar": ["فائدة 1", "فائدة 2", "فائدة 3", "فائدة 4", "فائدة 5"],
+    "en": ["Benefit 1", "Benefit 2", "Benefit 3", "Benefit 4", "Benefit 5"],
+    "fr": ["Avantage 1", "Avantage 2", "Avantage 3", "Avantage 4", "Avantage 5"]
+  },
+  "features": {
+    "ar": ["ميزة 1", "ميزة 2", "ميزة 3", "ميزة 4", "ميزة 5", "ميزة 6"],
+    "en": ["Feature 1", "Feature 2", "Feature 3", "Feature 4", "Feature 5", "Feature 6"],
+    "fr": ["Caractéristique 1", "Caractéristique 2", "Caractéristique 3", "Caractéristique 4", "Caractéristique 5", "Caractéristique 6"]
+  },
+  "price": { "amount": 199, "currency": "${defaultCurrency}", "compareAtPrice": null },
+  "category": "فئة المنتج"
+}
+price هو سعر البيع المقترح كرقم بعملة ${defaultCurrency} (رمز ISO 4217)، وcompareAtPrice سعر قبل التخفيض اختياري أكبر من amount أو null.`,
+      prompt: "حلل صورة المنتج بشكل مفصل جداً وأعطني وصف طويل شامل (200+ كلمة) وفوائد عديدة (5+) وميزات (6+) في 3 لغات كـ JSON فقط",
+      image: `data:${image.mimeType};base64,${image.data.toString("base64")}`,
+      maxTokens: 2000,
+      temperature: 1,
+    });
+    if (!analysis.ok) {
+      console.error("Invalid product analysis:", JSON.stringify(analysis.failures));
+      return {
+        ok: false,
+        error: "عذراً، لم تتمكن الخدمة من تحليل الصورة بشكل صحيح. حاول صورة أخرى.",
+        retry: true,
+      };
+    }
+    data = analysis.data;
+  }
+
+  await storage.updateAnalysisJob(job.id, { progress: 90 });
+
+  // A price the AI could not structure is left for an admin to set
+  const suggestedPrice = suggestedPriceSchema.safeParse(data.price);
+
+  const product = await storage.createProduct({
+    name: data.name,
+    imageUrl: job.imageUrl,
+    descriptions: data.descriptions,
+    benefits: data.benefits,
+    features: data.features,
+    price: suggestedPrice.success ? suggestedPrice.data.amount : null,
+    currency: suggestedPrice.success ? suggestedPrice.data.currency : defaultCurrency,
+    compareAtPrice: suggestedPrice.success ? suggestedPrice.data.compareAtPrice ?? null : null,
+    category: data.category || null,
+    options: [],
+  }, { source: "generated", createdBy: job.createdBy });
+  // Kept whether it was just made or reused, now for the new product
+  await storage.saveImageAnalysis({ hash, analysis: data, productId: product.id });
+  broadcastProduct(product, "created");
+
+  return { ok: true, productId: product.id, duplicate: false };
+}
+
+async function runJob(job: AnalysisJob) {
+  let outcome: JobOutcome;
+  try {
+    outcome = await analyzeJobImage(job);
+  } catch (error: any) {
+    console.error("Error analyzing product:", error);
+    outcome = { ok: false, error: error.message || "Failed to analyze product image", retry: true };
+  }
+
+  if (outcome.ok) {
+    await storage.updateAnalysisJob(job.id, {
+      status: "succeeded",
+      progress: 100,
+      productId: outcome.productId,
+      duplicate: outcome.duplicate,
+      error: null,
+    });
+  } else if (outcome.retry && job.attempts < getAnalysisMaxAttempts()) {
+    const delay = retryDelay(job.attempts);
+    await storage.updateAnalysisJob(job.id, {
+      status: "queued",
+      progress: 0,
+      runAt: new Date(Date.now() + delay),
+      error: outcome.error,
+    });
+    setTimeout(() => void startQueuedJobs(), delay);
+  } else {
+    await storage.updateAnalysisJob(job.id, { status: "failed", progress: 0, error: outcome.error });
+  }
+}
+
+let activeJobs = 0;
+
+// Starts due jobs until the concurrency limit is reached; called whenever a job
+// is queued or a worker frees up
+async function startQueuedJobs() {
+  const concurrency = getAnalysisConcurrency();
+  // The slot is taken before claiming, so that concurrent calls cannot
+  // overshoot the limit
+  while (activeJobs < concurrency) {
+    activeJobs++;
+    const job = await storage.claimAnalysisJob().catch((error) => {
+      console.error("Error claiming analysis job:", error);
+      return undefined;
+    });
+    if (!job) {
+      activeJobs--;
+      return;
+    }
+    runJob(job)
+      .catch((error) => console.error("Error updating analysis job:", error))
+      .finally(() => {
+        activeJobs--;
+        void startQueuedJobs();
+      });
+  }
+}
+
+export async function enqueueAnalysisJob(insertJob: InsertAnalysisJob): Promise<AnalysisJob> {
+  const job = await storage.createAnalysisJob(insertJob);
+  void startQueuedJobs();
+  return job;
+}
+
+// Queues a finished job again, e.g. to analyze a duplicate image anew with `force`
+export async function requeueAnalysisJob(id: string, force: boolean): Promise<AnalysisJob | undefined> {
+  const job = await storage.updateAnalysisJob(id, {
+    status: "queued",
+    progress: 0,
+    force,
+    attempts: 0,
+    runAt: new Date(),
+    error: null,
+    productId: null,
+    duplicate: false,
+  });
+  void startQueuedJobs();
+  return job;
+}
+
+// Picks up the jobs left over from before the server started: those it was
+// running when it stopped are run again
+export async function startAnalysisWorkers() {
+  const requeued = await storage.requeueRunningAnalysisJobs();
+  if (requeued > 0) {
+    console.log(`Requeued ${requeued} interrupted analysis job(s)`);
+  }
+  void startQueuedJobs();
+}
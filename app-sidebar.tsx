@@ -1,6 +1,8 @@
 import { useLocation, Link } from "wouter";
-import { Upload, Package, ShoppingCart, LayoutDashboard } from "lucide-react";
+import { Upload, Package, ShoppingCart, LayoutDashboard, ListTodo, Users, Contact } from "lucide-react";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useAuth } from "@/hooks/use-auth";
+import type { UserRole } from "@shared/schema";
 import {
   Sidebar,
   SidebarContent,
@@ -17,8 +19,9 @@ import {
 export function AppSidebar() {
   const [location] = useLocation();
   const { t, language, isRTL } = useLanguage();
+  const { hasRole } = useAuth();
 
-  const menuItems = [
+  const menuItems: { title: string; url: string; icon: typeof Package; testId: string; roles?: UserRole[] }[] = [
     {
       title: t.dashboard,
       url: "/",
@@ -37,6 +40,26 @@ export function AppSidebar() {
       icon: ShoppingCart,
       testId: "nav-link-orders",
     },
+    {
+      title: t.customers,
+      url: "/customers",
+      icon: Contact,
+      testId: "nav-link-customers",
+    },
+    {
+      title: t.myQueue,
+      url: "/queue",
+      icon: ListTodo,
+      testId: "nav-link-queue",
+      roles: ["admin", "agent"],
+    },
+    {
+      title: t.team,
+      url: "/team",
+      icon: Users,
+      testId: "nav-link-team",
+      roles: ["admin"],
+    },
   ];
 
   const menuLabel = {
@@ -74,7 +97,7 @@ export function AppSidebar() {
           </SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {menuItems.map((item) => (
+              {menuItems.filter((item) => !item.roles || hasRole(...item.roles)).map((item) => (
                 <SidebarMenuItem key={item.url}>
                   <SidebarMenuButton
                     asChild
@@ -0,0 +1,88 @@
+import { storage } from "./storage";
+import { openOrderStatuses, orderListQuerySchema, type AgentWorkload } from "@shared/schema";
+import { toPublicUser } from "./auth";
+import { broadcastOrder } from "./live";
+
+// ORDER_ASSIGNMENT selects how new orders are spread over agents:
+// "least-loaded" (default) or "round-robin"
+type AssignmentStrategy = "least-loaded" | "round-robin";
+
+function getStrategy(): AssignmentStrategy {
+  return process.env.ORDER_ASSIGNMENT === "round-robin" ? "round-robin" : "least-loaded";
+}
+
+// Round robin position; starting over after a restart is harmless
+let roundRobinCursor = 0;
+
+async function getAgents() {
+  const users = await storage.getUsers();
+  return users
+    .filter((user) => user.role === "agent")
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+// Returns a function that picks the agent for each successive order, keeping
+// track of the orders it hands out so one call can distribute many orders
+async function createPicker(): Promise<() => string | null> {
+  const agents = await getAgents();
+  if (agents.length === 0) return () => null;
+
+  if (getStrategy() === "round-robin") {
+    return () => agents[roundRobinCursor++ % agents.length].id;
+  }
+
+  const openCounts = new Map(agents.map((agent) => [agent.id, 0]));
+  for (const { userId, open } of await storage.getAssigneeCounts()) {
+    if (openCounts.has(userId)) openCounts.set(userId, open);
+  }
+  return () => {
+    let best = agents[0].id;
+    openCounts.forEach((open, id) => {
+      if (open < openCounts.get(best)!) best = id;
+    });
+    openCounts.set(best, openCounts.get(best)! + 1);
+    return best;
+  };
+}
+
+export async function pickAgent(): Promise<string | null> {
+  const pick = await createPicker();
+  return pick();
+}
+
+// Assigns every open order that has no agent yet; returns how many were assigned
+export async function distributeUnassigned(): Promise<number> {
+  const pick = await createPicker();
+  const query = orderListQuerySchema.parse({
+    assignedTo: "none",
+    status: openOrderStatuses.join(","),
+    sort: "createdAt",
+    order: "asc",
+    limit: 100,
+  });
+
+  let assigned = 0;
+  for (;;) {
+    // Assigned orders drop out of the filter, so always read the first page
+    const { items } = await storage.listOrders(query);
+    if (items.length === 0) break;
+
+    for (const order of items) {
+      const agentId = pick();
+      if (!agentId) return assigned;
+      broadcastOrder(await storage.updateOrder(order.id, { assignedTo: agentId, assignedAt: new Date() }));
+      assigned++;
+    }
+  }
+  return assigned;
+}
+
+export async function getAgentWorkloads(): Promise<AgentWorkload[]> {
+  const [agents, counts] = await Promise.all([getAgents(), storage.getAssigneeCounts()]);
+  const byUser = new Map(counts.map((count) => [count.userId, count]));
+  return agents.map((agent) => ({
+    user: toPublicUser(agent),
+    open: byUser.get(agent.id)?.open ?? 0,
+    total: byUser.get(agent.id)?.total ?? 0,
+  }));
+}
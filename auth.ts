@@ -0,0 +1,224 @@
+import type { Express, Request, Response, NextFunction, RequestHandler } from "express";
+import { ServerResponse, type IncomingMessage } from "http";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { fromZodError } from "zod-validation-error";
+import { storage } from "./storage";
+import {
+  insertUserSchema,
+  loginSchema,
+  type User as SelectUser,
+  type PublicUser,
+  type UserRole,
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+}
+
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Authentication required" });
+    }
+    if (!roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+// Session and passport middleware, kept for requests that bypass Express
+let sessionHandlers: RequestHandler[] = [];
+
+// User logged in on the session of a request Express does not handle, such as
+// a WebSocket upgrade; undefined without a valid session
+export function getSessionUser(req: IncomingMessage): Promise<SelectUser | undefined> {
+  const request = req as Request;
+  const response = new ServerResponse(req) as Response;
+  return new Promise((resolve, reject) => {
+    const run = (index: number) => {
+      if (index === sessionHandlers.length) return resolve(request.user);
+      sessionHandlers[index](request, response, (err?: unknown) => (err ? reject(err) : run(index + 1)));
+    };
+    run(0);
+  });
+}
+
+// Creates the first admin from ADMIN_USERNAME / ADMIN_PASSWORD when no users exist yet
+async function ensureAdminUser() {
+  const existing = await storage.getUsers();
+  if (existing.length > 0) return;
+
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+  if (!username || !password) {
+    console.warn("No users exist. Set ADMIN_USERNAME and ADMIN_PASSWORD to create the first admin.");
+    return;
+  }
+
+  await storage.createUser({
+    username,
+    password: await hashPassword(password),
+    role: "admin",
+  });
+  console.log(`Created admin user "${username}"`);
+}
+
+export async function setupAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET environment variable is not set");
+  }
+
+  app.set("trust proxy", 1);
+  sessionHandlers = [
+    session({
+      secret: secret || "development-session-secret",
+      resave: false,
+      saveUninitialized: false,
+      store: storage.sessionStore,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 7 * 24 * 60 * 60 * 1000, // 1 week
+      },
+    }),
+    passport.initialize(),
+    passport.session(),
+  ];
+  app.use(sessionHandlers);
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  await ensureAdminUser();
+
+  // ==================== AUTH ====================
+
+  app.post("/api/auth/login", (req: Request, res: Response, next: NextFunction) => {
+    const credentials = loginSchema.safeParse(req.body);
+    if (!credentials.success) {
+      return res.status(400).json({ message: fromZodError(credentials.error).toString() });
+    }
+
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", requireAuth, (req: Request, res: Response) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  // Everything else under /api requires a logged-in user
+  app.use("/api", (req: Request, res: Response, next: NextFunction) => {
+    if (req.path.startsWith("/auth/")) return next();
+    requireAuth(req, res, next);
+  });
+
+  // ==================== USERS ====================
+
+  app.get("/api/users", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requireRole("admin"), async (req: Request, res: Response) => {
+    try {
+      const parsed = insertUserSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      if (await storage.getUserByUsername(parsed.data.username)) {
+        return res.status(409).json({ message: "Username already exists" });
+      }
+
+      const user = await storage.createUser({
+        ...parsed.data,
+        password: await hashPassword(parsed.data.password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      console.error("Error creating user:", error);
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+}
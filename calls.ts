@@ -0,0 +1,71 @@
+import { storage } from "./storage";
+import {
+  canTransitionOrderStatus,
+  failedCallOutcomes,
+  type CallAttempt,
+  type CallOutcome,
+  type LogCall,
+  type Order,
+  type OrderStatus,
+} from "@shared/schema";
+
+// CALL_ATTEMPTS_BEFORE_NO_ANSWER consecutive failed calls move an order to "no_answer"
+function getNoAnswerThreshold(): number {
+  const threshold = Number(process.env.CALL_ATTEMPTS_BEFORE_NO_ANSWER);
+  return Number.isInteger(threshold) && threshold > 0 ? threshold : 3;
+}
+
+// Failed calls since the customer last picked up
+function countFailedStreak(attempts: CallAttempt[]): number {
+  let failed = 0;
+  for (let i = attempts.length - 1; i >= 0; i--) {
+    if (!failedCallOutcomes.includes(attempts[i].outcome as CallOutcome)) break;
+    failed++;
+  }
+  return failed;
+}
+
+// Records a call and applies its effects on the order: the callback time
+// replaces any earlier one, too many failed calls move the order to
+// "no_answer" and an answered call with a callback to "call_back_later"
+export async function logCallAttempt(
+  order: Order,
+  agentId: string,
+  call: LogCall,
+): Promise<{ attempt: CallAttempt; order: Order }> {
+  const attempt = await storage.createCallAttempt({
+    orderId: order.id,
+    agentId,
+    outcome: call.outcome,
+    durationSeconds: call.durationSeconds,
+    notes: call.notes || null,
+    callbackAt: call.callbackAt || null,
+  });
+
+  let updated = (await storage.updateOrder(order.id, { callbackAt: call.callbackAt || null })) || order;
+
+  let nextStatus: OrderStatus | null = null;
+  let reason: string | null = null;
+  if (failedCallOutcomes.includes(call.outcome)) {
+    const failed = countFailedStreak(await storage.getCallAttempts(order.id));
+    if (failed >= getNoAnswerThreshold()) {
+      nextStatus = "no_answer";
+      reason = `${failed} failed call attempts`;
+    }
+  } else if (call.callbackAt) {
+    nextStatus = "call_back_later";
+  }
+
+  if (nextStatus && canTransitionOrderStatus(updated.status, nextStatus)) {
+    updated =
+      (await storage.changeOrderStatus({
+        orderId: order.id,
+        fromStatus: updated.status,
+        toStatus: nextStatus,
+        changedBy: agentId,
+        reason,
+      })) || updated;
+  }
+
+  return { attempt, order: updated };
+}
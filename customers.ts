@@ -0,0 +1,52 @@
+import { storage } from "./storage";
+import type { Customer, CustomerStats, InsertCustomer, Order } from "@shared/schema";
+
+interface OrderCustomerDetails {
+  customerPhone: string;
+  customerName: string;
+  customerAddress?: string | null;
+  customerCity?: string | null;
+}
+
+// Returns the customer with the order's (E.164) phone number, creating it
+// from the order's details the first time. An existing customer gets any
+// address or city it is missing from the order; other details are kept.
+export async function findOrCreateCustomer(order: OrderCustomerDetails): Promise<Customer> {
+  const existing = await storage.getCustomerByPhone(order.customerPhone);
+  if (existing) {
+    const missing: Partial<InsertCustomer> = {};
+    if (!existing.address && order.customerAddress) missing.address = order.customerAddress;
+    if (!existing.city && order.customerCity) missing.city = order.customerCity;
+    if (Object.keys(missing).length === 0) return existing;
+    return (await storage.updateCustomer(existing.id, missing)) || existing;
+  }
+
+  try {
+    return await storage.createCustomer({
+      phone: order.customerPhone,
+      name: order.customerName,
+      address: order.customerAddress || null,
+      city: order.customerCity || null,
+    });
+  } catch (error) {
+    // Another order for the same phone created the customer first
+    const created = await storage.getCustomerByPhone(order.customerPhone);
+    if (created) return created;
+    throw error;
+  }
+}
+
+export function getCustomerStats(orders: Order[]): CustomerStats {
+  const delivered = orders.filter((order) => order.status === "delivered").length;
+  const refused = orders.filter((order) => order.status === "refused").length;
+  const returned = orders.filter((order) => order.status === "returned").length;
+  const reached = delivered + refused + returned;
+  return {
+    totalOrders: orders.length,
+    delivered,
+    refused,
+    returned,
+    deliveryRate: reached > 0 ? delivered / reached : null,
+    refusalRate: reached > 0 ? (refused + returned) / reached : null,
+  };
+}
@@ -0,0 +1,26 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Lazy initialization so the app can still start with in-memory storage
+let pool: pg.Pool | null = null;
+let db: Database | null = null;
+
+export function getPool(): pg.Pool {
+  if (!pool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL must be set when STORAGE_DRIVER is \"postgres\"");
+    }
+    pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  }
+  return pool;
+}
+
+export function getDb(): Database {
+  if (!db) {
+    db = drizzle(getPool(), { schema });
+  }
+  return db;
+}
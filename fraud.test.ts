@@ -0,0 +1,105 @@
+import { describe, it, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { detectOrderRisks } from "./fraud";
+import type { OrderStatus } from "@shared/schema";
+
+// Runs with STORAGE_DRIVER=memory; every case uses phone numbers of its own
+
+let lastPhone = 600000000;
+function newPhone(): string {
+  lastPhone++;
+  return `+212${lastPhone}`;
+}
+
+async function placeOrder(customerPhone: string, productId: string, status: OrderStatus = "pending") {
+  return storage.createOrder(
+    {
+      productId,
+      customerName: "Test customer",
+      customerPhone,
+      status,
+      currency: "MAD",
+      subtotal: 100,
+      discountTotal: 0,
+      shippingFee: 0,
+      total: 100,
+    },
+    [{ productId, quantity: 1, unitPrice: 100, discount: 0 }],
+  );
+}
+
+describe("detectOrderRisks", () => {
+  afterEach(() => {
+    delete process.env.DUPLICATE_WINDOW_HOURS;
+    delete process.env.FRAUD_REFUSAL_RATE;
+    delete process.env.FRAUD_MIN_SHIPPED_ORDERS;
+  });
+
+  it("flags nothing for a new customer", async () => {
+    assert.deepEqual(await detectOrderRisks({ customerPhone: newPhone(), productIds: ["p1"] }), {
+      riskFlags: [],
+      duplicateOfId: null,
+    });
+  });
+
+  it("flags a recent order of the same product for the same phone as a duplicate of the latest", async () => {
+    const phone = newPhone();
+    await placeOrder(phone, "p1");
+    const latest = await placeOrder(phone, "p1");
+    await storage.updateOrder(latest.id, { createdAt: new Date(Date.now() + 1000) });
+
+    // Same number, written differently
+    const spaced = `${phone.slice(0, 4)} ${phone.slice(4, 7)} ${phone.slice(7)}`;
+    const risks = await detectOrderRisks({ customerPhone: spaced, productIds: ["p2", "p1"] });
+    assert.deepEqual(risks, { riskFlags: ["duplicate"], duplicateOfId: latest.id });
+  });
+
+  it("ignores other products, closed orders and orders outside the window", async () => {
+    const phone = newPhone();
+    await placeOrder(phone, "p1");
+    await placeOrder(phone, "p2", "cancelled");
+    const old = await placeOrder(phone, "p3");
+    await storage.updateOrder(old.id, { createdAt: new Date(Date.now() - 25 * 60 * 60 * 1000) });
+
+    const risks = await detectOrderRisks({ customerPhone: phone, productIds: ["p2", "p3", "p4"] });
+    assert.deepEqual(risks.riskFlags, []);
+
+    process.env.DUPLICATE_WINDOW_HOURS = "48";
+    const wider = await detectOrderRisks({ customerPhone: phone, productIds: ["p3"] });
+    assert.deepEqual(wider, { riskFlags: ["duplicate"], duplicateOfId: old.id });
+  });
+
+  it("flags blacklisted phones however they are written", async () => {
+    const phone = newPhone();
+    await storage.createBlacklistEntry({ phone });
+
+    const risks = await detectOrderRisks({ customerPhone: `00${phone.slice(1)}`, productIds: ["p1"] });
+    assert.deepEqual(risks.riskFlags, ["blacklisted"]);
+  });
+
+  it("flags phones that refuse or return at least FRAUD_REFUSAL_RATE of shipped orders", async () => {
+    const phone = newPhone();
+    await placeOrder(phone, "p1", "delivered");
+    await placeOrder(phone, "p1", "refused");
+    // Not shipped, so not counted
+    await placeOrder(phone, "p1", "cancelled");
+
+    const risks = await detectOrderRisks({ customerPhone: phone, productIds: ["p2"] });
+    assert.deepEqual(risks.riskFlags, ["high_refusal_rate"]);
+
+    process.env.FRAUD_REFUSAL_RATE = "0.75";
+    assert.deepEqual((await detectOrderRisks({ customerPhone: phone, productIds: ["p2"] })).riskFlags, []);
+  });
+
+  it("waits for FRAUD_MIN_SHIPPED_ORDERS shipped orders before judging the refusal rate", async () => {
+    const phone = newPhone();
+    await placeOrder(phone, "p1", "returned");
+
+    assert.deepEqual((await detectOrderRisks({ customerPhone: phone, productIds: ["p2"] })).riskFlags, []);
+    process.env.FRAUD_MIN_SHIPPED_ORDERS = "1";
+    assert.deepEqual((await detectOrderRisks({ customerPhone: phone, productIds: ["p2"] })).riskFlags, [
+      "high_refusal_rate",
+    ]);
+  });
+});
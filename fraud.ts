@@ -0,0 +1,100 @@
+import { storage } from "./storage";
+import type { Order, OrderRiskFlag, OrderStatus } from "@shared/schema";
+
+// An order for the same phone and any of the same products within
+// DUPLICATE_WINDOW_HOURS (default 24) of an earlier one is a likely duplicate
+function getDuplicateWindowMs(): number {
+  const hours = Number(process.env.DUPLICATE_WINDOW_HOURS);
+  return (hours > 0 ? hours : 24) * 60 * 60 * 1000;
+}
+
+// Phones whose shipped orders were refused or returned at least
+// FRAUD_REFUSAL_RATE of the time (default 0.5), over at least
+// FRAUD_MIN_SHIPPED_ORDERS orders (default 2), are flagged
+function getRefusalThresholds(): { rate: number; minShipped: number } {
+  const rate = Number(process.env.FRAUD_REFUSAL_RATE);
+  const minShipped = Number(process.env.FRAUD_MIN_SHIPPED_ORDERS);
+  return {
+    rate: rate > 0 && rate <= 1 ? rate : 0.5,
+    minShipped: Number.isInteger(minShipped) && minShipped > 0 ? minShipped : 2,
+  };
+}
+
+const shippedStatuses: OrderStatus[] = ["delivered", "refused", "returned"];
+const refusedStatuses: OrderStatus[] = ["refused", "returned"];
+// Orders that can no longer be the original of a duplicate
+const closedStatuses: OrderStatus[] = ["cancelled", "duplicate"];
+
+export interface OrderRisks {
+  riskFlags: OrderRiskFlag[];
+  duplicateOfId: string | null;
+}
+
+// Runs when an order is created, before it is stored
+export async function detectOrderRisks(order: { customerPhone: string; productIds: string[] }): Promise<OrderRisks> {
+  const [previous, blacklisted] = await Promise.all([
+    storage.getOrdersByPhone(order.customerPhone),
+    storage.getBlacklistEntryByPhone(order.customerPhone),
+  ]);
+
+  const riskFlags: OrderRiskFlag[] = [];
+
+  const since = Date.now() - getDuplicateWindowMs();
+  const recent = previous
+    .filter(
+      (earlier) =>
+        earlier.createdAt.getTime() >= since && !closedStatuses.includes(earlier.status as OrderStatus),
+    )
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  let duplicateOf: Order | undefined;
+  for (const earlier of recent) {
+    const items = await storage.getOrderItems(earlier.id);
+    if (items.some((item) => order.productIds.includes(item.productId))) {
+      duplicateOf = earlier;
+      break;
+    }
+  }
+  if (duplicateOf) riskFlags.push("duplicate");
+
+  if (blacklisted) riskFlags.push("blacklisted");
+
+  const { rate, minShipped } = getRefusalThresholds();
+  const shipped = previous.filter((earlier) => shippedStatuses.includes(earlier.status as OrderStatus));
+  const refused = shipped.filter((earlier) => refusedStatuses.includes(earlier.status as OrderStatus));
+  if (shipped.length >= minShipped && refused.length / shipped.length >= rate) {
+    riskFlags.push("high_refusal_rate");
+  }
+
+  return { riskFlags, duplicateOfId: duplicateOf?.id ?? null };
+}
+
+// Folds a duplicate into the order it duplicates: details missing on the
+// original are copied over, then the duplicate is closed as "duplicate".
+// The caller checks that the duplicate can still move to that status.
+export async function mergeDuplicateOrder(
+  duplicate: Order,
+  original: Order,
+  userId: string,
+): Promise<{ order: Order; original: Order }> {
+  const notes = [original.notes, duplicate.notes]
+    .filter((note, index, all) => note && all.indexOf(note) === index)
+    .join("\n");
+  const mergedOriginal =
+    (await storage.updateOrder(original.id, {
+      customerAddress: original.customerAddress || duplicate.customerAddress,
+      customerCity: original.customerCity || duplicate.customerCity,
+      notes: notes || null,
+    })) || original;
+
+  let order =
+    (await storage.changeOrderStatus({
+      orderId: duplicate.id,
+      fromStatus: duplicate.status,
+      toStatus: "duplicate",
+      changedBy: userId,
+      reason: `Merged into order ${original.id}`,
+    })) || duplicate;
+  order = (await storage.updateOrder(order.id, { flagsReviewedAt: new Date() })) || order;
+
+  return { order, original: mergedOriginal };
+}
@@ -8,6 +8,9 @@ export const translations: Record<Language, Translations> = {
     products: "المنتجات",
     orders: "الطلبات",
     settings: "الإعدادات",
+    myQueue: "قائمة مهامي",
+    team: "الفريق",
+    customers: "العملاء",
     
     // Upload page
     uploadTitle: "رفع صور المنتجات",
@@ -37,19 +40,55 @@ export const translations: Record<Language, Translations> = {
     newOrder: "طلب جديد",
     customerName: "اسم العميل",
     customerPhone: "رقم الهاتف",
+    invalidPhone: "رقم الهاتف غير صالح",
     customerAddress: "العنوان",
     customerCity: "المدينة",
     notes: "ملاحظات",
     quantity: "الكمية",
     status: "الحالة",
     pending: "قيد الانتظار",
+    noAnswer: "لا يوجد رد",
+    callBackLater: "إعادة الاتصال لاحقاً",
+    wrongNumber: "رقم خاطئ",
+    duplicate: "مكرر",
     confirmed: "مؤكد",
-    cancelled: "ملغي",
+    shipped: "تم الشحن",
     delivered: "تم التوصيل",
+    refused: "مرفوض عند الاستلام",
+    returned: "مرتجع",
+    cancelled: "ملغي",
+    reasonCode: "سبب الحالة",
+    reasonCodes: {
+      changed_mind: "غيّر العميل رأيه",
+      price_too_high: "السعر مرتفع",
+      ordered_elsewhere: "طلب من مكان آخر",
+      out_of_stock: "نفد المخزون",
+      cannot_pay: "لا يستطيع الدفع",
+      not_as_expected: "المنتج غير مطابق للتوقعات",
+      damaged: "منتج تالف",
+      wrong_item: "منتج خاطئ",
+      undeliverable: "تعذر التوصيل",
+      other: "سبب آخر",
+    },
+    logCall: "تسجيل مكالمة",
+    callOutcome: "نتيجة المكالمة",
+    callOutcomes: {
+      answered: "تم الرد",
+      no_answer: "لا يوجد رد",
+      busy: "مشغول",
+      voicemail: "البريد الصوتي",
+      unreachable: "غير متاح",
+    },
+    callDuration: "المدة (ثواني)",
+    callbackAt: "موعد إعادة الاتصال",
+    callAttempts: "محاولات الاتصال",
+    callbacksDue: "مكالمات مستحقة",
     confirmationScript: "سكربت التأكيد",
     selectProduct: "اختر المنتج",
     createOrder: "إنشاء الطلب",
     orderCreated: "تم إنشاء الطلب بنجاح",
+    assignedTo: "مسند إلى",
+    unassigned: "غير مسند",
     
     // Common
     save: "حفظ",
@@ -66,6 +105,18 @@ export const translations: Record<Language, Translations> = {
     language: "اللغة",
     date: "التاريخ",
     total: "المجموع",
+    items: "العناصر",
+    addItem: "إضافة منتج",
+    unitPrice: "سعر الوحدة",
+    discount: "الخصم",
+    subtotal: "المجموع الفرعي",
+    shippingFee: "رسوم الشحن",
+    variant: "النوع",
+    selectVariant: "اختر النوع",
+    sku: "رمز المنتج",
+    stock: "المخزون",
+    lowStock: "مخزون منخفض",
+    insufficientStock: "المخزون غير كافٍ",
     
     // PDF
     downloadPdf: "تحميل PDF",
@@ -79,6 +130,9 @@ export const translations: Record<Language, Translations> = {
     products: "Products",
     orders: "Orders",
     settings: "Settings",
+    myQueue: "My Queue",
+    team: "Team",
+    customers: "Customers",
     
     // Upload page
     uploadTitle: "Upload Product Photos",
@@ -108,19 +162,55 @@ export const translations: Record<Language, Translations> = {
     newOrder: "New Order",
     customerName: "Customer Name",
     customerPhone: "Phone Number",
+    invalidPhone: "Invalid phone number",
     customerAddress: "Address",
     customerCity: "City",
     notes: "Notes",
     quantity: "Quantity",
     status: "Status",
     pending: "Pending",
+    noAnswer: "No answer",
+    callBackLater: "Call back later",
+    wrongNumber: "Wrong number",
+    duplicate: "Duplicate",
     confirmed: "Confirmed",
-    cancelled: "Cancelled",
+    shipped: "Shipped",
     delivered: "Delivered",
+    refused: "Refused at door",
+    returned: "Returned",
+    cancelled: "Cancelled",
+    reasonCode: "Reason code",
+    reasonCodes: {
+      changed_mind: "Customer changed their mind",
+      price_too_high: "Price too high",
+      ordered_elsewhere: "Ordered elsewhere",
+      out_of_stock: "Out of stock",
+      cannot_pay: "Cannot pay",
+      not_as_expected: "Not as expected",
+      damaged: "Damaged",
+      wrong_item: "Wrong item",
+      undeliverable: "Undeliverable",
+      other: "Other",
+    },
+    logCall: "Log call",
+    callOutcome: "Call outcome",
+    callOutcomes: {
+      answered: "Answered",
+      no_answer: "No answer",
+      busy: "Busy",
+      voicemail: "Voicemail",
+      unreachable: "Unreachable",
+    },
+    callDuration: "Duration (seconds)",
+    callbackAt: "Call back at",
+    callAttempts: "Call attempts",
+    callbacksDue: "Callbacks due",
     confirmationScript: "Confirmation Script",
     selectProduct: "Select Product",
     createOrder: "Create Order",
     orderCreated: "Order created successfully",
+    assignedTo: "Assigned to",
+    unassigned: "Unassigned",
     
     // Common
     save: "Save",
@@ -137,6 +227,18 @@ export const translations: Record<Language, Translations> = {
     language: "Language",
     date: "Date",
     total: "Total",
+    items: "Items",
+    addItem: "Add item",
+    unitPrice: "Unit price",
+    discount: "Discount",
+    subtotal: "Subtotal",
+    shippingFee: "Shipping fee",
+    variant: "Variant",
+    selectVariant: "Select a variant",
+    sku: "SKU",
+    stock: "Stock",
+    lowStock: "Low stock",
+    insufficientStock: "Not enough stock",
     
     // PDF
     downloadPdf: "Download PDF",
@@ -150,6 +252,9 @@ export const translations: Record<Language, Translations> = {
     products: "Produits",
     orders: "Commandes",
     settings: "Paramètres",
+    myQueue: "Ma file",
+    team: "Équipe",
+    customers: "Clients",
     
     // Upload page
     uploadTitle: "Télécharger des photos de produits",
@@ -179,19 +284,55 @@ export const translations: Record<Language, Translations> = {
     newOrder: "Nouvelle commande",
     customerName: "Nom du client",
     customerPhone: "Numéro de téléphone",
+    invalidPhone: "Numéro de téléphone invalide",
     customerAddress: "Adresse",
     customerCity: "Ville",
     notes: "Notes",
     quantity: "Quantité",
     status: "Statut",
     pending: "En attente",
+    noAnswer: "Pas de réponse",
+    callBackLater: "À rappeler",
+    wrongNumber: "Mauvais numéro",
+    duplicate: "Doublon",
     confirmed: "Confirmé",
-    cancelled: "Annulé",
+    shipped: "Expédié",
     delivered: "Livré",
+    refused: "Refusé à la livraison",
+    returned: "Retourné",
+    cancelled: "Annulé",
+    reasonCode: "Code motif",
+    reasonCodes: {
+      changed_mind: "Le client a changé d'avis",
+      price_too_high: "Prix trop élevé",
+      ordered_elsewhere: "Commandé ailleurs",
+      out_of_stock: "Rupture de stock",
+      cannot_pay: "Ne peut pas payer",
+      not_as_expected: "Ne correspond pas aux attentes",
+      damaged: "Endommagé",
+      wrong_item: "Mauvais article",
+      undeliverable: "Livraison impossible",
+      other: "Autre",
+    },
+    logCall: "Enregistrer un appel",
+    callOutcome: "Résultat de l'appel",
+    callOutcomes: {
+      answered: "Répondu",
+      no_answer: "Pas de réponse",
+      busy: "Occupé",
+      voicemail: "Messagerie vocale",
+      unreachable: "Injoignable",
+    },
+    callDuration: "Durée (secondes)",
+    callbackAt: "Rappeler le",
+    callAttempts: "Tentatives d'appel",
+    callbacksDue: "Rappels à faire",
     confirmationScript: "Script de confirmation",
     selectProduct: "Sélectionner un produit",
     createOrder: "Créer la commande",
     orderCreated: "Commande créée avec succès",
+    assignedTo: "Assignée à",
+    unassigned: "Non assignée",
     
     // Common
     save: "Enregistrer",
@@ -208,6 +349,18 @@ export const translations: Record<Language, Translations> = {
     language: "Langue",
     date: "Date",
     total: "Total",
+    items: "Articles",
+    addItem: "Ajouter un article",
+    unitPrice: "Prix unitaire",
+    discount: "Remise",
+    subtotal: "Sous-total",
+    shippingFee: "Frais de livraison",
+    variant: "Variante",
+    selectVariant: "Choisir une variante",
+    sku: "Référence",
+    stock: "Stock",
+    lowStock: "Stock faible",
+    insufficientStock: "Stock insuffisant",
     
     // PDF
     downloadPdf: "Télécharger PDF",
@@ -0,0 +1,137 @@
+import { storage } from "./storage";
+import {
+  stockItemName,
+  type InsertStockMovement,
+  type OrderItem,
+  type OrderStatus,
+  type StockShortage,
+} from "@shared/schema";
+
+// What confirming an order with more units than in stock does: "block" refuses
+// the confirmation, "warn" confirms it and lets the stock go below zero
+export type StockPolicy = "block" | "warn";
+
+// STOCK_POLICY, default "block"
+export function getStockPolicy(): StockPolicy {
+  const value = process.env.STOCK_POLICY || "block";
+  if (value !== "block" && value !== "warn") {
+    throw new Error(`STOCK_POLICY "${value}" must be "block" or "warn"`);
+  }
+  return value;
+}
+
+// Stock levels at or below LOW_STOCK_THRESHOLD (default 5) are shown as low
+export function getLowStockThreshold(): number {
+  const threshold = Number(process.env.LOW_STOCK_THRESHOLD);
+  return Number.isInteger(threshold) && threshold >= 0 ? threshold : 5;
+}
+
+// Reserved stock is given back when an order ends up in one of these
+export const stockReleasingStatuses: OrderStatus[] = ["cancelled", "returned"];
+
+type StockItem = Pick<OrderItem, "productId" | "quantity"> & { variantId?: string | null };
+
+interface StockNeed {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  quantity: number;
+  available: number;
+}
+
+// Units the items take from stock, merged per product or variant. Items of
+// products that do not track stock take none.
+async function getStockNeeds(items: StockItem[]): Promise<StockNeed[]> {
+  const needs = new Map<string, StockNeed>();
+  for (const item of items) {
+    const key = item.variantId ?? item.productId;
+    const existing = needs.get(key);
+    if (existing) {
+      existing.quantity += item.quantity;
+      continue;
+    }
+
+    const product = await storage.getProduct(item.productId);
+    if (!product?.trackStock) continue;
+    const variant = item.variantId ? await storage.getProductVariant(item.variantId) : undefined;
+    // Products with options keep their stock on the variants
+    if (product.options.length > 0 && !variant) continue;
+
+    needs.set(key, {
+      productId: product.id,
+      variantId: variant?.id ?? null,
+      name: stockItemName(product, variant),
+      quantity: item.quantity,
+      available: variant ? variant.stock : product.stock,
+    });
+  }
+  return Array.from(needs.values());
+}
+
+// Items asking for more units than are in stock
+export async function findStockShortages(items: StockItem[]): Promise<StockShortage[]> {
+  const needs = await getStockNeeds(items);
+  return needs
+    .filter((need) => need.quantity > need.available)
+    .map((need) => ({
+      productId: need.productId,
+      variantId: need.variantId,
+      name: need.name,
+      requested: need.quantity,
+      available: need.available,
+    }));
+}
+
+export function describeStockShortages(shortages: StockShortage[]): string {
+  return shortages
+    .map((shortage) => `${shortage.name}: ${shortage.requested} requested, ${shortage.available} in stock`)
+    .join("; ");
+}
+
+// Units an order still holds, per product or variant: what it reserved minus
+// what it gave back
+async function getHeldStock(orderId: string): Promise<Map<string, InsertStockMovement>> {
+  const held = new Map<string, InsertStockMovement>();
+  const movements = await storage.getStockMovements({ orderId });
+  movements.forEach((movement) => {
+    const key = movement.variantId ?? movement.productId;
+    const entry = held.get(key);
+    if (entry) {
+      entry.change -= movement.change;
+    } else {
+      held.set(key, {
+        productId: movement.productId,
+        variantId: movement.variantId,
+        orderId,
+        change: -movement.change,
+        reason: "released",
+      });
+    }
+  });
+  return held;
+}
+
+// Movements taking the order's items out of stock, for when it is confirmed;
+// none if it already holds stock
+export async function reserveOrderStock(orderId: string, items: StockItem[], userId: string): Promise<InsertStockMovement[]> {
+  const held = await getHeldStock(orderId);
+  if (Array.from(held.values()).some((entry) => entry.change > 0)) return [];
+
+  const needs = await getStockNeeds(items);
+  return needs.map((need) => ({
+    productId: need.productId,
+    variantId: need.variantId,
+    orderId,
+    change: -need.quantity,
+    reason: "reserved",
+    createdBy: userId,
+  }));
+}
+
+// Movements giving back whatever stock the order holds
+export async function releaseOrderStock(orderId: string, userId: string): Promise<InsertStockMovement[]> {
+  const held = await getHeldStock(orderId);
+  return Array.from(held.values())
+    .filter((entry) => entry.change > 0)
+    .map((entry) => ({ ...entry, createdBy: userId }));
+}
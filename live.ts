@@ -0,0 +1,76 @@
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage } from "./storage";
+import { getSessionUser } from "./auth";
+import { liveUpdatesPath, type LiveEvent, type Order, type Product } from "@shared/schema";
+
+// Clients that miss a ping for this long are disconnected
+const heartbeatInterval = 30 * 1000;
+
+const wss = new WebSocketServer({ noServer: true });
+const alive = new WeakSet<WebSocket>();
+
+// Accepts WebSocket connections at liveUpdatesPath from logged-in users, on the
+// same server as the API. Other upgrades, like Vite's HMR, are left alone.
+export function setupLiveUpdates(httpServer: Server) {
+  httpServer.on("upgrade", (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    if (pathname !== liveUpdatesPath) return;
+
+    getSessionUser(req).then(
+      (user) => {
+        if (!user) {
+          socket.end("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+          return;
+        }
+        wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+      },
+      (error) => {
+        console.error("Error authenticating live updates:", error);
+        socket.destroy();
+      },
+    );
+  });
+
+  wss.on("connection", (ws: WebSocket) => {
+    alive.add(ws);
+    ws.on("pong", () => alive.add(ws));
+    ws.on("error", (error) => console.error("Live updates socket error:", error));
+  });
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+  }, heartbeatInterval);
+  httpServer.on("close", () => clearInterval(heartbeat));
+}
+
+export function broadcast(event: LiveEvent) {
+  const message = JSON.stringify(event);
+  wss.clients.forEach((ws) => {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(message);
+    }
+  });
+}
+
+export function broadcastProduct(product: Product | undefined, action: "created" | "updated" = "updated") {
+  if (product) broadcast({ resource: "/api/products", action, item: product });
+}
+
+export function broadcastOrder(order: Order | undefined, action: "created" | "updated" = "updated") {
+  if (order) broadcast({ resource: "/api/orders", action, item: order });
+}
+
+// Sends products as they are now, e.g. after stock movements changed them
+export async function broadcastProductsById(ids: string[]) {
+  const unique = Array.from(new Set(ids));
+  const products = await Promise.all(unique.map((id) => storage.getProduct(id)));
+  products.forEach((product) => broadcastProduct(product));
+}
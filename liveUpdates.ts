@@ -0,0 +1,72 @@
+import type { QueryKey } from "@tanstack/react-query";
+import { queryClient } from "./queryClient";
+import type { LiveEvent, Paginated } from "@shared/schema";
+
+type Item = { id: string };
+// Lists are either pages from a paginated endpoint or plain arrays
+type ListData = Paginated<Item> | Item[];
+
+// Queries computed from a resource, fetched again whenever it changes
+const dependentQueries: Record<LiveEvent["resource"], string[]> = {
+  "/api/products": ["/api/products/lookup", "/api/inventory/low-stock"],
+  "/api/orders": [
+    "/api/orders/status-counts",
+    "/api/queue",
+    "/api/callbacks",
+    "/api/customers",
+    "/api/agents/workload",
+  ],
+};
+
+// ["/api/orders"] or ["/api/orders", { page: 2 }]
+function listFilter(resource: string) {
+  return {
+    queryKey: [resource],
+    predicate: ({ queryKey }: { queryKey: QueryKey }) =>
+      queryKey.length === 1 || (queryKey.length === 2 && typeof queryKey[1] === "object" && queryKey[1] !== null),
+  };
+}
+
+// ["/api/orders", id, "items"] and the like
+function subresourceFilter(resource: string, id: string) {
+  return {
+    queryKey: [resource, id],
+    predicate: ({ queryKey }: { queryKey: QueryKey }) => queryKey.length > 2,
+  };
+}
+
+// Rewrites the items of every cached list, keeping page totals in step with
+// items that were taken out
+function updateLists(resource: string, update: (items: Item[]) => Item[]) {
+  queryClient.setQueriesData<ListData>(listFilter(resource), (data) => {
+    if (!data) return data;
+    if (Array.isArray(data)) return update(data);
+    const items = update(data.items);
+    return { ...data, items, total: Math.max(0, data.total - (data.items.length - items.length)) };
+  });
+}
+
+// Brings cached queries up to date with a change someone else made. Items are
+// patched in place so the page does not flicker; lists whose sort or filter
+// may no longer hold are refetched when next shown.
+export function applyLiveEvent(event: LiveEvent) {
+  const { resource } = event;
+
+  if (event.action === "deleted") {
+    updateLists(resource, (items) => items.filter((item) => item.id !== event.id));
+    queryClient.removeQueries({ queryKey: [resource, event.id] });
+    queryClient.invalidateQueries({ ...listFilter(resource), refetchType: "none" });
+  } else if (event.action === "created") {
+    queryClient.setQueryData([resource, event.item.id], event.item);
+    // Where a new item belongs depends on each list's sort and filter
+    queryClient.invalidateQueries(listFilter(resource));
+  } else {
+    const { item } = event;
+    queryClient.setQueryData<Item>([resource, item.id], (current) => (current ? item : current));
+    updateLists(resource, (items) => items.map((listed) => (listed.id === item.id ? item : listed)));
+    queryClient.invalidateQueries({ ...listFilter(resource), refetchType: "none" });
+    queryClient.invalidateQueries(subresourceFilter(resource, item.id));
+  }
+
+  dependentQueries[resource].forEach((queryKey) => queryClient.invalidateQueries({ queryKey: [queryKey] }));
+}
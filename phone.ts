@@ -0,0 +1,13 @@
+import { isSupportedCountry, type CountryCode } from "libphonenumber-js";
+import { DEFAULT_PHONE_REGION } from "@shared/schema";
+
+// PHONE_DEFAULT_REGION (ISO 3166 code such as "MA", "FR" or "ES") is the
+// region for numbers typed without a country code
+export function getDefaultPhoneRegion(): CountryCode {
+  const region = process.env.PHONE_DEFAULT_REGION?.toUpperCase();
+  if (!region) return DEFAULT_PHONE_REGION;
+  if (!isSupportedCountry(region)) {
+    throw new Error(`PHONE_DEFAULT_REGION "${region}" is not a supported region code`);
+  }
+  return region;
+}
@@ -0,0 +1,94 @@
+import { storage, type NewOrderItem } from "./storage";
+import {
+  DEFAULT_CURRENCY,
+  computeOrderTotals,
+  currencySchema,
+  lineTotal,
+  type OrderItemInput,
+  type OrderTotals,
+  type Product,
+  type ProductVariant,
+} from "@shared/schema";
+
+// Shipping fee of new orders unless the agent sets one: SHIPPING_FEE, default 0
+export function getDefaultShippingFee(): number {
+  const fee = Number(process.env.SHIPPING_FEE);
+  return fee >= 0 ? fee : 0;
+}
+
+// DEFAULT_CURRENCY (ISO 4217 code such as "MAD" or "EUR") is the currency of
+// products the AI or an admin did not give one
+export function getDefaultCurrency(): string {
+  const value = process.env.DEFAULT_CURRENCY;
+  if (!value) return DEFAULT_CURRENCY;
+  const currency = currencySchema.safeParse(value);
+  if (!currency.success || !Intl.supportedValuesOf("currency").includes(currency.data)) {
+    throw new Error(`DEFAULT_CURRENCY "${value}" is not a supported ISO 4217 currency code`);
+  }
+  return currency.data;
+}
+
+export interface PricedLine {
+  item: NewOrderItem;
+  product: Product;
+  variant?: ProductVariant;
+}
+
+export type PricedOrder =
+  | { ok: true; lines: PricedLine[]; totals: OrderTotals; currency: string }
+  | { ok: false; status: 400 | 404; message: string };
+
+// Resolves the products and variants of the requested lines, fills in unit
+// prices the agent left out from the variant or product price and computes
+// the totals. Products with options must be ordered by variant. All products
+// must share a currency, which becomes the order's.
+export async function priceOrder(inputs: OrderItemInput[], shippingFee: number): Promise<PricedOrder> {
+  const lines: PricedLine[] = [];
+  let currency: string | undefined;
+  for (let index = 0; index < inputs.length; index++) {
+    const input = inputs[index];
+    const product = await storage.getProduct(input.productId);
+    if (!product) {
+      return { ok: false, status: 404, message: `Product not found: ${input.productId}` };
+    }
+
+    currency ??= product.currency;
+    if (product.currency !== currency) {
+      return { ok: false, status: 400, message: `Item ${index + 1}: "${product.name}" is priced in ${product.currency}, not ${currency}` };
+    }
+
+    let variant: ProductVariant | undefined;
+    if (input.variantId) {
+      variant = await storage.getProductVariant(input.variantId);
+      if (!variant || variant.productId !== product.id) {
+        return { ok: false, status: 404, message: `Item ${index + 1}: variant not found: ${input.variantId}` };
+      }
+    } else if (product.options.length > 0) {
+      const names = product.options.map((option) => option.name).join(", ");
+      return { ok: false, status: 400, message: `Item ${index + 1}: choose a variant (${names}) of "${product.name}"` };
+    }
+
+    const unitPrice = input.unitPrice ?? variant?.price ?? product.price;
+    if (unitPrice === null) {
+      return { ok: false, status: 400, message: `Item ${index + 1}: "${product.name}" has no price, set a unit price` };
+    }
+    const item: NewOrderItem = {
+      productId: product.id,
+      variantId: variant?.id ?? null,
+      quantity: input.quantity,
+      unitPrice,
+      discount: input.discount,
+    };
+    if (lineTotal(item) < 0) {
+      return { ok: false, status: 400, message: `Item ${index + 1}: discount is larger than the line amount` };
+    }
+    lines.push({ item, product, variant });
+  }
+
+  return {
+    ok: true,
+    lines,
+    totals: computeOrderTotals(lines.map((line) => line.item), shippingFee),
+    currency: currency ?? getDefaultCurrency(),
+  };
+}
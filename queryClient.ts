@@ -1,4 +1,4 @@
-import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { QueryCache, QueryClient, QueryFunction, type QueryKey } from "@tanstack/react-query";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -23,13 +23,30 @@ export async function apiRequest<T = any>(
   return res.json();
 }
 
+// Joins the string parts of a query key into a path and turns a trailing
+// params object into a query string, e.g. ["/api/orders", { page: 2 }]
+export function buildQueryUrl(queryKey: QueryKey): string {
+  const last = queryKey[queryKey.length - 1];
+  const hasParams = typeof last === "object" && last !== null;
+  const path = (hasParams ? queryKey.slice(0, -1) : queryKey).join("/");
+  if (!hasParams) return path;
+
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(last as Record<string, unknown>)) {
+    if (value === undefined || value === null || value === "") continue;
+    search.set(key, value instanceof Date ? value.toISOString() : String(value));
+  }
+  const qs = search.toString();
+  return qs ? `${path}?${qs}` : path;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    const res = await fetch(buildQueryUrl(queryKey), {
       credentials: "include",
     });
 
@@ -41,7 +58,16 @@ export const getQueryFn: <T>(options: {
     return await res.json();
   };
 
-export const queryClient = new QueryClient({
+export const queryClient: QueryClient = new QueryClient({
+  queryCache: new QueryCache({
+    // An expired session makes any query fail with 401; forget the current
+    // user so the app falls back to the login page
+    onError: (error, query) => {
+      if (error.message.startsWith("401:") && query.queryKey[0] !== "/api/auth/me") {
+        queryClient.setQueryData(["/api/auth/me"], null);
+      }
+    },
+  }),
   defaultOptions: {
     queries: {
       queryFn: getQueryFn({ on401: "throw" }),
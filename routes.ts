@@ -2,69 +2,174 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import express from "express";
 import { storage } from "./storage";
-import multer from "multer";
-import OpenAI from "openai";
+import { setupAuth, requireAuth, requireRole } from "./auth";
+import { pickAgent, distributeUnassigned, getAgentWorkloads } from "./assignment";
+import { logCallAttempt } from "./calls";
+import { detectOrderRisks, mergeDuplicateOrder } from "./fraud";
+import { getDefaultPhoneRegion } from "./phone";
+import { findOrCreateCustomer, getCustomerStats } from "./customers";
+import { getDefaultCurrency, getDefaultShippingFee, priceOrder, type PricedLine } from "./pricing";
+import { checkVariantOptions, findVariantConflict } from "./variants";
+import { generateJson, getAIProvider } from "./ai";
+import { upload, uploadDir, removeUpload, readUploadAsDataUrl } from "./uploads";
+import { enqueueAnalysisJob, requeueAnalysisJob, startAnalysisWorkers } from "./analysis";
+import { setupLiveUpdates, broadcast, broadcastOrder, broadcastProduct, broadcastProductsById } from "./live";
+import {
+  describeStockShortages,
+  findStockShortages,
+  getLowStockThreshold,
+  getStockPolicy,
+  releaseOrderStock,
+  reserveOrderStock,
+  stockReleasingStatuses,
+} from "./inventory";
 import fs from "fs";
-import path from "path";
 import { Jimp } from "jimp";
-import type { ProductDescriptions, ProductBenefits, ProductFeatures, Language } from "@shared/schema";
-
-// the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
-// Lazy initialization to allow app to start without API key
-let openai: OpenAI | null = null;
-
-function getOpenAI(): OpenAI {
-  if (!openai) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("OPENAI_API_KEY environment variable is not set");
-    }
-    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
-  }
-  return openai;
-}
-
-// Configure multer for file uploads
-const uploadDir = path.join(process.cwd(), "uploads");
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
-const upload = multer({
-  storage: multer.diskStorage({
-    destination: uploadDir,
-    filename: (req, file, cb) => {
-      const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
-      cb(null, uniqueSuffix + path.extname(file.originalname));
-    },
-  }),
-  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
-  fileFilter: (req, file, cb) => {
-    if (file.mimetype.startsWith("image/")) {
-      cb(null, true);
-    } else {
-      cb(new Error("Only image files are allowed"));
-    }
+import { fromZodError } from "zod-validation-error";
+import {
+  assignOrderSchema,
+  canTransitionOrderStatus,
+  createCustomerSchema,
+  createOrderSchema,
+  customerListQuerySchema,
+  formatMoney,
+  insertBlacklistEntrySchema,
+  insertProductVariantSchema,
+  lineTotal,
+  logCallSchema,
+  marketingPostSchema,
+  marketingRequestSchema,
+  openOrderStatuses,
+  orderStatusReasonCodes,
+  orderListQuerySchema,
+  phoneNumberSchema,
+  productChatSchema,
+  productListQuerySchema,
+  regenerateSectionSchema,
+  regeneratedItemsSchema,
+  regeneratedTextSchema,
+  retryAnalysisJobSchema,
+  setStockSchema,
+  updateCustomerSchema,
+  updateOrderSchema,
+  updateProductOptionsSchema,
+  updateProductSchema,
+  updateProductVariantSchema,
+  variantLabel,
+  type AppConfig,
+  type CustomerProfile,
+  type Order,
+  type OrderItem,
+  type OrderItemEntry,
+  type OrderTotals,
+  type InsertProduct,
+  type Product,
+  type ProductLookup,
+  type ProductSection,
+  type ProductVariant,
+  type OrderStatusHistoryEntry,
+  type CallAttemptEntry,
+  type ChatMessage,
+  type ChatRole,
+  type ChatStreamEvent,
+  type InsertStockMovement,
+  type StockMovementEntry,
+  type ProductRevisionEntry,
+  type StockShortage,
+  type ProductBenefits,
+  type ProductFeatures,
+  type Language,
+} from "@shared/schema";
+
+// What the AI is asked for when regenerating each section, and the JSON it answers with
+const sectionPrompts: Record<ProductSection, { name: string; format: string }> = {
+  descriptions: {
+    name: "الوصف",
+    format: `{ "text": "وصف طويل وشامل ومفصل جداً للمنتج (200+ كلمة) يتضمن المواد والمزايا والاستخدامات" }`,
+  },
+  benefits: {
+    name: "الفوائد",
+    format: `{ "items": ["فائدة 1", "فائدة 2", "فائدة 3", "فائدة 4", "فائدة 5"] }`,
   },
-});
+  features: {
+    name: "الميزات",
+    format: `{ "items": ["ميزة 1", "ميزة 2", "ميزة 3", "ميزة 4", "ميزة 5", "ميزة 6"] }`,
+  },
+};
+
+const languageNames: Record<Language, string> = {
+  ar: "العربية",
+  en: "الإنجليزية",
+  fr: "الفرنسية",
+};
+
+// Earlier turns of a product chat sent along with each question
+const chatHistoryTurns = 20;
+
+// What the AI is told about a product before a chat: everything stored about
+// it, in every language
+function productChatContext(product: Product): string {
+  const price =
+    product.price === null
+      ? "غير محدد"
+      : `${product.price} ${product.currency}${product.compareAtPrice ? ` (قبل التخفيض: ${product.compareAtPrice} ${product.currency})` : ""}`;
+  const sections = (Object.keys(languageNames) as Language[]).flatMap((language) => {
+    const list = (items: string[] | undefined) => (items?.length ? items.map((item) => `- ${item}`).join("\n") : "لا يوجد");
+    return [
+      `الوصف (${languageNames[language]}):\n${product.descriptions[language] || "لا يوجد"}`,
+      `الفوائد (${languageNames[language]}):\n${list(product.benefits?.[language])}`,
+      `الميزات (${languageNames[language]}):\n${list(product.features?.[language])}`,
+    ];
+  });
+  return [`الاسم: ${product.name}`, `الفئة: ${product.category || "غير محددة"}`, `السعر: ${price}`, ...sections].join("\n\n");
+}
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  await setupAuth(app);
+  setupLiveUpdates(httpServer);
+
+  // Agents and admins can change data; viewers are read-only
+  const canEdit = requireRole("admin", "agent");
+  const adminOnly = requireRole("admin");
+
+  // Phone numbers without a country code are read in this region
+  const defaultPhoneRegion = getDefaultPhoneRegion();
+  // Currency of products that are not given one
+  const defaultCurrency = getDefaultCurrency();
+  // Whether orders can be confirmed without enough stock
+  const stockPolicy = getStockPolicy();
   
-  // Serve uploaded images
-  app.use("/uploads", (req, res, next) => {
-    res.setHeader("Cache-Control", "public, max-age=31536000");
+  // Serve uploaded images to logged-in users; "private" keeps shared caches
+  // from handing them to anyone else
+  app.use("/uploads", requireAuth, (req, res, next) => {
+    res.setHeader("Cache-Control", "private, max-age=31536000");
     next();
   });
   app.use("/uploads", express.static(uploadDir));
 
+  // Settings the client needs to format and validate input
+  app.get("/api/config", (_req: Request, res: Response) => {
+    const config: AppConfig = {
+      defaultPhoneRegion,
+      shippingFee: getDefaultShippingFee(),
+      currency: defaultCurrency,
+    };
+    res.json(config);
+  });
+
   // ==================== PRODUCTS ====================
   
-  // Get all products
+  // List products (paginated, filterable)
   app.get("/api/products", async (req: Request, res: Response) => {
     try {
-      const products = await storage.getProducts();
+      const query = productListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).toString() });
+      }
+      const products = await storage.listProducts(query.data);
       res.json(products);
     } catch (error) {
       console.error("Error fetching products:", error);
@@ -72,6 +177,29 @@ export async function registerRoutes(
     }
   });
 
+  // All products, sorted by name, for pickers that cannot page through them
+  app.get("/api/products/lookup", async (req: Request, res: Response) => {
+    try {
+      const products = await storage.getProducts();
+      const lookup: ProductLookup[] = products
+        .map(({ id, name, imageUrl, price, currency, options, trackStock, stock }) => ({
+          id,
+          name,
+          imageUrl,
+          price,
+          currency,
+          options,
+          trackStock,
+          stock,
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      res.json(lookup);
+    } catch (error) {
+      console.error("Error fetching product lookup:", error);
+      res.status(500).json({ message: "Failed to fetch products" });
+    }
+  });
+
   // Get single product
   app.get("/api/products/:id", async (req: Request, res: Response) => {
     try {
@@ -86,116 +214,43 @@ export async function registerRoutes(
     }
   });
 
-  // Analyze product image with AI
-  app.post("/api/products/analyze", upload.single("image"), async (req: Request, res: Response) => {
+  // Queue an uploaded image for analysis; GET /api/analysis-jobs/:id follows
+  // the job. A "force" field of "true" analyzes an image analyzed before anew.
+  app.post("/api/products/analyze", canEdit, upload.single("image"), async (req: Request, res: Response) => {
     try {
       if (!req.file) {
         return res.status(400).json({ message: "No image file provided" });
       }
 
-      const imagePath = req.file.path;
-      const imageUrl = `/uploads/${req.file.filename}`;
-
-      // Read image and convert to base64
-      const imageBuffer = fs.readFileSync(imagePath);
-      const base64Image = imageBuffer.toString("base64");
-      const mimeType = req.file.mimetype;
-
-      // Analyze image with OpenAI Vision
-      const analysisResponse = await getOpenAI().chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `أنت خبير تحليل المنتجات احترافي. حلل صورة المنتج بشكل مفصل جداً وأرجع JSON.
-أرجع هذا التنسيق بالضبط مع معلومات مفصلة وشاملة جداً:
-{
-  "name": "اسم المنتج",
-  "descriptions": {
-    "ar": "وصف طويل وشامل ومفصل جداً للمنتج بالعربية (200+ كلمة) يتضمن المواد والمزايا والاستخدامات",
-    "en": "Very detailed and comprehensive product description in English (200+ words) with materials, features and uses",
-    "fr": "Description très détaillée et complète du produit en français (200+ mots) avec matériaux, caractéristiques et usages"
-  },
-  "benefits": {
-    "ar": ["فائدة 1", "فائدة 2", "فائدة 3", "فائدة 4", "فائدة 5"],
-    "en": ["Benefit 1", "Benefit 2", "Benefit 3", "Benefit 4", "Benefit 5"],
-    "fr": ["Avantage 1", "Avantage 2", "Avantage 3", "Avantage 4", "Avantage 5"]
-  },
-  "features": {
-    "ar": ["ميزة 1", "ميزة 2", "ميزة 3", "ميزة 4", "ميزة 5", "ميزة 6"],
-    "en": ["Feature 1", "Feature 2", "Feature 3", "Feature 4", "Feature 5", "Feature 6"],
-    "fr": ["Caractéristique 1", "Caractéristique 2", "Caractéristique 3", "Caractéristique 4", "Caractéristique 5", "Caractéristique 6"]
-  },
-  "price": "السعر أو نطاق السعر",
-  "category": "فئة المنتج"
-}`,
-          },
-          {
-            role: "user",
-            content: [
-              {
-                type: "text",
-                text: "حلل صورة المنتج بشكل مفصل جداً وأعطني وصف طويل شامل (200+ كلمة) وفوائد عديدة (5+) وميزات (6+) في 3 لغات كـ JSON فقط",
-              },
-              {
-                type: "image_url",
-                image_url: {
-                  url: `data:${mimeType};base64,${base64Image}`,
-                },
-              },
-            ],
-          },
-        ],
-        max_completion_tokens: 2000,
-        temperature: 1,
-      });
-
-      const analysisContent = analysisResponse.choices[0]?.message?.content;
-      if (!analysisContent || analysisContent.trim().length === 0) {
-        console.error("OpenAI Response:", JSON.stringify(analysisResponse));
-        throw new Error("لم أتمكن من تحليل الصورة. تأكد من وضوح الصورة وحاول مرة أخرى.");
-      }
-
-      let analysis;
-      try {
-        // Remove markdown code blocks if present
-        let cleanContent = analysisContent.trim();
-        if (cleanContent.startsWith('```')) {
-          cleanContent = cleanContent.replace(/^```[\w]*\n?/, '').replace(/\n?```$/, '');
-        }
-        analysis = JSON.parse(cleanContent);
-      } catch (parseError) {
-        console.error("Failed to parse AI response:", analysisContent);
-        throw new Error("عذراً، لم تتمكن الخدمة من تحليل الصورة بشكل صحيح. حاول صورة أخرى.");
-      }
-
-      // Create product in storage
-      const product = await storage.createProduct({
-        name: analysis.name || "Unnamed Product",
-        imageUrl,
-        descriptions: analysis.descriptions as ProductDescriptions,
-        benefits: analysis.benefits || { ar: [], en: [], fr: [] },
-        features: analysis.features || { ar: [], en: [], fr: [] },
-        price: analysis.price || null,
-        category: analysis.category || null,
-      });
-
-      res.json(product);
-    } catch (error: any) {
-      console.error("Error analyzing product:", error);
-      res.status(500).json({ 
-        message: error.message || "Failed to analyze product image" 
+      const job = await enqueueAnalysisJob({
+        imageUrl: `/uploads/${req.file.filename}`,
+        fileName: req.file.originalname,
+        force: req.body.force === "true",
+        createdBy: req.user!.id,
       });
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Error queueing product analysis:", error);
+      res.status(500).json({ message: "Failed to queue product analysis" });
     }
   });
 
   // Update product
-  app.patch("/api/products/:id", async (req: Request, res: Response) => {
+  app.patch("/api/products/:id", adminOnly, async (req: Request, res: Response) => {
     try {
-      const product = await storage.updateProduct(req.params.id, req.body);
+      const parsed = updateProductSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const product = await storage.reviseProduct(req.params.id, parsed.data, {
+        source: "edited",
+        createdBy: req.user!.id,
+      });
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
+      broadcastProduct(product);
       res.json(product);
     } catch (error) {
       console.error("Error updating product:", error);
@@ -203,24 +258,96 @@ export async function registerRoutes(
     }
   });
 
-  // Delete product
-  app.delete("/api/products/:id", async (req: Request, res: Response) => {
+  // Regenerate one section of a product in one language from its image,
+  // leaving the rest of its content as it is
+  app.post("/api/products/:id/regenerate", canEdit, async (req: Request, res: Response) => {
     try {
+      const parsed = regenerateSectionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const { section, language, guidance } = parsed.data;
+
       const product = await storage.getProduct(req.params.id);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
+      const image = readUploadAsDataUrl(product.imageUrl);
+      if (!image) {
+        return res.status(409).json({ message: "The product's image is no longer available" });
+      }
 
-      // Delete image file
-      if (product.imageUrl.startsWith("/uploads/")) {
-        const filename = product.imageUrl.replace("/uploads/", "");
-        const filePath = path.join(uploadDir, filename);
-        if (fs.existsSync(filePath)) {
-          fs.unlinkSync(filePath);
-        }
+      const prompt = sectionPrompts[section];
+      const current =
+        section === "descriptions" ? product.descriptions[language] : (product[section]?.[language] ?? []).join("\n");
+
+      const request = {
+        system: `أنت خبير تحليل المنتجات احترافي. أعد كتابة ${prompt.name} للمنتج في الصورة باللغة ${languageNames[language]} فقط.
+أرجع JSON بهذا التنسيق بالضبط:
+${prompt.format}`,
+        prompt: `اسم المنتج: ${product.name}
+الفئة: ${product.category || "N/A"}
+${prompt.name} الحالي: ${current || "N/A"}
+${guidance ? `التوجيهات: ${guidance}` : ""}
+اكتب ${prompt.name} من جديد باللغة ${languageNames[language]}${guidance ? " مع اتباع التوجيهات" : ""}. أرجع JSON فقط.`,
+        image,
+        maxTokens: 1500,
+        temperature: 1,
+      };
+      const answer =
+        section === "descriptions"
+          ? await generateJson(regeneratedTextSchema, request)
+          : await generateJson(regeneratedItemsSchema, request);
+      if (!answer.ok) {
+        console.error("Invalid regenerated section:", JSON.stringify(answer.failures));
+        return res.status(502).json({
+          message: "عذراً، لم تتمكن الخدمة من إعادة توليد المحتوى بشكل صحيح. حاول مرة أخرى.",
+          failures: answer.failures,
+        });
+      }
+
+      const updates: Partial<InsertProduct> =
+        "text" in answer.data
+          ? { descriptions: { ...product.descriptions, [language]: answer.data.text } }
+          : {
+              [section]: {
+                ...(product[section] ?? { ar: [], en: [], fr: [] }),
+                [language]: answer.data.items,
+              },
+            };
+
+      const updated = await storage.reviseProduct(product.id, updates, {
+        source: "generated",
+        createdBy: req.user!.id,
+      });
+      if (!updated) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      broadcastProduct(updated);
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error regenerating product section:", error);
+      res.status(500).json({
+        message: error.message || "Failed to regenerate product content"
+      });
+    }
+  });
+
+  // Delete product
+  app.delete("/api/products/:id", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
       }
 
+      // Delete image files
+      removeUpload(product.imageUrl);
+      const variants = await storage.getProductVariants(product.id);
+      variants.forEach((variant) => removeUpload(variant.imageUrl));
+
       await storage.deleteProduct(req.params.id);
+      broadcast({ resource: "/api/products", action: "deleted", id: product.id });
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting product:", error);
@@ -229,20 +356,21 @@ export async function registerRoutes(
   });
 
   // Generate Meta marketing post
-  app.post("/api/products/:id/marketing", async (req: Request, res: Response) => {
+  app.post("/api/products/:id/marketing", canEdit, async (req: Request, res: Response) => {
     try {
-      const { language = "ar" } = req.body;
+      const parsed = marketingRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      const { language } = parsed.data;
+
       const product = await storage.getProduct(req.params.id);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
       }
 
-      const marketingResponse = await getOpenAI().chat.completions.create({
-        model: "gpt-4o",
-        messages: [
-          {
-            role: "system",
-            content: `أنت خبير تسويق متخصص في إنشاء منشورات إعلانية جذابة على Meta وFacebook لتحقيق أقصى مبيعات.
+      const marketing = await generateJson(marketingPostSchema, {
+        system: `أنت خبير تسويق متخصص في إنشاء منشورات إعلانية جذابة على Meta وFacebook لتحقيق أقصى مبيعات.
 أنشئ منشور إعلاني احترافي يركز على المزايا والفوائد ويثير الرغبة الشرائية.
 أرجع JSON بهذا التنسيق:
 {
@@ -251,40 +379,23 @@ export async function registerRoutes(
   "callToAction": "نص استدعاء للعمل مقنع",
   "salesTips": ["نصيحة بيعية 1", "نصيحة بيعية 2", "نصيحة بيعية 3"]
 }`,
-          },
-          {
-            role: "user",
-            content: `اسم المنتج: ${product.name}
-السعر: ${product.price || "N/A"}
+        prompt: `اسم المنتج: ${product.name}
+السعر: ${product.price !== null ? formatMoney(product.price, product.currency, language) : "N/A"}
 الفئة: ${product.category || "N/A"}
 الوصف: ${product.descriptions[language]}
-الفوائد: ${product.benefits[language]?.join(", ")}
-الميزات: ${product.features[language]?.join(", ")}
+الفوائد: ${product.benefits?.[language]?.join(", ") || "N/A"}
+الميزات: ${product.features?.[language]?.join(", ") || "N/A"}
 
 أنشئ منشور إعلاني Meta احترافي بلغة ${language === "ar" ? "العربية" : language === "fr" ? "الفرنسية" : "الإنجليزية"} يحقق أقصى مبيعات. أرجع JSON فقط.`,
-          },
-        ],
-        max_completion_tokens: 1000,
+        maxTokens: 1000,
         temperature: 0.7,
       });
-
-      const marketingContent = marketingResponse.choices[0]?.message?.content;
-      if (!marketingContent) {
-        throw new Error("لم أتمكن من توليد المنشور الإعلاني");
+      if (!marketing.ok) {
+        console.error("Invalid marketing post:", JSON.stringify(marketing.failures));
+        return res.status(502).json({ message: "خطأ في صيغة المنشور الإعلاني", failures: marketing.failures });
       }
 
-      let marketing;
-      try {
-        let cleanContent = marketingContent.trim();
-        if (cleanContent.startsWith('```')) {
-          cleanContent = cleanContent.replace(/^```[\w]*\n?/, '').replace(/\n?```$/, '');
-        }
-        marketing = JSON.parse(cleanContent);
-      } catch (parseError) {
-        throw new Error("خطأ في صيغة المنشور الإعلاني");
-      }
-
-      res.json(marketing);
+      res.json(marketing.data);
     } catch (error: any) {
       console.error("Error generating marketing post:", error);
       res.status(500).json({ 
@@ -294,7 +405,7 @@ export async function registerRoutes(
   });
 
   // Generate marketing post as PNG image
-  app.post("/api/products/:id/marketing-image", async (req: Request, res: Response) => {
+  app.post("/api/products/:id/marketing-image", canEdit, async (req: Request, res: Response) => {
     try {
       const { language = "ar", post, hashtags, callToAction } = req.body;
       
@@ -360,45 +471,115 @@ export async function registerRoutes(
     }
   });
 
-  // AI Chat about product
-  app.post("/api/products/:id/chat", async (req: Request, res: Response) => {
+  // The user's chat about a product, oldest first
+  app.get("/api/products/:id/chat", async (req: Request, res: Response) => {
     try {
-      const { question, language, productDescription } = req.body;
-      if (!question) {
-        return res.status(400).json({ message: "Question is required" });
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
       }
+      res.json(await storage.getChatMessages(product.id, req.user!.id));
+    } catch (error) {
+      console.error("Error fetching chat:", error);
+      res.status(500).json({ message: "Failed to fetch chat" });
+    }
+  });
+
+  // Ask the AI about a product, answered as a stream of Server-Sent Events.
+  // The question and the answer are added to the user's chat once answered, a
+  // stopped answer with what was written of it; failed questions are not kept.
+  app.post("/api/products/:id/chat", canEdit, async (req: Request, res: Response) => {
+    const parsed = productChatSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+    }
 
-      const response = await getOpenAI().chat.completions.create({
-        model: "gpt-4o",
+    let product: Product | undefined;
+    let history: ChatMessage[];
+    try {
+      product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      history = await storage.getChatMessages(product.id, req.user!.id);
+    } catch (error) {
+      console.error("Error in product chat:", error);
+      return res.status(500).json({ message: "Failed to process chat request" });
+    }
+
+    // Closing the connection, e.g. by leaving the page, stops the AI
+    const abort = new AbortController();
+    res.on("close", () => abort.abort());
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    const send = (event: ChatStreamEvent) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+
+    let answer = "";
+    const saveTurn = async () => {
+      const message = { productId: product!.id, userId: req.user!.id };
+      await storage.createChatMessage({ ...message, role: "user", content: parsed.data.question });
+      await storage.createChatMessage({ ...message, role: "assistant", content: answer });
+    };
+    try {
+      answer = await getAIProvider().streamChat({
         messages: [
           {
             role: "system",
-            content: `أنت مساعد متخصص في المنتجات. لديك وصف المنتج وعليك الإجابة على الأسئلة بناءً عليه. أجب بنفس لغة السؤال بشكل مختصر.
+            content: `أنت مساعد متخصص في المنتجات. أجب على الأسئلة بناءً على معلومات المنتج التالية. أجب بنفس لغة السؤال بشكل مختصر.
 
-وصف المنتج:
-${productDescription || "لا يوجد وصف"}`,
+معلومات المنتج:
+${productChatContext(product)}`,
           },
+          ...history.slice(-chatHistoryTurns * 2).map((message) => ({
+            role: message.role as ChatRole,
+            content: message.content,
+          })),
           {
             role: "user",
-            content: question,
+            content: parsed.data.question,
           },
         ],
         temperature: 0.7,
-        max_completion_tokens: 500,
+        maxTokens: 500,
+        onText: (text) => {
+          answer += text;
+          send({ type: "text", text });
+        },
+        signal: abort.signal,
       });
 
-      const answer = response.choices[0]?.message?.content || "Unable to generate response";
-      res.json({ answer });
+      answer = answer || "Unable to generate response";
+      await saveTurn();
+      send({ type: "done", answer });
     } catch (error: any) {
+      if (abort.signal.aborted) {
+        if (answer) await saveTurn().catch((saveError) => console.error("Error saving chat answer:", saveError));
+        return;
+      }
       console.error("Error in product chat:", error);
-      res.status(500).json({ 
-        message: error.message || "Failed to process chat request" 
-      });
+      send({ type: "error", message: error.message || "Failed to process chat request" });
+    }
+    res.end();
+  });
+
+  // Start the user's chat about a product over
+  app.delete("/api/products/:id/chat", async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteChatMessages(req.params.id, req.user!.id);
+      res.json({ deleted });
+    } catch (error) {
+      console.error("Error clearing chat:", error);
+      res.status(500).json({ message: "Failed to clear chat" });
     }
   });
 
   // Generate image from chat description
-  app.post("/api/products/:id/chat/generate-image", async (req: Request, res: Response) => {
+  app.post("/api/products/:id/chat/generate-image", canEdit, async (req: Request, res: Response) => {
     try {
       const { prompt, productName } = req.body;
       if (!prompt) {
@@ -434,19 +615,7 @@ ${productDescription || "لا يوجد وصف"}`,
 
 الآن أنشئ صورة احترافية عالية الجودة تتبع كل هذه المتطلبات بدقة.`;
 
-      const imageResponse = await getOpenAI().images.generate({
-        model: "dall-e-3",
-        prompt: premiumAdPrompt,
-        n: 1,
-        size: "1024x1024",
-        quality: "hd",
-      });
-
-      const imageUrl = imageResponse.data[0]?.url;
-      if (!imageUrl) {
-        throw new Error("Failed to generate image");
-      }
-
+      const imageUrl = await getAIProvider().generateImage({ prompt: premiumAdPrompt, size: "1024x1024" });
       res.json({ imageUrl });
     } catch (error: any) {
       console.error("Error generating image:", error);
@@ -477,12 +646,383 @@ ${productDescription || "لا يوجد وصف"}`,
     }
   });
 
+  // ==================== PRODUCT REVISIONS ====================
+
+  // Content of a product after each change, newest first
+  app.get("/api/products/:id/revisions", async (req: Request, res: Response) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const revisions = await storage.getProductRevisions(product.id);
+      const usernames = await getUsernames(revisions.map((revision) => revision.createdBy));
+      const entries: ProductRevisionEntry[] = revisions.map((revision) => ({
+        ...revision,
+        createdByName: revision.createdBy ? usernames.get(revision.createdBy) ?? null : null,
+      }));
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching product revisions:", error);
+      res.status(500).json({ message: "Failed to fetch product revisions" });
+    }
+  });
+
+  // Bring back a revision's content, recorded as a new revision
+  app.post("/api/products/:id/revisions/:revisionId/restore", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const revision = await storage.getProductRevision(req.params.revisionId);
+      if (!revision || revision.productId !== req.params.id) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const { benefits, features, ...content } = revision.content;
+      const product = await storage.reviseProduct(
+        revision.productId,
+        {
+          ...content,
+          benefits: benefits ?? { ar: [], en: [], fr: [] },
+          features: features ?? { ar: [], en: [], fr: [] },
+        },
+        { source: "restored", restoredFromId: revision.id, createdBy: req.user!.id },
+      );
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      broadcastProduct(product);
+      res.json(product);
+    } catch (error) {
+      console.error("Error restoring product revision:", error);
+      res.status(500).json({ message: "Failed to restore product revision" });
+    }
+  });
+
+  // ==================== ANALYSIS JOBS ====================
+
+  await startAnalysisWorkers();
+
+  // Status and progress of an image analysis
+  app.get("/api/analysis-jobs/:id", async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getAnalysisJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Analysis job not found" });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error("Error fetching analysis job:", error);
+      res.status(500).json({ message: "Failed to fetch analysis job" });
+    }
+  });
+
+  // Run a failed or finished job again; with "force", a duplicate image is
+  // analyzed anew instead of pointing to the existing product
+  app.post("/api/analysis-jobs/:id/retry", canEdit, async (req: Request, res: Response) => {
+    try {
+      const parsed = retryAnalysisJobSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const job = await storage.getAnalysisJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Analysis job not found" });
+      }
+      if (job.status === "queued" || job.status === "running") {
+        return res.status(409).json({ message: "The job has not finished yet" });
+      }
+      if (job.status === "succeeded" && !job.duplicate) {
+        return res.status(409).json({ message: "The job already created its product" });
+      }
+
+      res.json(await requeueAnalysisJob(job.id, parsed.data.force));
+    } catch (error) {
+      console.error("Error retrying analysis job:", error);
+      res.status(500).json({ message: "Failed to retry analysis job" });
+    }
+  });
+
+  // Forget a job, cancelling it if it has not started. Its image is deleted
+  // unless a product was created from it. Only whoever queued the job, or an
+  // admin, may delete it.
+  app.delete("/api/analysis-jobs/:id", canEdit, async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getAnalysisJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Analysis job not found" });
+      }
+      if (job.createdBy !== req.user!.id && req.user!.role !== "admin") {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+
+      // Checked again when deleting, since a worker may pick the job up meanwhile
+      if (!(await storage.deleteAnalysisJob(job.id))) {
+        return res.status(409).json({ message: "The job is running" });
+      }
+      if (!job.productId || job.duplicate) {
+        removeUpload(job.imageUrl);
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting analysis job:", error);
+      res.status(500).json({ message: "Failed to delete analysis job" });
+    }
+  });
+
+  // ==================== PRODUCT VARIANTS ====================
+
+  app.get("/api/products/:id/variants", async (req: Request, res: Response) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      res.json(await storage.getProductVariants(product.id));
+    } catch (error) {
+      console.error("Error fetching variants:", error);
+      res.status(500).json({ message: "Failed to fetch variants" });
+    }
+  });
+
+  // Replace the option definitions; existing variants must still fit them
+  app.put("/api/products/:id/options", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const parsed = updateProductOptionsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const { options } = parsed.data;
+      for (const variant of await storage.getProductVariants(product.id)) {
+        const problem = checkVariantOptions(options, variant.options);
+        if (problem) {
+          const label = variantLabel(variant, product.options);
+          return res.status(409).json({ message: `Variant "${label}" no longer fits: ${problem}` });
+        }
+      }
+
+      const updated = await storage.updateProduct(product.id, { options });
+      broadcastProduct(updated);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating product options:", error);
+      res.status(500).json({ message: "Failed to update product options" });
+    }
+  });
+
+  app.post("/api/products/:id/variants", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const parsed = insertProductVariantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const problem = checkVariantOptions(product.options, parsed.data.options);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      const conflict = await findVariantConflict(product, { options: parsed.data.options, sku: parsed.data.sku });
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
+      // Initial stock is recorded as a movement like any other change
+      const { stock, ...data } = parsed.data;
+      let variant = await storage.createProductVariant(product.id, { ...data, stock: 0 });
+      if (stock) {
+        await storage.recordStockMovements([
+          { productId: product.id, variantId: variant.id, change: stock, reason: "adjustment", createdBy: req.user!.id },
+        ]);
+        variant = (await storage.getProductVariant(variant.id))!;
+      }
+      // Variants are fetched with their product, so they refresh along with it
+      await broadcastProductsById([product.id]);
+      res.status(201).json(variant);
+    } catch (error) {
+      console.error("Error creating variant:", error);
+      res.status(500).json({ message: "Failed to create variant" });
+    }
+  });
+
+  app.patch("/api/products/:id/variants/:variantId", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const parsed = updateProductVariantSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const product = await storage.getProduct(req.params.id);
+      const variant = await storage.getProductVariant(req.params.variantId);
+      if (!product || !variant || variant.productId !== product.id) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+      const merged = { ...variant, ...parsed.data };
+      const problem = checkVariantOptions(product.options, merged.options);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      const conflict = await findVariantConflict(product, merged, variant.id);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
+      const updated = await storage.updateProductVariant(variant.id, parsed.data);
+      broadcastProduct(product);
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating variant:", error);
+      res.status(500).json({ message: "Failed to update variant" });
+    }
+  });
+
+  app.post(
+    "/api/products/:id/variants/:variantId/image",
+    adminOnly,
+    upload.single("image"),
+    async (req: Request, res: Response) => {
+      try {
+        if (!req.file) {
+          return res.status(400).json({ message: "No image file provided" });
+        }
+        const variant = await storage.getProductVariant(req.params.variantId);
+        if (!variant || variant.productId !== req.params.id) {
+          fs.unlinkSync(req.file.path);
+          return res.status(404).json({ message: "Variant not found" });
+        }
+
+        removeUpload(variant.imageUrl);
+        const updated = await storage.updateProductVariant(variant.id, { imageUrl: `/uploads/${req.file.filename}` });
+        await broadcastProductsById([variant.productId]);
+        res.json(updated);
+      } catch (error) {
+        console.error("Error uploading variant image:", error);
+        res.status(500).json({ message: "Failed to upload variant image" });
+      }
+    },
+  );
+
+  app.delete("/api/products/:id/variants/:variantId", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const variant = await storage.getProductVariant(req.params.variantId);
+      if (!variant || variant.productId !== req.params.id) {
+        return res.status(404).json({ message: "Variant not found" });
+      }
+      removeUpload(variant.imageUrl);
+      await storage.deleteProductVariant(variant.id);
+      await broadcastProductsById([variant.productId]);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting variant:", error);
+      res.status(500).json({ message: "Failed to delete variant" });
+    }
+  });
+
+  // ==================== INVENTORY ====================
+
+  // Set the stock of a product, or of one of its variants, recording the
+  // difference as an adjustment
+  app.post("/api/products/:id/stock", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const parsed = setStockSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+      const { variantId, stock, note } = parsed.data;
+      let current = product.stock;
+      if (variantId) {
+        const variant = await storage.getProductVariant(variantId);
+        if (!variant || variant.productId !== product.id) {
+          return res.status(404).json({ message: "Variant not found" });
+        }
+        current = variant.stock;
+      } else if (product.options.length > 0) {
+        return res.status(400).json({ message: "Products with options keep their stock per variant, give a variantId" });
+      }
+
+      if (stock === current) {
+        return res.json({ movement: null, stock });
+      }
+      const [movement] = await storage.recordStockMovements([
+        {
+          productId: product.id,
+          variantId: variantId || null,
+          change: stock - current,
+          reason: "adjustment",
+          note: note || null,
+          createdBy: req.user!.id,
+        },
+      ]);
+      await broadcastProductsById([product.id]);
+      res.json({ movement, stock });
+    } catch (error) {
+      console.error("Error setting stock:", error);
+      res.status(500).json({ message: "Failed to set stock" });
+    }
+  });
+
+  // Stock movements of a product and its variants, newest first
+  app.get("/api/products/:id/stock-movements", async (req: Request, res: Response) => {
+    try {
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Product not found" });
+      }
+
+      const [movements, variants] = await Promise.all([
+        storage.getStockMovements({ productId: product.id }),
+        storage.getProductVariants(product.id),
+      ]);
+      const usernames = await getUsernames(movements.map((movement) => movement.createdBy));
+
+      const entries: StockMovementEntry[] = movements.map((movement) => {
+        const variant = variants.find((v) => v.id === movement.variantId);
+        return {
+          ...movement,
+          variantLabel: variant ? variantLabel(variant, product.options) : null,
+          createdByName: movement.createdBy ? usernames.get(movement.createdBy) ?? null : null,
+        };
+      });
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  // Products and variants running low, lowest first
+  app.get("/api/inventory/low-stock", async (_req: Request, res: Response) => {
+    try {
+      res.json(await storage.getLowStock(getLowStockThreshold()));
+    } catch (error) {
+      console.error("Error fetching low stock:", error);
+      res.status(500).json({ message: "Failed to fetch low stock" });
+    }
+  });
+
   // ==================== ORDERS ====================
 
-  // Get all orders
+  // List orders (paginated, filterable)
   app.get("/api/orders", async (req: Request, res: Response) => {
     try {
-      const orders = await storage.getOrders();
+      const query = orderListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).toString() });
+      }
+      const orders = await storage.listOrders(query.data);
       res.json(orders);
     } catch (error) {
       console.error("Error fetching orders:", error);
@@ -490,6 +1030,81 @@ ${productDescription || "لا يوجد وصف"}`,
     }
   });
 
+  // Number of orders in each status
+  app.get("/api/orders/status-counts", async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getOrderStatusCounts());
+    } catch (error) {
+      console.error("Error fetching order status counts:", error);
+      res.status(500).json({ message: "Failed to fetch order status counts" });
+    }
+  });
+
+  // Current agent's queue of open orders, oldest first
+  app.get("/api/queue", canEdit, async (req: Request, res: Response) => {
+    try {
+      const query = orderListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).toString() });
+      }
+      const queue = await storage.listOrders({
+        ...query.data,
+        assignedTo: req.user!.id,
+        status: openOrderStatuses,
+        sort: "createdAt",
+        order: "asc",
+      });
+      res.json(queue);
+    } catch (error) {
+      console.error("Error fetching queue:", error);
+      res.status(500).json({ message: "Failed to fetch queue" });
+    }
+  });
+
+  // Open orders whose callback time has come, most overdue first. Agents see
+  // their own callbacks, admins everyone's.
+  app.get("/api/callbacks", canEdit, async (req: Request, res: Response) => {
+    try {
+      const query = orderListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).toString() });
+      }
+      const callbacks = await storage.listOrders({
+        ...query.data,
+        assignedTo: req.user!.role === "admin" ? query.data.assignedTo : req.user!.id,
+        status: openOrderStatuses,
+        callbackBefore: new Date(),
+        sort: "callbackAt",
+        order: "asc",
+      });
+      res.json(callbacks);
+    } catch (error) {
+      console.error("Error fetching callbacks:", error);
+      res.status(500).json({ message: "Failed to fetch callbacks" });
+    }
+  });
+
+  // Open and total orders per agent
+  app.get("/api/agents/workload", adminOnly, async (req: Request, res: Response) => {
+    try {
+      res.json(await getAgentWorkloads());
+    } catch (error) {
+      console.error("Error fetching agent workload:", error);
+      res.status(500).json({ message: "Failed to fetch agent workload" });
+    }
+  });
+
+  // Assign every unassigned open order to an agent
+  app.post("/api/orders/distribute", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const assigned = await distributeUnassigned();
+      res.json({ assigned });
+    } catch (error) {
+      console.error("Error distributing orders:", error);
+      res.status(500).json({ message: "Failed to distribute orders" });
+    }
+  });
+
   // Get single order
   app.get("/api/orders/:id", async (req: Request, res: Response) => {
     try {
@@ -505,43 +1120,57 @@ ${productDescription || "لا يوجد وصف"}`,
   });
 
   // Create order
-  app.post("/api/orders", async (req: Request, res: Response) => {
+  app.post("/api/orders", canEdit, async (req: Request, res: Response) => {
     try {
-      const { productId, customerName, customerPhone, customerAddress, customerCity, notes, quantity, language } = req.body;
-
-      if (!productId || !customerName || !customerPhone) {
-        return res.status(400).json({ message: "Missing required fields" });
+      const parsed = createOrderSchema(defaultPhoneRegion).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
       }
 
-      // Get product for confirmation script
-      const product = await storage.getProduct(productId);
-      if (!product) {
-        return res.status(404).json({ message: "Product not found" });
+      const { customerName, customerPhone, customerAddress, customerCity, notes, language, items, shippingFee } = parsed.data;
+
+      const priced = await priceOrder(items, shippingFee ?? getDefaultShippingFee());
+      if (!priced.ok) {
+        return res.status(priced.status).json({ message: priced.message });
       }
+      const { lines, totals, currency } = priced;
+      // Not enough stock never stops an order from being taken, only confirmed
+      const stockShortages = await findStockShortages(lines.map((line) => line.item));
 
       // Generate confirmation script
-      const confirmationScript = generateConfirmationScript(product, {
-        customerName,
-        customerPhone,
-        customerAddress,
-        customerCity,
-        quantity: quantity || 1,
-      }, language || "ar");
-
-      const order = await storage.createOrder({
-        productId,
+      const confirmationScript = generateConfirmationScript(lines, totals, currency, {
         customerName,
-        customerPhone,
-        customerAddress,
-        customerCity,
-        notes,
-        quantity: quantity || 1,
-        status: "pending",
-        language: language || "ar",
-        confirmationScript,
-      });
-
-      res.json(order);
+        customerAddress: customerAddress ?? undefined,
+        customerCity: customerCity ?? undefined,
+      }, language);
+
+      const risks = await detectOrderRisks({ customerPhone, productIds: lines.map((line) => line.product.id) });
+      const customer = await findOrCreateCustomer({ customerName, customerPhone, customerAddress, customerCity });
+
+      const order = await storage.createOrder(
+        {
+          productId: lines[0].product.id,
+          customerId: customer.id,
+          customerName,
+          customerPhone,
+          customerAddress,
+          customerCity,
+          notes,
+          quantity: lines.reduce((sum, line) => sum + line.item.quantity, 0),
+          status: "pending",
+          language,
+          confirmationScript,
+          assignedTo: await pickAgent(),
+          ...totals,
+          currency,
+          ...risks,
+        },
+        lines.map((line) => line.item),
+        req.user!.id,
+      );
+
+      broadcastOrder(order, "created");
+      res.json({ ...order, stockShortages });
     } catch (error) {
       console.error("Error creating order:", error);
       res.status(500).json({ message: "Failed to create order" });
@@ -549,26 +1178,269 @@ ${productDescription || "لا يوجد وصف"}`,
   });
 
   // Update order
-  app.patch("/api/orders/:id", async (req: Request, res: Response) => {
+  app.patch("/api/orders/:id", canEdit, async (req: Request, res: Response) => {
     try {
-      const order = await storage.updateOrder(req.params.id, req.body);
+      const parsed = updateOrderSchema
+        .extend({ customerPhone: phoneNumberSchema(defaultPhoneRegion).optional() })
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const { status, reasonCode, reason, ...updates } = parsed.data;
+      let order = await storage.getOrder(req.params.id);
+      let stockShortages: StockShortage[] = [];
       if (!order) {
         return res.status(404).json({ message: "Order not found" });
       }
-      res.json(order);
+
+      if (status && status !== order.status) {
+        if (!canTransitionOrderStatus(order.status, status)) {
+          return res.status(409).json({
+            message: `Cannot change order status from "${order.status}" to "${status}"`,
+          });
+        }
+        if (reasonCode && !orderStatusReasonCodes[status]?.includes(reasonCode)) {
+          return res.status(400).json({ message: `Reason code "${reasonCode}" does not apply to status "${status}"` });
+        }
+
+        // Confirming reserves the items' stock, cancelling or returning gives it back
+        let stock: InsertStockMovement[] = [];
+        if (status === "confirmed") {
+          const items = await storage.getOrderItems(order.id);
+          stock = await reserveOrderStock(order.id, items, req.user!.id);
+          if (stockPolicy === "warn") {
+            stockShortages = await findStockShortages(items);
+          }
+        } else if (stockReleasingStatuses.includes(status)) {
+          stock = await releaseOrderStock(order.id, req.user!.id);
+        }
+
+        const change = {
+          orderId: order.id,
+          fromStatus: order.status,
+          toStatus: status,
+          changedBy: req.user!.id,
+          reasonCode: reasonCode || null,
+          reason: reason || null,
+        };
+        if (status === "confirmed" && stockPolicy === "block") {
+          // Checked as the stock is taken, so two orders cannot both get the last units
+          const result = await storage.changeOrderStatusIfInStock(change, stock);
+          if (result.stockShortages.length > 0) {
+            return res.status(409).json({
+              message: `Not enough stock: ${describeStockShortages(result.stockShortages)}`,
+              stockShortages: result.stockShortages,
+            });
+          }
+          order = result.order;
+        } else {
+          order = await storage.changeOrderStatus(change, stock);
+        }
+        if (!order) {
+          return res.status(409).json({ message: "Order status was changed by someone else, reload and try again" });
+        }
+        await broadcastProductsById(stock.map((movement) => movement.productId));
+      }
+
+      const changes: Partial<Order> = updates;
+      if (updates.customerPhone && updates.customerPhone !== order.customerPhone) {
+        const customer = await findOrCreateCustomer({ ...order, ...updates, customerPhone: updates.customerPhone });
+        changes.customerId = customer.id;
+      }
+      if (Object.keys(changes).length > 0) {
+        order = await storage.updateOrder(order.id, changes);
+      }
+      broadcastOrder(order);
+      res.json({ ...order, stockShortages });
     } catch (error) {
       console.error("Error updating order:", error);
       res.status(500).json({ message: "Failed to update order" });
     }
   });
 
-  // Delete order
-  app.delete("/api/orders/:id", async (req: Request, res: Response) => {
+  // Items of an order, in line order, with their product and variant
+  app.get("/api/orders/:id/items", async (req: Request, res: Response) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const lines = await getOrderLines(order.id);
+      const entries: OrderItemEntry[] = lines.map(({ item, product, variant }) => ({
+        ...item,
+        productName: product?.name ?? null,
+        variantLabel: product && variant ? variantLabel(variant, product.options) : null,
+        sku: variant?.sku ?? null,
+        imageUrl: variant?.imageUrl || product?.imageUrl || null,
+      }));
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching order items:", error);
+      res.status(500).json({ message: "Failed to fetch order items" });
+    }
+  });
+
+  // Status history of an order, oldest first
+  app.get("/api/orders/:id/history", async (req: Request, res: Response) => {
     try {
-      const deleted = await storage.deleteOrder(req.params.id);
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const history = await storage.getOrderStatusHistory(order.id);
+      const usernames = await getUsernames(history.map((change) => change.changedBy));
+
+      const entries: OrderStatusHistoryEntry[] = history.map((change) => ({
+        ...change,
+        changedByName: change.changedBy ? usernames.get(change.changedBy) ?? null : null,
+      }));
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching order history:", error);
+      res.status(500).json({ message: "Failed to fetch order history" });
+    }
+  });
+
+  // Calls made for an order, oldest first
+  app.get("/api/orders/:id/calls", async (req: Request, res: Response) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const attempts = await storage.getCallAttempts(order.id);
+      const usernames = await getUsernames(attempts.map((attempt) => attempt.agentId));
+
+      const entries: CallAttemptEntry[] = attempts.map((attempt) => ({
+        ...attempt,
+        agentName: attempt.agentId ? usernames.get(attempt.agentId) ?? null : null,
+      }));
+      res.json(entries);
+    } catch (error) {
+      console.error("Error fetching call attempts:", error);
+      res.status(500).json({ message: "Failed to fetch call attempts" });
+    }
+  });
+
+  // Log a call; may schedule a callback and move the order to no_answer / call_back_later
+  app.post("/api/orders/:id/calls", canEdit, async (req: Request, res: Response) => {
+    try {
+      const parsed = logCallSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const result = await logCallAttempt(order, req.user!.id, parsed.data);
+      broadcastOrder(result.order);
+      res.status(201).json(result);
+    } catch (error) {
+      console.error("Error logging call:", error);
+      res.status(500).json({ message: "Failed to log call" });
+    }
+  });
+
+  // Fold a flagged duplicate into the order it duplicates
+  app.post("/api/orders/:id/merge", canEdit, async (req: Request, res: Response) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (!order.duplicateOfId) {
+        return res.status(400).json({ message: "Order is not flagged as a duplicate" });
+      }
+      if (!canTransitionOrderStatus(order.status, "duplicate")) {
+        return res.status(409).json({ message: `Cannot merge an order with status "${order.status}"` });
+      }
+
+      const original = await storage.getOrder(order.duplicateOfId);
+      if (!original) {
+        return res.status(404).json({ message: "Original order not found" });
+      }
+
+      const merged = await mergeDuplicateOrder(order, original, req.user!.id);
+      broadcastOrder(merged.original);
+      broadcastOrder(merged.order);
+      res.json(merged);
+    } catch (error) {
+      console.error("Error merging order:", error);
+      res.status(500).json({ message: "Failed to merge order" });
+    }
+  });
+
+  // Mark an order's risk flags as reviewed
+  app.post("/api/orders/:id/dismiss-flags", canEdit, async (req: Request, res: Response) => {
+    try {
+      const order = await storage.updateOrder(req.params.id, { flagsReviewedAt: new Date() });
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      broadcastOrder(order);
+      res.json(order);
+    } catch (error) {
+      console.error("Error dismissing order flags:", error);
+      res.status(500).json({ message: "Failed to dismiss order flags" });
+    }
+  });
+
+  // Reassign an order to another agent, or unassign it with userId null
+  app.post("/api/orders/:id/assign", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const parsed = assignOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const { userId } = parsed.data;
+      if (userId) {
+        const assignee = await storage.getUser(userId);
+        if (!assignee || assignee.role === "viewer") {
+          return res.status(400).json({ message: "Orders can only be assigned to agents or admins" });
+        }
+      }
+
+      const order = await storage.updateOrder(req.params.id, {
+        assignedTo: userId,
+        assignedAt: userId ? new Date() : null,
+      });
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      broadcastOrder(order);
+      res.json(order);
+    } catch (error) {
+      console.error("Error assigning order:", error);
+      res.status(500).json({ message: "Failed to assign order" });
+    }
+  });
+
+  // Delete order, giving back whatever stock it holds
+  app.delete("/api/orders/:id", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      const stock = await releaseOrderStock(order.id, req.user!.id);
+      const deleted = await storage.deleteOrder(
+        order.id,
+        stock.map((movement) => ({ ...movement, note: "Order deleted" })),
+      );
       if (!deleted) {
         return res.status(404).json({ message: "Order not found" });
       }
+      await broadcastProductsById(stock.map((movement) => movement.productId));
+      broadcast({ resource: "/api/orders", action: "deleted", id: req.params.id });
       res.json({ success: true });
     } catch (error) {
       console.error("Error deleting order:", error);
@@ -584,9 +1456,9 @@ ${productDescription || "لا يوجد وصف"}`,
         return res.status(404).json({ message: "Order not found" });
       }
 
-      const product = await storage.getProduct(order.productId);
+      const lines = await getOrderLines(order.id);
       const lang = (req.query.lang as Language) || "ar";
-      const pdfContent = generateOrderPDF(order, product, lang);
+      const pdfContent = generateOrderPDF(order, lines, lang);
       
       res.setHeader("Content-Type", "text/html");
       res.setHeader("Content-Disposition", `attachment; filename="order-${order.id}.html"`);
@@ -597,28 +1469,185 @@ ${productDescription || "لا يوجد وصف"}`,
     }
   });
 
+  // ==================== CUSTOMERS ====================
+
+  // List customers, paginated; search matches name or phone
+  app.get("/api/customers", async (req: Request, res: Response) => {
+    try {
+      const query = customerListQuerySchema.safeParse(req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: fromZodError(query.error).toString() });
+      }
+      res.json(await storage.listCustomers(query.data));
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+      res.status(500).json({ message: "Failed to fetch customers" });
+    }
+  });
+
+  // Customer with delivery and refusal stats over all their orders
+  app.get("/api/customers/:id", async (req: Request, res: Response) => {
+    try {
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      const orders = await storage.getOrdersByCustomer(customer.id);
+      const profile: CustomerProfile = { ...customer, stats: getCustomerStats(orders) };
+      res.json(profile);
+    } catch (error) {
+      console.error("Error fetching customer:", error);
+      res.status(500).json({ message: "Failed to fetch customer" });
+    }
+  });
+
+  // Orders of a customer, newest first
+  app.get("/api/customers/:id/orders", async (req: Request, res: Response) => {
+    try {
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json(await storage.getOrdersByCustomer(customer.id));
+    } catch (error) {
+      console.error("Error fetching customer orders:", error);
+      res.status(500).json({ message: "Failed to fetch customer orders" });
+    }
+  });
+
+  app.post("/api/customers", canEdit, async (req: Request, res: Response) => {
+    try {
+      const parsed = createCustomerSchema(defaultPhoneRegion).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      if (await storage.getCustomerByPhone(parsed.data.phone)) {
+        return res.status(409).json({ message: "A customer with this phone number already exists" });
+      }
+
+      const customer = await storage.createCustomer(parsed.data);
+      res.status(201).json(customer);
+    } catch (error) {
+      console.error("Error creating customer:", error);
+      res.status(500).json({ message: "Failed to create customer" });
+    }
+  });
+
+  app.patch("/api/customers/:id", canEdit, async (req: Request, res: Response) => {
+    try {
+      const parsed = updateCustomerSchema(defaultPhoneRegion).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+
+      const customer = await storage.getCustomer(req.params.id);
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      if (parsed.data.phone && parsed.data.phone !== customer.phone) {
+        if (await storage.getCustomerByPhone(parsed.data.phone)) {
+          return res.status(409).json({ message: "A customer with this phone number already exists" });
+        }
+      }
+
+      res.json(await storage.updateCustomer(customer.id, parsed.data));
+    } catch (error) {
+      console.error("Error updating customer:", error);
+      res.status(500).json({ message: "Failed to update customer" });
+    }
+  });
+
+  app.delete("/api/customers/:id", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteCustomer(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting customer:", error);
+      res.status(500).json({ message: "Failed to delete customer" });
+    }
+  });
+
+  // ==================== PHONE BLACKLIST ====================
+
+  app.get("/api/blacklist", adminOnly, async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getBlacklist());
+    } catch (error) {
+      console.error("Error fetching blacklist:", error);
+      res.status(500).json({ message: "Failed to fetch blacklist" });
+    }
+  });
+
+  app.post("/api/blacklist", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const parsed = insertBlacklistEntrySchema
+        .extend({ phone: phoneNumberSchema(defaultPhoneRegion) })
+        .safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: fromZodError(parsed.error).toString() });
+      }
+      if (await storage.getBlacklistEntryByPhone(parsed.data.phone)) {
+        return res.status(409).json({ message: "Phone number is already blacklisted" });
+      }
+
+      const entry = await storage.createBlacklistEntry({ ...parsed.data, createdBy: req.user!.id });
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error("Error blacklisting phone:", error);
+      res.status(500).json({ message: "Failed to blacklist phone" });
+    }
+  });
+
+  app.delete("/api/blacklist/:id", adminOnly, async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteBlacklistEntry(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Blacklist entry not found" });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing blacklist entry:", error);
+      res.status(500).json({ message: "Failed to remove blacklist entry" });
+    }
+  });
+
   return httpServer;
 }
 
 // Helper function to generate confirmation script
 function generateConfirmationScript(
-  product: any,
-  customer: { customerName: string; customerPhone: string; customerAddress?: string; customerCity?: string; quantity: number },
+  lines: PricedLine[],
+  totals: OrderTotals,
+  currency: string,
+  customer: { customerName: string; customerAddress?: string; customerCity?: string },
   lang: Language
 ): string {
+  const money = (amount: number) => formatMoney(amount, currency, lang);
+  const itemList = lines
+    .map(({ item, product, variant }) => {
+      const name = variant ? `${product.name} (${variantLabel(variant, product.options)})` : product.name;
+      return `- ${name} × ${item.quantity}: ${money(lineTotal(item))}`;
+    })
+    .join("\n");
+  // Only single-product orders get the product pitch, longer orders would bury the totals
+  const description = lines.length === 1 ? lines[0].product.descriptions[lang] : "";
+
   const scripts: Record<Language, string> = {
     ar: `
 السلام عليكم ${customer.customerName}،
 
-أشكرك على اهتمامك بمنتجنا.
+أشكرك على اهتمامك بمنتجاتنا.
 
 تفاصيل طلبك:
-المنتج: ${product.name}
-الكمية: ${customer.quantity}
-${product.price ? `السعر: ${product.price}` : ""}
+${itemList}
 
-وصف المنتج:
-${product.descriptions.ar}
+المجموع الفرعي: ${money(totals.subtotal)}${totals.discountTotal > 0 ? `\nالخصم: -${money(totals.discountTotal)}` : ""}${totals.shippingFee > 0 ? `\nالشحن: ${money(totals.shippingFee)}` : ""}
+الإجمالي: ${money(totals.total)}
+
+${description ? `وصف المنتج:\n${description}` : ""}
 
 ${customer.customerCity ? `المدينة: ${customer.customerCity}` : ""}
 ${customer.customerAddress ? `العنوان: ${customer.customerAddress}` : ""}
@@ -632,15 +1661,15 @@ ${customer.customerAddress ? `العنوان: ${customer.customerAddress}` : ""}
     en: `
 Hello ${customer.customerName},
 
-Thank you for your interest in our product.
+Thank you for your interest in our products.
 
 Order Details:
-Product: ${product.name}
-Quantity: ${customer.quantity}
-${product.price ? `Price: ${product.price}` : ""}
+${itemList}
+
+Subtotal: ${money(totals.subtotal)}${totals.discountTotal > 0 ? `\nDiscount: -${money(totals.discountTotal)}` : ""}${totals.shippingFee > 0 ? `\nShipping: ${money(totals.shippingFee)}` : ""}
+Total: ${money(totals.total)}
 
-Product Description:
-${product.descriptions.en}
+${description ? `Product Description:\n${description}` : ""}
 
 ${customer.customerCity ? `City: ${customer.customerCity}` : ""}
 ${customer.customerAddress ? `Address: ${customer.customerAddress}` : ""}
@@ -654,15 +1683,15 @@ Thank you for your trust.
     fr: `
 Bonjour ${customer.customerName},
 
-Merci pour votre intérêt pour notre produit.
+Merci pour votre intérêt pour nos produits.
 
 Détails de la commande:
-Produit: ${product.name}
-Quantité: ${customer.quantity}
-${product.price ? `Prix: ${product.price}` : ""}
+${itemList}
 
-Description du produit:
-${product.descriptions.fr}
+Sous-total: ${money(totals.subtotal)}${totals.discountTotal > 0 ? `\nRemise: -${money(totals.discountTotal)}` : ""}${totals.shippingFee > 0 ? `\nLivraison: ${money(totals.shippingFee)}` : ""}
+Total: ${money(totals.total)}
+
+${description ? `Description du produit:\n${description}` : ""}
 
 ${customer.customerCity ? `Ville: ${customer.customerCity}` : ""}
 ${customer.customerAddress ? `Adresse: ${customer.customerAddress}` : ""}
@@ -674,7 +1703,8 @@ Merci pour votre confiance.
     `.trim(),
   };
 
-  return scripts[lang];
+  // Drop the blank lines left by the optional rows
+  return scripts[lang].replace(/\n{3,}/g, "\n\n");
 }
 
 // Helper function to generate product PDF (HTML format for easy printing)
@@ -742,10 +1772,13 @@ function generateProductPDF(product: any, lang: Language): string {
       <span class="detail-label">${t.name}:</span>
       <span class="detail-value">${product.name}</span>
     </div>
-    ${product.price ? `
+    ${product.price !== null ? `
     <div class="detail-row">
       <span class="detail-label">${t.price}:</span>
-      <span class="detail-value">${product.price}</span>
+      <span class="detail-value">
+        ${formatMoney(product.price, product.currency, lang)}
+        ${product.compareAtPrice !== null && product.compareAtPrice > product.price ? `<s style="color: #9ca3af; margin-inline-start: 8px;">${formatMoney(product.compareAtPrice, product.currency, lang)}</s>` : ""}
+      </span>
     </div>` : ""}
     ${product.category ? `
     <div class="detail-row">
@@ -767,8 +1800,34 @@ function generateProductPDF(product: any, lang: Language): string {
   `.trim();
 }
 
+// Maps user ids to usernames, skipping nulls and users that no longer exist
+async function getUsernames(ids: (string | null)[]): Promise<Map<string, string>> {
+  const unique = Array.from(new Set(ids.filter((id): id is string => !!id)));
+  const users = await Promise.all(unique.map((id) => storage.getUser(id)));
+  return new Map(users.filter((user) => !!user).map((user) => [user!.id, user!.username]));
+}
+
+interface OrderLine {
+  item: OrderItem;
+  product: Product | undefined;
+  variant: ProductVariant | undefined;
+}
+
+// Items of an order with their product and variant, either of which may have
+// been deleted since
+async function getOrderLines(orderId: string): Promise<OrderLine[]> {
+  const items = await storage.getOrderItems(orderId);
+  return Promise.all(
+    items.map(async (item) => ({
+      item,
+      product: await storage.getProduct(item.productId),
+      variant: item.variantId ? await storage.getProductVariant(item.variantId) : undefined,
+    })),
+  );
+}
+
 // Helper function to generate order PDF
-function generateOrderPDF(order: any, product: any, lang: Language): string {
+function generateOrderPDF(order: Order, lines: OrderLine[], lang: Language): string {
   const isRTL = lang === "ar";
   const labels: Record<Language, any> = {
     ar: {
@@ -780,9 +1839,28 @@ function generateOrderPDF(order: any, product: any, lang: Language): string {
       quantity: "الكمية",
       status: "الحالة",
       product: "المنتج",
+      items: "المنتجات",
+      unitPrice: "سعر الوحدة",
+      discount: "الخصم",
+      lineTotal: "المجموع",
+      subtotal: "المجموع الفرعي",
+      shippingFee: "الشحن",
+      total: "الإجمالي",
       date: "التاريخ",
       script: "سكربت التأكيد",
-      statuses: { pending: "قيد الانتظار", confirmed: "مؤكد", cancelled: "ملغي", delivered: "تم التوصيل" },
+      statuses: {
+        pending: "قيد الانتظار",
+        no_answer: "لا يوجد رد",
+        call_back_later: "إعادة الاتصال لاحقاً",
+        wrong_number: "رقم خاطئ",
+        duplicate: "مكرر",
+        confirmed: "مؤكد",
+        shipped: "تم الشحن",
+        delivered: "تم التوصيل",
+        refused: "مرفوض عند الاستلام",
+        returned: "مرتجع",
+        cancelled: "ملغي",
+      },
     },
     en: {
       order: "Order Details",
@@ -793,9 +1871,28 @@ function generateOrderPDF(order: any, product: any, lang: Language): string {
       quantity: "Quantity",
       status: "Status",
       product: "Product",
+      items: "Items",
+      unitPrice: "Unit Price",
+      discount: "Discount",
+      lineTotal: "Line Total",
+      subtotal: "Subtotal",
+      shippingFee: "Shipping",
+      total: "Total",
       date: "Date",
       script: "Confirmation Script",
-      statuses: { pending: "Pending", confirmed: "Confirmed", cancelled: "Cancelled", delivered: "Delivered" },
+      statuses: {
+        pending: "Pending",
+        no_answer: "No answer",
+        call_back_later: "Call back later",
+        wrong_number: "Wrong number",
+        duplicate: "Duplicate",
+        confirmed: "Confirmed",
+        shipped: "Shipped",
+        delivered: "Delivered",
+        refused: "Refused at door",
+        returned: "Returned",
+        cancelled: "Cancelled",
+      },
     },
     fr: {
       order: "Détails de la Commande",
@@ -806,13 +1903,33 @@ function generateOrderPDF(order: any, product: any, lang: Language): string {
       quantity: "Quantité",
       status: "Statut",
       product: "Produit",
+      items: "Articles",
+      unitPrice: "Prix Unitaire",
+      discount: "Remise",
+      lineTotal: "Total Ligne",
+      subtotal: "Sous-total",
+      shippingFee: "Livraison",
+      total: "Total",
       date: "Date",
       script: "Script de Confirmation",
-      statuses: { pending: "En attente", confirmed: "Confirmé", cancelled: "Annulé", delivered: "Livré" },
+      statuses: {
+        pending: "En attente",
+        no_answer: "Pas de réponse",
+        call_back_later: "À rappeler",
+        wrong_number: "Mauvais numéro",
+        duplicate: "Doublon",
+        confirmed: "Confirmé",
+        shipped: "Expédié",
+        delivered: "Livré",
+        refused: "Refusé à la livraison",
+        returned: "Retourné",
+        cancelled: "Annulé",
+      },
     },
   };
 
   const t = labels[lang];
+  const money = (amount: number) => formatMoney(amount, order.currency, lang);
 
   return `
 <!DOCTYPE html>
@@ -830,14 +1947,23 @@ function generateOrderPDF(order: any, product: any, lang: Language): string {
     .detail-row { display: flex; margin-bottom: 12px; padding: 10px; background: #f9fafb; border-radius: 6px; }
     .detail-label { font-weight: bold; min-width: 140px; color: #6b7280; }
     .detail-value { flex: 1; }
-    .product-info { display: flex; gap: 20px; padding: 15px; background: #f0f9ff; border-radius: 8px; margin-bottom: 20px; }
-    .product-image { width: 100px; height: 100px; object-fit: cover; border-radius: 6px; }
-    .product-details { flex: 1; }
+    .items { width: 100%; border-collapse: collapse; margin-bottom: 15px; }
+    .items th, .items td { padding: 10px; text-align: start; border-bottom: 1px solid #e5e7eb; }
+    .items th { background: #f0f9ff; color: #374151; font-size: 14px; }
+    .items .product-image { width: 48px; height: 48px; object-fit: cover; border-radius: 6px; vertical-align: middle; margin-inline-end: 10px; }
+    .totals .detail-row:last-child { background: #f0f9ff; font-weight: bold; }
     .status { display: inline-block; padding: 4px 12px; border-radius: 20px; font-size: 12px; font-weight: bold; }
     .status-pending { background: #fef3c7; color: #92400e; }
+    .status-no_answer { background: #ffedd5; color: #9a3412; }
+    .status-call_back_later { background: #e0e7ff; color: #3730a3; }
+    .status-wrong_number { background: #fce7f3; color: #9d174d; }
+    .status-duplicate { background: #f3f4f6; color: #374151; }
     .status-confirmed { background: #d1fae5; color: #065f46; }
-    .status-cancelled { background: #fee2e2; color: #991b1b; }
+    .status-shipped { background: #cffafe; color: #155e75; }
     .status-delivered { background: #dbeafe; color: #1e40af; }
+    .status-refused { background: #ffe4e6; color: #9f1239; }
+    .status-returned { background: #ede9fe; color: #5b21b6; }
+    .status-cancelled { background: #fee2e2; color: #991b1b; }
     .script { margin-top: 20px; padding: 20px; background: #f9fafb; border-radius: 8px; white-space: pre-wrap; line-height: 1.8; font-size: 14px; }
     .footer { text-align: center; margin-top: 40px; padding-top: 20px; border-top: 2px solid #eee; color: #9ca3af; font-size: 12px; }
     @media print { body { padding: 20px; } }
@@ -848,18 +1974,53 @@ function generateOrderPDF(order: any, product: any, lang: Language): string {
     <h1>${t.order}</h1>
   </div>
   
-  ${product ? `
   <div class="section">
-    <div class="section-title">${t.product}</div>
-    <div class="product-info">
-      <img src="${product.imageUrl}" alt="${product.name}" class="product-image">
-      <div class="product-details">
-        <h3>${product.name}</h3>
-        ${product.price ? `<p style="color: #6b7280; margin-top: 5px;">${product.price}</p>` : ""}
+    <div class="section-title">${t.items}</div>
+    <table class="items">
+      <thead>
+        <tr>
+          <th>${t.product}</th>
+          <th>${t.quantity}</th>
+          <th>${t.unitPrice}</th>
+          <th>${t.discount}</th>
+          <th>${t.lineTotal}</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${lines.map(({ item, product, variant }) => `
+        <tr>
+          <td>
+            ${product ? `<img src="${variant?.imageUrl || product.imageUrl}" alt="" class="product-image">${product.name}` : item.productId}
+            ${product && variant ? `<br><small>${variantLabel(variant, product.options)}${variant.sku ? ` · ${variant.sku}` : ""}</small>` : ""}
+          </td>
+          <td>${item.quantity}</td>
+          <td>${money(item.unitPrice)}</td>
+          <td>${item.discount > 0 ? `-${money(item.discount)}` : ""}</td>
+          <td>${money(lineTotal(item))}</td>
+        </tr>`).join("")}
+      </tbody>
+    </table>
+    <div class="totals">
+      <div class="detail-row">
+        <span class="detail-label">${t.subtotal}:</span>
+        <span class="detail-value">${money(order.subtotal)}</span>
+      </div>
+      ${order.discountTotal > 0 ? `
+      <div class="detail-row">
+        <span class="detail-label">${t.discount}:</span>
+        <span class="detail-value">-${money(order.discountTotal)}</span>
+      </div>` : ""}
+      ${order.shippingFee > 0 ? `
+      <div class="detail-row">
+        <span class="detail-label">${t.shippingFee}:</span>
+        <span class="detail-value">${money(order.shippingFee)}</span>
+      </div>` : ""}
+      <div class="detail-row">
+        <span class="detail-label">${t.total}:</span>
+        <span class="detail-value">${money(order.total)}</span>
       </div>
     </div>
   </div>
-  ` : ""}
 
   <div class="section">
     <div class="detail-row">
@@ -880,10 +2041,6 @@ function generateOrderPDF(order: any, product: any, lang: Language): string {
       <span class="detail-label">${t.address}:</span>
       <span class="detail-value">${order.customerAddress}</span>
     </div>` : ""}
-    <div class="detail-row">
-      <span class="detail-label">${t.quantity}:</span>
-      <span class="detail-value">${order.quantity}</span>
-    </div>
     <div class="detail-row">
       <span class="detail-label">${t.status}:</span>
       <span class="detail-value">
@@ -0,0 +1,130 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  canTransitionOrderStatus,
+  computeOrderTotals,
+  createOrderSchema,
+  lineTotal,
+  orderReasonCodeEnum,
+  orderStatusEnum,
+  orderStatusReasonCodes,
+  orderStatusTransitions,
+  phoneNumberSchema,
+} from "@shared/schema";
+
+describe("order status transitions", () => {
+  it("allows only the listed changes", () => {
+    assert.equal(canTransitionOrderStatus("pending", "confirmed"), true);
+    assert.equal(canTransitionOrderStatus("confirmed", "shipped"), true);
+    assert.equal(canTransitionOrderStatus("cancelled", "pending"), true);
+    assert.equal(canTransitionOrderStatus("pending", "shipped"), false);
+    assert.equal(canTransitionOrderStatus("delivered", "cancelled"), false);
+    assert.equal(canTransitionOrderStatus("shipped", "shipped"), false);
+  });
+
+  it("keeps returned orders final", () => {
+    for (const status of orderStatusEnum.options) {
+      assert.equal(canTransitionOrderStatus("returned", status), false);
+    }
+  });
+
+  it("refuses statuses it does not know", () => {
+    assert.equal(canTransitionOrderStatus("archived", "pending"), false);
+  });
+
+  it("lists every status, and only known statuses as targets", () => {
+    assert.deepEqual(Object.keys(orderStatusTransitions).sort(), [...orderStatusEnum.options].sort());
+    for (const targets of Object.values(orderStatusTransitions)) {
+      targets.forEach((target) => assert.ok(orderStatusEnum.options.includes(target)));
+    }
+  });
+
+  it("gives reason codes only to statuses an order can move to", () => {
+    const reachable = new Set(Object.values(orderStatusTransitions).flat());
+    for (const [status, codes] of Object.entries(orderStatusReasonCodes)) {
+      assert.ok(reachable.has(status as never), status);
+      assert.ok(codes.length > 0, status);
+      assert.equal(new Set(codes).size, codes.length, status);
+      codes.forEach((code) => assert.ok(orderReasonCodeEnum.options.includes(code)));
+    }
+    assert.equal(orderStatusReasonCodes.confirmed, undefined);
+  });
+});
+
+describe("phoneNumberSchema", () => {
+  it("normalizes common formats to E.164", () => {
+    const schema = phoneNumberSchema("MA");
+    assert.equal(schema.parse("06 12 34 56 78"), "+212612345678");
+    assert.equal(schema.parse(" +212612345678 "), "+212612345678");
+    assert.equal(schema.parse("00212 612-345678"), "+212612345678");
+  });
+
+  it("reads numbers without a country code in the given region", () => {
+    assert.equal(phoneNumberSchema("FR").parse("06 12 34 56 78"), "+33612345678");
+  });
+
+  it("rejects empty and invalid numbers", () => {
+    const schema = phoneNumberSchema("MA");
+    assert.equal(schema.safeParse("  ").success, false);
+    const invalid = schema.safeParse("12345");
+    assert.equal(invalid.success, false);
+    assert.match(invalid.error!.issues[0].message, /"12345" is not a valid phone number/);
+  });
+});
+
+describe("order totals", () => {
+  it("takes line discounts off the whole line", () => {
+    assert.equal(lineTotal({ quantity: 3, unitPrice: 10, discount: 5 }), 25);
+    assert.equal(lineTotal({ quantity: 2, unitPrice: 10 }), 20);
+  });
+
+  it("adds up lines, discounts and shipping, rounded to cents", () => {
+    const totals = computeOrderTotals(
+      [
+        { quantity: 2, unitPrice: 19.99, discount: 5 },
+        { quantity: 1, unitPrice: 0.1 },
+      ],
+      30,
+    );
+    assert.deepEqual(totals, { subtotal: 40.08, discountTotal: 5, shippingFee: 30, total: 65.08 });
+  });
+
+  it("is all zero without lines or shipping", () => {
+    assert.deepEqual(computeOrderTotals([], 0), { subtotal: 0, discountTotal: 0, shippingFee: 0, total: 0 });
+  });
+});
+
+describe("createOrderSchema", () => {
+  const customer = { customerName: "Amina", customerPhone: "0612345678" };
+
+  it("reads a body with items", () => {
+    const parsed = createOrderSchema("MA").parse({
+      ...customer,
+      language: "fr",
+      items: [{ productId: "p1", quantity: "2", unitPrice: 50 }],
+      shippingFee: 20,
+    });
+    assert.equal(parsed.customerPhone, "+212612345678");
+    assert.equal(parsed.language, "fr");
+    assert.deepEqual(parsed.items, [{ productId: "p1", quantity: 2, unitPrice: 50, discount: 0 }]);
+    assert.equal(parsed.shippingFee, 20);
+  });
+
+  it("reads a legacy single-product body as one item", () => {
+    const parsed = createOrderSchema("MA").parse({ ...customer, productId: "p1", quantity: 3 });
+    assert.deepEqual(parsed.items, [{ productId: "p1", quantity: 3, discount: 0 }]);
+    assert.equal(parsed.language, "ar");
+  });
+
+  it("defaults the quantity of a legacy body to one", () => {
+    const parsed = createOrderSchema("MA").parse({ ...customer, productId: "p1" });
+    assert.deepEqual(parsed.items, [{ productId: "p1", quantity: 1, discount: 0 }]);
+  });
+
+  it("rejects orders without items, and unknown languages", () => {
+    const schema = createOrderSchema("MA");
+    assert.equal(schema.safeParse(customer).success, false);
+    assert.equal(schema.safeParse({ ...customer, items: [] }).success, false);
+    assert.equal(schema.safeParse({ ...customer, productId: "p1", language: "xx" }).success, false);
+  });
+});
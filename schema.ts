@@ -1,7 +1,48 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, boolean, jsonb, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { parsePhoneNumberFromString, type CountryCode } from "libphonenumber-js";
+
+// Money amounts: numeric(12, 2) in PostgreSQL, which node-postgres returns as
+// strings, and plain numbers everywhere else
+const money = customType<{ data: number; driverData: string }>({
+  dataType() {
+    return "numeric(12, 2)";
+  },
+  fromDriver(value) {
+    return Number(value);
+  },
+});
+
+// Rounds to whole cents so sums of amounts do not drift
+export function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+// Currency of amounts nobody gave one for; the server's is DEFAULT_CURRENCY
+export const DEFAULT_CURRENCY = "MAD";
+
+// ISO 4217 code such as MAD, EUR or USD
+export const currencySchema = z
+  .string()
+  .trim()
+  .toUpperCase()
+  .regex(/^[A-Z]{3}$/, "Currency must be an ISO 4217 code such as MAD");
+
+// Supported languages
+export const languageSchema = z.enum(["ar", "en", "fr"]);
+
+// Locale for dates and amounts in each interface language
+export const languageLocales: Record<Language, string> = {
+  ar: "ar-MA",
+  en: "en-US",
+  fr: "fr-FR",
+};
+
+export function formatMoney(amount: number, currency: string, language: Language): string {
+  return new Intl.NumberFormat(languageLocales[language], { style: "currency", currency }).format(amount);
+}
 
 // Product descriptions in all three languages
 export const productDescriptions = z.object({
@@ -30,6 +71,26 @@ export const productFeatures = z.object({
 
 export type ProductFeatures = z.infer<typeof productFeatures>;
 
+// Option a product comes in, e.g. { name: "Size", values: ["40", "41", "42"] }
+export const productOptionSchema = z.object({
+  name: z.string().trim().min(1, "Option name is required").max(40),
+  values: z
+    .array(z.string().trim().min(1))
+    .min(1, "An option needs at least one value")
+    .max(50)
+    .refine((values) => new Set(values).size === values.length, "Option values must be unique"),
+});
+
+export type ProductOption = z.infer<typeof productOptionSchema>;
+
+export const productOptionsSchema = z
+  .array(productOptionSchema)
+  .max(3)
+  .refine((options) => new Set(options.map((option) => option.name)).size === options.length, "Option names must be unique");
+
+// Body of PUT /api/products/:id/options
+export const updateProductOptionsSchema = z.object({ options: productOptionsSchema });
+
 // Product table
 export const products = pgTable("products", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -38,30 +99,401 @@ export const products = pgTable("products", {
   descriptions: jsonb("descriptions").$type<ProductDescriptions>().notNull(),
   benefits: jsonb("benefits").$type<ProductBenefits>().default({ar: [], en: [], fr: []}),
   features: jsonb("features").$type<ProductFeatures>().default({ar: [], en: [], fr: []}),
-  price: text("price"),
+  // Selling price, null until the product is priced
+  price: money("price_amount"),
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
+  // Former price, shown struck through when higher than the price
+  compareAtPrice: money("compare_at_price"),
+  // Free-text price from before prices were structured, e.g. "200-300 درهم";
+  // kept for reference, see script/migrate-product-prices.ts
+  priceText: text("price"),
   category: text("category"),
+  // What variants are made of; a product with options is ordered by variant
+  options: jsonb("options").$type<ProductOption[]>().notNull().default([]),
+  // Stock is only checked and reserved for products that track it, on the
+  // product itself or, for products with options, on each variant
+  trackStock: boolean("track_stock").notNull().default(false),
+  stock: integer("stock").notNull().default(0),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Stock levels change through stock movements only, see setStockSchema
 export const insertProductSchema = createInsertSchema(products).omit({
   id: true,
+  stock: true,
   createdAt: true,
 }).extend({
+  name: z.string().trim().min(1, "Name is required").max(200),
+  descriptions: productDescriptions,
   benefits: productBenefits.optional().default({ ar: [], en: [], fr: [] }),
   features: productFeatures.optional().default({ ar: [], en: [], fr: [] }),
+  price: z.number().min(0).nullish(),
+  currency: currencySchema.optional(),
+  compareAtPrice: z.number().min(0).nullish(),
+  category: z.string().trim().max(100).nullish(),
+  options: productOptionsSchema.optional().default([]),
+});
+
+// Body of PATCH /api/products/:id. Options change through PUT
+// /api/products/:id/options, since existing variants must still fit them; the
+// image is the one uploaded for analysis and is not changed afterwards.
+export const updateProductSchema = insertProductSchema
+  .omit({ options: true, priceText: true, imageUrl: true })
+  .partial();
+
+export type UpdateProduct = z.infer<typeof updateProductSchema>;
+
+// One combination of a product's option values, e.g. size 42 in black
+export const productVariants = pgTable("product_variants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  // Value of each of the product's options, by option name
+  options: jsonb("options").$type<Record<string, string>>().notNull(),
+  sku: text("sku").unique(),
+  // Overrides the product's price when set
+  price: money("price"),
+  stock: integer("stock").notNull().default(0),
+  // Overrides the product's image when set
+  imageUrl: text("image_url"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// The image is set by uploading it, see POST /api/products/:id/variants/:variantId/image
+export const insertProductVariantSchema = createInsertSchema(productVariants)
+  .omit({
+    id: true,
+    productId: true,
+    imageUrl: true,
+    createdAt: true,
+  })
+  .extend({
+    options: z.record(z.string().trim().min(1)),
+    sku: z
+      .string()
+      .trim()
+      .max(64)
+      .nullish()
+      .transform((sku) => sku || null),
+    price: z.number().min(0).nullish(),
+    stock: z.number().int().min(0).optional(),
+  });
+
+// Stock is changed with POST /api/products/:id/stock once the variant exists
+export const updateProductVariantSchema = insertProductVariantSchema.omit({ stock: true }).partial();
+
+export type InsertProductVariant = z.infer<typeof insertProductVariantSchema>;
+export type ProductVariant = typeof productVariants.$inferSelect;
+
+// Values of a variant in the order of the product's options, e.g. "42 / Black"
+export function variantLabel(variant: Pick<ProductVariant, "options">, options: ProductOption[]): string {
+  return options
+    .map((option) => variant.options[option.name])
+    .filter(Boolean)
+    .join(" / ");
+}
+
+// Name of what stock is kept on, e.g. "Sneakers (42 / Black)" for a variant
+export function stockItemName(product: Pick<Product, "name" | "options">, variant?: Pick<ProductVariant, "options">): string {
+  return variant ? `${product.name} (${variantLabel(variant, product.options)})` : product.name;
+}
+
+// Price suggested by the AI when analyzing a product image
+export const suggestedPriceSchema = z.object({
+  amount: z.coerce.number().min(0),
+  currency: currencySchema,
+  compareAtPrice: z.coerce.number().min(0).nullish(),
+});
+
+// Generated text and lists must not leave a language empty
+const generatedText = z.string().trim().min(1);
+const generatedList = z.array(generatedText).min(1);
+
+// What the AI answers when analyzing a product image. The price is optional:
+// one the AI could not structure is left for an admin to set.
+export const productAnalysisSchema = z.object({
+  name: generatedText,
+  descriptions: productDescriptions.extend({ ar: generatedText, en: generatedText, fr: generatedText }),
+  benefits: productBenefits.extend({ ar: generatedList, en: generatedList, fr: generatedList }),
+  features: productFeatures.extend({ ar: generatedList, en: generatedList, fr: generatedList }),
+  price: z.unknown().optional(),
+  category: z.string().trim().nullish(),
+});
+
+export type ProductAnalysis = z.infer<typeof productAnalysisSchema>;
+
+// Meta marketing post generated for a product
+export const marketingPostSchema = z.object({
+  post: generatedText,
+  hashtags: generatedList,
+  callToAction: generatedText,
+  salesTips: z.array(generatedText).default([]),
+});
+
+export type MarketingPost = z.infer<typeof marketingPostSchema>;
+
+// Body of POST /api/products/:id/marketing
+export const marketingRequestSchema = z.object({
+  language: languageSchema.default("ar"),
 });
 
+// Server-Sent Events of POST /api/products/:id/chat: pieces of the answer as
+// the AI writes it, then the whole answer or what went wrong
+export type ChatStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "done"; answer: string }
+  | { type: "error"; message: string };
+
 export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type Product = typeof products.$inferSelect;
 
-// Order status enum
-export const orderStatusEnum = z.enum(["pending", "confirmed", "cancelled", "delivered"]);
+// Every product, with what picking one for an order needs, from
+// GET /api/products/lookup
+export type ProductLookup = Pick<
+  Product,
+  "id" | "name" | "imageUrl" | "price" | "currency" | "options" | "trackStock" | "stock"
+>;
+
+// What a product revision keeps: the text and price an edit or the AI can change
+export type ProductContent = Pick<
+  Product,
+  "name" | "descriptions" | "benefits" | "features" | "price" | "currency" | "compareAtPrice"
+>;
+
+export function productContent(product: ProductContent): ProductContent {
+  return {
+    name: product.name,
+    descriptions: product.descriptions,
+    benefits: product.benefits,
+    features: product.features,
+    price: product.price,
+    currency: product.currency,
+    compareAtPrice: product.compareAtPrice,
+  };
+}
+
+// How a revision came about: "original" is the content a product had before
+// its first recorded change
+export const productRevisionSourceEnum = z.enum(["original", "generated", "edited", "restored"]);
+export type ProductRevisionSource = z.infer<typeof productRevisionSourceEnum>;
+
+// A product's content after each change to it
+export const productRevisions = pgTable("product_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  content: jsonb("content").$type<ProductContent>().notNull(),
+  source: text("source").notNull(),
+  // Revision brought back, for "restored" revisions
+  restoredFromId: varchar("restored_from_id"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertProductRevisionSchema = createInsertSchema(productRevisions)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    source: productRevisionSourceEnum,
+  });
+
+export type InsertProductRevision = z.infer<typeof insertProductRevisionSchema>;
+export type ProductRevision = typeof productRevisions.$inferSelect;
+
+// Revision as returned by the API, with the username of whoever made it
+export type ProductRevisionEntry = ProductRevision & { createdByName: string | null };
+
+export const chatRoleEnum = z.enum(["user", "assistant"]);
+export type ChatRole = z.infer<typeof chatRoleEnum>;
+
+// Turns of a user's conversation with the AI about a product; every user has
+// their own conversation with each product
+export const chatMessages = pgTable("chat_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  role: text("role").notNull(),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertChatMessageSchema = createInsertSchema(chatMessages)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    role: chatRoleEnum,
+  });
+
+export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+
+// Body of POST /api/products/:id/chat; the server supplies the product and
+// the conversation so far
+export const productChatSchema = z.object({
+  question: z.string().trim().min(1, "Question is required").max(2000),
+});
+
+// AI analysis of an uploaded product image, kept under the SHA-256 of the
+// image's bytes so that uploading the same photo again is not analyzed again
+export const imageAnalyses = pgTable("image_analyses", {
+  hash: varchar("hash").primaryKey(),
+  analysis: jsonb("analysis").$type<ProductAnalysis>().notNull(),
+  // Product last created from the image; it may have been deleted since
+  productId: varchar("product_id"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertImageAnalysisSchema = createInsertSchema(imageAnalyses)
+  .omit({
+    updatedAt: true,
+  })
+  .extend({
+    analysis: productAnalysisSchema,
+  });
+
+export type InsertImageAnalysis = z.infer<typeof insertImageAnalysisSchema>;
+export type ImageAnalysis = typeof imageAnalyses.$inferSelect;
+
+// "queued" also covers a failed attempt waiting for its retry
+export const analysisJobStatusEnum = z.enum(["queued", "running", "succeeded", "failed"]);
+export type AnalysisJobStatus = z.infer<typeof analysisJobStatusEnum>;
+
+// Analysis of an uploaded product image, done in the background by the
+// workers in server/analysis.ts
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  status: text("status").notNull().default("queued"),
+  // Percent done, as reported by the worker
+  progress: integer("progress").notNull().default(0),
+  imageUrl: text("image_url").notNull(),
+  // Name of the file as uploaded
+  fileName: text("file_name").notNull(),
+  // Analyze the image even if it was analyzed before
+  force: boolean("force").notNull().default(false),
+  attempts: integer("attempts").notNull().default(0),
+  // When the job may next be picked up, later than now while waiting for a retry
+  runAt: timestamp("run_at").defaultNow().notNull(),
+  // Why the last attempt failed
+  error: text("error"),
+  // Product created, or the existing one for a duplicate
+  productId: varchar("product_id"),
+  // The image was analyzed before and its product still exists
+  duplicate: boolean("duplicate").notNull().default(false),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertAnalysisJobSchema = createInsertSchema(analysisJobs).pick({
+  imageUrl: true,
+  fileName: true,
+  force: true,
+  createdBy: true,
+});
+
+export type InsertAnalysisJob = z.infer<typeof insertAnalysisJobSchema>;
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+
+// Body of POST /api/analysis-jobs/:id/retry
+export const retryAnalysisJobSchema = z.object({
+  force: z.boolean().default(false),
+});
+
+// Part of a product's AI content that can be regenerated on its own
+export const productSectionEnum = z.enum(["descriptions", "benefits", "features"]);
+export type ProductSection = z.infer<typeof productSectionEnum>;
+
+// Body of POST /api/products/:id/regenerate: one section in one language, with
+// optional guidance for the AI such as "shorter" or "focus on durability"
+export const regenerateSectionSchema = z.object({
+  section: productSectionEnum,
+  language: languageSchema,
+  guidance: z.string().trim().max(300).optional(),
+});
+
+export type RegenerateSection = z.infer<typeof regenerateSectionSchema>;
+
+// What the AI answers with when regenerating a section: the text of a
+// description, or the items of benefits and features
+export const regeneratedTextSchema = z.object({ text: generatedText });
+export const regeneratedItemsSchema = z.object({ items: generatedList });
+
+// Order status enum, in workflow order: confirmation calls, then shipping
+export const orderStatusEnum = z.enum([
+  "pending",
+  "no_answer",
+  "call_back_later",
+  "wrong_number",
+  "duplicate",
+  "confirmed",
+  "shipped",
+  "delivered",
+  "refused",
+  "returned",
+  "cancelled",
+]);
 export type OrderStatus = z.infer<typeof orderStatusEnum>;
 
+// Statuses that still need work from a confirmation agent
+export const openOrderStatuses: OrderStatus[] = ["pending", "no_answer", "call_back_later"];
+
+// Allowed status changes. Wrong numbers, duplicates and cancelled orders can be
+// reopened; returned orders are final, delivered ones can only come back as returns.
+export const orderStatusTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "no_answer", "call_back_later", "wrong_number", "duplicate", "cancelled"],
+  no_answer: ["confirmed", "call_back_later", "wrong_number", "cancelled"],
+  call_back_later: ["confirmed", "no_answer", "wrong_number", "cancelled"],
+  wrong_number: ["pending", "cancelled"],
+  duplicate: ["pending", "cancelled"],
+  confirmed: ["shipped", "cancelled"],
+  shipped: ["delivered", "refused", "returned"],
+  delivered: ["returned"],
+  refused: ["returned"],
+  returned: [],
+  cancelled: ["pending"],
+};
+
+// Why an order was cancelled, refused or returned
+export const orderReasonCodeEnum = z.enum([
+  "changed_mind",
+  "price_too_high",
+  "ordered_elsewhere",
+  "out_of_stock",
+  "cannot_pay",
+  "not_as_expected",
+  "damaged",
+  "wrong_item",
+  "undeliverable",
+  "other",
+]);
+export type OrderReasonCode = z.infer<typeof orderReasonCodeEnum>;
+
+// Reason codes that apply to each status; statuses not listed take none
+export const orderStatusReasonCodes: Partial<Record<OrderStatus, OrderReasonCode[]>> = {
+  cancelled: ["changed_mind", "price_too_high", "ordered_elsewhere", "out_of_stock", "other"],
+  refused: ["changed_mind", "cannot_pay", "not_as_expected", "other"],
+  returned: ["damaged", "wrong_item", "not_as_expected", "undeliverable", "other"],
+};
+
+export function canTransitionOrderStatus(from: string, to: OrderStatus): boolean {
+  return orderStatusTransitions[from as OrderStatus]?.includes(to) ?? false;
+}
+
+// Why an order was flagged for review when it was created
+export const orderRiskFlagEnum = z.enum(["duplicate", "blacklisted", "high_refusal_rate"]);
+export type OrderRiskFlag = z.infer<typeof orderRiskFlagEnum>;
+
 // Order table
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Product of the first item and the number of units over all items, kept
+  // on the order for lists and filters; the items are in order_items
   productId: varchar("product_id").notNull(),
+  // The customer is linked by phone number when the order is created; the
+  // customer fields below are a copy as given for this order
+  customerId: varchar("customer_id"),
   customerName: text("customer_name").notNull(),
   customerPhone: text("customer_phone").notNull(),
   customerAddress: text("customer_address"),
@@ -71,35 +503,525 @@ export const orders = pgTable("orders", {
   status: text("status").notNull().default("pending"),
   confirmationScript: text("confirmation_script"),
   language: text("language").notNull().default("ar"),
+  // Confirmation agent responsible for calling the customer
+  assignedTo: varchar("assigned_to"),
+  assignedAt: timestamp("assigned_at"),
+  // Next scheduled call, set from the call log
+  callbackAt: timestamp("callback_at"),
+  // Set by the duplicate and fraud detector; the order stays flagged until
+  // someone reviews it (merge or dismiss)
+  riskFlags: jsonb("risk_flags").$type<OrderRiskFlag[]>().default([]).notNull(),
+  duplicateOfId: varchar("duplicate_of_id"),
+  flagsReviewedAt: timestamp("flags_reviewed_at"),
+  // Computed by the server from the items, see computeOrderTotals
+  subtotal: money("subtotal").notNull().default(0),
+  discountTotal: money("discount_total").notNull().default(0),
+  shippingFee: money("shipping_fee").notNull().default(0),
+  total: money("total").notNull().default(0),
+  // Currency of the order's amounts, that of its products
+  currency: text("currency").notNull().default(DEFAULT_CURRENCY),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
   createdAt: true,
+  customerId: true,
   confirmationScript: true,
+  assignedAt: true,
+  callbackAt: true,
+  riskFlags: true,
+  duplicateOfId: true,
+  flagsReviewedAt: true,
+  subtotal: true,
+  discountTotal: true,
+  shippingFee: true,
+  total: true,
+  currency: true,
 });
 
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
 
-// Users table (keeping from template)
+// Region used for phone numbers typed without a country code, unless the
+// server is configured otherwise
+export const DEFAULT_PHONE_REGION: CountryCode = "MA";
+
+// Accepts a phone number in any common format ("06 12 34 56 78",
+// "+212612345678", "00212 612-345678") and normalizes it to E.164
+export function phoneNumberSchema(defaultRegion: CountryCode = DEFAULT_PHONE_REGION) {
+  return z
+    .string()
+    .trim()
+    .min(1, "Phone number is required")
+    .transform((value, ctx) => {
+      const phone = parsePhoneNumberFromString(value, defaultRegion);
+      if (!phone || !phone.isValid()) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `"${value}" is not a valid phone number`,
+        });
+        return z.NEVER;
+      }
+      return phone.number;
+    });
+}
+
+// One line of an order
+export const orderItems = pgTable("order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  // Line number within the order, from 0
+  position: integer("position").notNull().default(0),
+  productId: varchar("product_id").notNull(),
+  variantId: varchar("variant_id"),
+  quantity: integer("quantity").notNull().default(1),
+  unitPrice: money("unit_price").notNull(),
+  // Taken off the whole line, not off each unit
+  discount: money("discount").notNull().default(0),
+});
+
+export const insertOrderItemSchema = createInsertSchema(orderItems)
+  .omit({ id: true })
+  .extend({
+    unitPrice: z.number().min(0),
+    discount: z.number().min(0).optional(),
+  });
+
+export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type OrderItem = typeof orderItems.$inferSelect;
+
+// Item as returned by the API, with what the client needs to show the
+// product; the image is the variant's when it has one
+export type OrderItemEntry = OrderItem & {
+  productName: string | null;
+  variantLabel: string | null;
+  sku: string | null;
+  imageUrl: string | null;
+};
+
+// A line as sent when creating an order
+export const orderItemInputSchema = z.object({
+  productId: z.string().min(1, "Product is required"),
+  variantId: z.string().nullish(),
+  quantity: z.coerce.number().int().min(1).max(1000).default(1),
+  // Defaults to the product's price
+  unitPrice: z.coerce.number().min(0).optional(),
+  discount: z.coerce.number().min(0).default(0),
+});
+
+export type OrderItemInput = z.infer<typeof orderItemInputSchema>;
+
+export interface OrderTotals {
+  subtotal: number;
+  discountTotal: number;
+  shippingFee: number;
+  total: number;
+}
+
+export function lineTotal(line: { quantity: number; unitPrice: number; discount?: number }): number {
+  return roundMoney(line.quantity * line.unitPrice - (line.discount || 0));
+}
+
+export function computeOrderTotals(
+  lines: { quantity: number; unitPrice: number; discount?: number }[],
+  shippingFee: number,
+): OrderTotals {
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0));
+  const discountTotal = roundMoney(lines.reduce((sum, line) => sum + (line.discount || 0), 0));
+  return {
+    subtotal,
+    discountTotal,
+    shippingFee: roundMoney(shippingFee),
+    total: roundMoney(subtotal - discountTotal + shippingFee),
+  };
+}
+
+// Body of POST /api/orders; status, script, totals and assignment are set by
+// the server. A body with a single productId and quantity, as sent before
+// orders had items, is read as one item.
+export function createOrderSchema(defaultRegion: CountryCode = DEFAULT_PHONE_REGION) {
+  const schema = insertOrderSchema
+    .pick({
+      customerName: true,
+      customerPhone: true,
+      customerAddress: true,
+      customerCity: true,
+      notes: true,
+      language: true,
+    })
+    .extend({
+      customerName: z.string().trim().min(1, "Customer name is required"),
+      customerPhone: phoneNumberSchema(defaultRegion),
+      language: languageSchema.default("ar"),
+      items: z.array(orderItemInputSchema).min(1, "An order needs at least one item").max(50),
+      // Defaults to SHIPPING_FEE
+      shippingFee: z.coerce.number().min(0).optional(),
+    });
+
+  return z.preprocess((body) => {
+    if (body && typeof body === "object" && !("items" in body) && "productId" in body) {
+      const { productId, quantity, ...rest } = body as Record<string, unknown>;
+      return { ...rest, items: [{ productId, quantity }] };
+    }
+    return body;
+  }, schema);
+}
+
+export type CreateOrder = z.infer<ReturnType<typeof createOrderSchema>>;
+
+// Fields an order can be updated with; assignment has its own endpoint and
+// items are fixed once the order is created
+export const updateOrderSchema = insertOrderSchema
+  .omit({ productId: true, quantity: true, assignedTo: true })
+  .partial()
+  .extend({
+    language: languageSchema.optional(),
+    status: orderStatusEnum.optional(),
+    // Why the status changed, kept in the status history
+    reasonCode: orderReasonCodeEnum.optional(),
+    reason: z.string().trim().max(500).optional(),
+  });
+
+export type UpdateOrder = z.infer<typeof updateOrderSchema>;
+
+// Every status change of an order; fromStatus is null for the initial status
+export const orderStatusHistory = pgTable("order_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  fromStatus: text("from_status"),
+  toStatus: text("to_status").notNull(),
+  changedBy: varchar("changed_by"),
+  reasonCode: text("reason_code"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertOrderStatusChangeSchema = createInsertSchema(orderStatusHistory).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertOrderStatusChange = z.infer<typeof insertOrderStatusChangeSchema>;
+export type OrderStatusChange = typeof orderStatusHistory.$inferSelect;
+
+// History entry as returned by the API, with the username of whoever made the change
+export type OrderStatusHistoryEntry = OrderStatusChange & { changedByName: string | null };
+
+// Outcome of a confirmation call
+export const callOutcomeEnum = z.enum(["answered", "no_answer", "busy", "voicemail", "unreachable"]);
+export type CallOutcome = z.infer<typeof callOutcomeEnum>;
+
+// Outcomes that count towards moving an order to "no_answer"
+export const failedCallOutcomes: CallOutcome[] = ["no_answer", "busy", "voicemail", "unreachable"];
+
+// Every call an agent made for an order
+export const callAttempts = pgTable("call_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull(),
+  agentId: varchar("agent_id"),
+  outcome: text("outcome").notNull(),
+  durationSeconds: integer("duration_seconds").notNull().default(0),
+  notes: text("notes"),
+  // When to call the customer again
+  callbackAt: timestamp("callback_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertCallAttemptSchema = createInsertSchema(callAttempts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertCallAttempt = z.infer<typeof insertCallAttemptSchema>;
+export type CallAttempt = typeof callAttempts.$inferSelect;
+
+// Body of POST /api/orders/:id/calls; the order and agent come from the request
+export const logCallSchema = z.object({
+  outcome: callOutcomeEnum,
+  durationSeconds: z.coerce.number().int().min(0).max(24 * 60 * 60).default(0),
+  notes: z.string().trim().max(1000).optional(),
+  callbackAt: z.coerce.date().optional(),
+});
+
+export type LogCall = z.infer<typeof logCallSchema>;
+
+// Call attempt as returned by the API, with the agent's username
+export type CallAttemptEntry = CallAttempt & { agentName: string | null };
+
+// Why a stock level changed: set by an admin, or taken and given back by an order
+export const stockMovementReasonEnum = z.enum(["adjustment", "reserved", "released"]);
+export type StockMovementReason = z.infer<typeof stockMovementReasonEnum>;
+
+// Every change to the stock of a product or variant; change is negative when
+// stock goes out
+export const stockMovements = pgTable("stock_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull(),
+  variantId: varchar("variant_id"),
+  orderId: varchar("order_id"),
+  change: integer("change").notNull(),
+  reason: text("reason").notNull(),
+  note: text("note"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertStockMovementSchema = createInsertSchema(stockMovements)
+  .omit({
+    id: true,
+    createdAt: true,
+  })
+  .extend({
+    reason: stockMovementReasonEnum,
+  });
+
+export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
+export type StockMovement = typeof stockMovements.$inferSelect;
+
+// Body of POST /api/products/:id/stock: the new level of the product, or of
+// one of its variants
+export const setStockSchema = z.object({
+  variantId: z.string().nullish(),
+  stock: z.number().int().min(0),
+  note: z.string().trim().max(500).optional(),
+});
+
+export type SetStock = z.infer<typeof setStockSchema>;
+
+// Stock movement as returned by the API, with the variant and the username of
+// whoever made it
+export type StockMovementEntry = StockMovement & { variantLabel: string | null; createdByName: string | null };
+
+// Product or variant whose stock is at or below the low-stock threshold
+export interface LowStockEntry {
+  productId: string;
+  productName: string;
+  variantId: string | null;
+  variantLabel: string | null;
+  sku: string | null;
+  stock: number;
+}
+
+// Item of an order asking for more than is in stock
+export interface StockShortage {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  requested: number;
+  available: number;
+}
+
+// Order as returned when it is created or its status changes, with the items
+// asking for more than is in stock
+export type OrderWithStockShortages = Order & { stockShortages: StockShortage[] };
+
+// List queries (pagination, sorting and filtering)
+export const sortOrderEnum = z.enum(["asc", "desc"]);
+export type SortOrder = z.infer<typeof sortOrderEnum>;
+
+const listQueryBase = {
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  order: sortOrderEnum.default("desc"),
+  search: z.string().trim().optional(),
+};
+
+export const productListQuerySchema = z.object({
+  ...listQueryBase,
+  sort: z.enum(["createdAt", "name", "category"]).default("createdAt"),
+  category: z.string().trim().optional(),
+});
+
+export type ProductListQuery = z.infer<typeof productListQuerySchema>;
+
+export const orderListQuerySchema = z.object({
+  ...listQueryBase,
+  sort: z.enum(["createdAt", "customerName", "customerCity", "status", "quantity", "callbackAt"]).default("createdAt"),
+  // One status or a comma-separated list
+  status: z
+    .preprocess((value) => (typeof value === "string" ? value.split(",") : value), z.array(orderStatusEnum))
+    .optional(),
+  city: z.string().trim().optional(),
+  productId: z.string().optional(),
+  // A user id, or "none" for orders nobody is assigned to
+  assignedTo: z.string().optional(),
+  // Inclusive createdAt range
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Only orders with a callback scheduled at or before this time
+  callbackBefore: z.coerce.date().optional(),
+  // "true" for orders with unreviewed risk flags, "false" for the others
+  flagged: z
+    .preprocess((value) => (value === "true" ? true : value === "false" ? false : value), z.boolean())
+    .optional(),
+});
+
+export type OrderListQuery = z.infer<typeof orderListQuerySchema>;
+
+export const customerListQuerySchema = z.object({
+  ...listQueryBase,
+  sort: z.enum(["createdAt", "name", "city"]).default("createdAt"),
+  city: z.string().trim().optional(),
+});
+
+export type CustomerListQuery = z.infer<typeof customerListQuerySchema>;
+
+export type OrderStatusCounts = Record<OrderStatus, number>;
+
+// Server settings the client needs, from GET /api/config
+export interface AppConfig {
+  defaultPhoneRegion: CountryCode;
+  // Default shipping fee of new orders
+  shippingFee: number;
+  // Currency of new products
+  currency: string;
+}
+
+// WebSocket that pushes LiveEvents to logged-in clients
+export const liveUpdatesPath = "/api/live";
+
+// A product or order that was created, changed or deleted, named by the API
+// path it is listed under
+export type LiveEvent =
+  | { resource: "/api/products"; action: "created" | "updated"; item: Product }
+  | { resource: "/api/orders"; action: "created" | "updated"; item: Order }
+  | { resource: "/api/products" | "/api/orders"; action: "deleted"; id: string };
+
+// Phone numbers whose orders are always flagged
+export const phoneBlacklist = pgTable("phone_blacklist", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Digits only, see phoneDigits
+  phone: text("phone").notNull().unique(),
+  reason: text("reason"),
+  createdBy: varchar("created_by"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertBlacklistEntrySchema = createInsertSchema(phoneBlacklist)
+  .omit({
+    id: true,
+    createdAt: true,
+    createdBy: true,
+  })
+  .extend({
+    phone: z.string().trim().min(6, "Phone number is too short"),
+    reason: z.string().trim().max(500).optional(),
+  });
+
+export type InsertBlacklistEntry = z.infer<typeof insertBlacklistEntrySchema>;
+export type BlacklistEntry = typeof phoneBlacklist.$inferSelect;
+
+// Comparable form of a phone number: digits only, without an international "00" prefix
+export function phoneDigits(phone: string): string {
+  return phone.replace(/\D/g, "").replace(/^00/, "");
+}
+
+// Customers, one per phone number (stored in E.164)
+export const customers = pgTable("customers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  phone: text("phone").notNull().unique(),
+  name: text("name").notNull(),
+  address: text("address"),
+  city: text("city"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertCustomerSchema = createInsertSchema(customers)
+  .omit({
+    id: true,
+    createdAt: true,
+    updatedAt: true,
+  })
+  .extend({
+    name: z.string().trim().min(1, "Customer name is required"),
+    address: z.string().trim().nullish(),
+    city: z.string().trim().nullish(),
+    notes: z.string().trim().max(2000).nullish(),
+  });
+
+export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
+export type Customer = typeof customers.$inferSelect;
+
+// Body of POST /api/customers, with the phone normalized to E.164
+export function createCustomerSchema(defaultRegion: CountryCode = DEFAULT_PHONE_REGION) {
+  return insertCustomerSchema.extend({ phone: phoneNumberSchema(defaultRegion) });
+}
+
+// Body of PATCH /api/customers/:id
+export function updateCustomerSchema(defaultRegion: CountryCode = DEFAULT_PHONE_REGION) {
+  return createCustomerSchema(defaultRegion).partial();
+}
+
+// Order outcomes of a customer; rates are over shipped orders that reached
+// the customer (delivered, refused or returned) and null before the first one
+export interface CustomerStats {
+  totalOrders: number;
+  delivered: number;
+  refused: number;
+  returned: number;
+  deliveryRate: number | null;
+  refusalRate: number | null;
+}
+
+// Customer as returned by GET /api/customers/:id
+export type CustomerProfile = Customer & { stats: CustomerStats };
+
+export const assignOrderSchema = z.object({
+  userId: z.string().nullable(),
+});
+
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+// User roles: admins manage everything, agents confirm orders, viewers read only
+export const userRoleEnum = z.enum(["admin", "agent", "viewer"]);
+export type UserRole = z.infer<typeof userRoleEnum>;
+
+// Users table
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
+  role: text("role").notNull().default("viewer"),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
+  role: true,
+}).extend({
+  username: z.string().trim().min(3),
+  password: z.string().min(8),
+  role: userRoleEnum.optional().default("viewer"),
+});
+
+export const loginSchema = z.object({
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+// What the API exposes about a user; the password hash never leaves the server
+export type PublicUser = Omit<User, "password">;
 
-// Supported languages
-export type Language = "ar" | "en" | "fr";
+// Orders per agent, for distribution and the admin team view
+export interface AgentWorkload {
+  user: PublicUser;
+  // Orders in one of the openOrderStatuses
+  open: number;
+  total: number;
+}
+
+export type Language = z.infer<typeof languageSchema>;
 
 // Translations type
 export interface Translations {
@@ -109,6 +1031,9 @@ export interface Translations {
   products: string;
   orders: string;
   settings: string;
+  myQueue: string;
+  team: string;
+  customers: string;
   
   // Upload page
   uploadTitle: string;
@@ -138,19 +1063,38 @@ export interface Translations {
   newOrder: string;
   customerName: string;
   customerPhone: string;
+  invalidPhone: string;
   customerAddress: string;
   customerCity: string;
   notes: string;
   quantity: string;
   status: string;
   pending: string;
+  noAnswer: string;
+  callBackLater: string;
+  wrongNumber: string;
+  duplicate: string;
   confirmed: string;
-  cancelled: string;
+  shipped: string;
   delivered: string;
+  refused: string;
+  returned: string;
+  cancelled: string;
+  reasonCode: string;
+  reasonCodes: Record<OrderReasonCode, string>;
+  logCall: string;
+  callOutcome: string;
+  callOutcomes: Record<CallOutcome, string>;
+  callDuration: string;
+  callbackAt: string;
+  callAttempts: string;
+  callbacksDue: string;
   confirmationScript: string;
   selectProduct: string;
   createOrder: string;
   orderCreated: string;
+  assignedTo: string;
+  unassigned: string;
   
   // Common
   save: string;
@@ -167,6 +1111,18 @@ export interface Translations {
   language: string;
   date: string;
   total: string;
+  items: string;
+  addItem: string;
+  unitPrice: string;
+  discount: string;
+  subtotal: string;
+  shippingFee: string;
+  variant: string;
+  selectVariant: string;
+  sku: string;
+  stock: string;
+  lowStock: string;
+  insufficientStock: string;
   
   // PDF
   downloadPdf: string;
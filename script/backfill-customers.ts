@@ -0,0 +1,40 @@
+// Links orders created before customers existed to a customer, normalizing
+// their phone numbers to E.164 on the way. Safe to run more than once; run
+// it with the server stopped when STORAGE_DRIVER is "file".
+import { phoneNumberSchema } from "../shared/schema";
+import { storage } from "../server/storage";
+import { getDefaultPhoneRegion } from "../server/phone";
+import { findOrCreateCustomer } from "../server/customers";
+
+async function backfillCustomers() {
+  const phoneSchema = phoneNumberSchema(getDefaultPhoneRegion());
+  // Oldest first, so each customer is created from their first order
+  const orders = (await storage.getOrders()).reverse();
+
+  let linked = 0;
+  const invalid: string[] = [];
+  for (const order of orders) {
+    if (order.customerId) continue;
+
+    const phone = phoneSchema.safeParse(order.customerPhone);
+    if (!phone.success) {
+      invalid.push(`${order.id} (${order.customerPhone})`);
+      continue;
+    }
+    const customer = await findOrCreateCustomer({ ...order, customerPhone: phone.data });
+    await storage.updateOrder(order.id, { customerPhone: phone.data, customerId: customer.id });
+    linked++;
+  }
+
+  console.log(`Linked ${linked} orders to customers`);
+  if (invalid.length > 0) {
+    console.warn(`Skipped ${invalid.length} orders with an invalid phone number:\n  ${invalid.join("\n  ")}`);
+  }
+}
+
+backfillCustomers()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
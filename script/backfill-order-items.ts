@@ -0,0 +1,49 @@
+// Gives orders created before orders had items a single item from their
+// productId and quantity, priced at the product's price, and fills in their
+// totals. Run script/migrate-product-prices.ts first. Safe to run more than
+// once; run it with the server stopped when STORAGE_DRIVER is "file".
+import { DEFAULT_CURRENCY, computeOrderTotals } from "../shared/schema";
+import { storage } from "../server/storage";
+
+async function backfillOrderItems() {
+  const orders = await storage.getOrders();
+
+  let backfilled = 0;
+  const unpriced: string[] = [];
+  for (const order of orders) {
+    const existing = await storage.getOrderItems(order.id);
+    if (existing.length > 0) continue;
+
+    const product = await storage.getProduct(order.productId);
+    const unitPrice = product?.price ?? null;
+    if (unitPrice === null) {
+      unpriced.push(`${order.id} (${product?.name ?? order.productId})`);
+    }
+    const item = {
+      productId: order.productId,
+      variantId: null,
+      quantity: order.quantity,
+      unitPrice: unitPrice ?? 0,
+      discount: 0,
+    };
+    await storage.createOrderItems(order.id, [item]);
+    // Legacy orders had no shipping fee of their own
+    await storage.updateOrder(order.id, {
+      ...computeOrderTotals([item], 0),
+      currency: product?.currency ?? DEFAULT_CURRENCY,
+    });
+    backfilled++;
+  }
+
+  console.log(`Added items to ${backfilled} orders`);
+  if (unpriced.length > 0) {
+    console.warn(`Priced ${unpriced.length} orders at 0, their product has no price:\n  ${unpriced.join("\n  ")}`);
+  }
+}
+
+backfillOrderItems()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
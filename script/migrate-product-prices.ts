@@ -0,0 +1,88 @@
+// Turns the free-text prices products had before prices were structured
+// ("199 MAD", "200-300 درهم", "€49,90") into an amount and a currency. The
+// text stays in priceText. Products whose text has no number keep a null
+// price for an admin to set. Safe to run more than once; run it after
+// `npm run db:push`, and with the server stopped when STORAGE_DRIVER is "file".
+import { storage } from "../server/storage";
+import { getDefaultCurrency } from "../server/pricing";
+
+// Checked in order, before falling back to an ISO code in the text
+const currencyPatterns: [RegExp, string][] = [
+  [/درهم|د\.م|\b(mad|dhs?|dirhams?)\b/i, "MAD"],
+  [/دج|د\.ج|\bdzd\b|dinars? alg/i, "DZD"],
+  [/د\.ت|\btnd\b|dinars? tun/i, "TND"],
+  [/ريال|\bsar\b/i, "SAR"],
+  [/د\.إ|\baed\b/i, "AED"],
+  [/€|\beur(os?)?\b/i, "EUR"],
+  [/£|\bgbp\b/i, "GBP"],
+  [/\$|\busd\b|dollars?|دولار/i, "USD"],
+];
+
+// Arabic-Indic and extended Arabic-Indic digits and separators to ASCII
+function normalizeDigits(text: string): string {
+  return text
+    .replace(/[٠-٩]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0))
+    .replace(/٫/g, ".")
+    .replace(/٬/g, ",");
+}
+
+// First amount in the text, so a range counts as its lower bound. Groups of
+// three digits after a separator are thousands ("1 299,00", "1,299.00").
+function parseAmount(text: string): number | undefined {
+  const match = text.match(/\d{1,3}(?:[ ,.\u00a0\u202f]\d{3})+(?:[.,]\d{1,2})?|\d+(?:[.,]\d{1,2})?/);
+  if (!match) return undefined;
+
+  const digits = match[0].replace(/[ \u00a0\u202f]/g, "");
+  const decimals = digits.match(/[.,](\d{1,2})$/);
+  const whole = (decimals ? digits.slice(0, -decimals[0].length) : digits).replace(/[.,]/g, "");
+  return Number(decimals ? `${whole}.${decimals[1]}` : whole);
+}
+
+function parseCurrency(text: string, fallback: string): string {
+  for (const [pattern, currency] of currencyPatterns) {
+    if (pattern.test(text)) return currency;
+  }
+  const supported = Intl.supportedValuesOf("currency");
+  const code = text.match(/\b[A-Z]{3}\b/g)?.find((candidate) => supported.includes(candidate));
+  return code ?? fallback;
+}
+
+async function migrateProductPrices() {
+  const defaultCurrency = getDefaultCurrency();
+  const products = await storage.getProducts();
+
+  let migrated = 0;
+  const unparsed: string[] = [];
+  for (const product of products) {
+    // The file storage still has the text in price, PostgreSQL in priceText
+    const legacyPrice: unknown = product.price;
+    const text = typeof legacyPrice === "string" ? legacyPrice : product.priceText;
+    if (typeof legacyPrice === "number" || !text) continue;
+
+    const normalized = normalizeDigits(text);
+    const amount = parseAmount(normalized);
+    if (amount === undefined) {
+      unparsed.push(`${product.id} (${product.name}): "${text}"`);
+    }
+    await storage.updateProduct(product.id, {
+      price: amount ?? null,
+      currency: parseCurrency(normalized, defaultCurrency),
+      compareAtPrice: null,
+      priceText: text,
+    });
+    migrated++;
+  }
+
+  console.log(`Migrated the price of ${migrated} products`);
+  if (unparsed.length > 0) {
+    console.warn(`Left ${unparsed.length} products without a price, no amount in their text:\n  ${unparsed.join("\n  ")}`);
+  }
+}
+
+migrateProductPrices()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
@@ -0,0 +1,266 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { randomUUID } from "crypto";
+import { MemStorage, FileStorage, DbStorage, type IStorage, type NewOrder } from "./storage";
+import { getDb, getPool } from "./db";
+import type { InsertProduct } from "@shared/schema";
+
+// The same contract runs against every driver: DbStorage when DATABASE_URL
+// points at a database whose schema is up to date (npm run db:push), and
+// MemStorage and FileStorage otherwise. Rows are named uniquely so the suite
+// can share a database with other data.
+
+interface Driver {
+  name: string;
+  create(): IStorage;
+  // Opens the same data again, for drivers that persist it
+  reopen?(): IStorage;
+  close?(): Promise<void>;
+}
+
+function fileDriver(): Driver {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), "storage-test-"));
+  const filePath = path.join(dir, "storage.jsonl");
+  return {
+    name: "FileStorage",
+    create: () => new FileStorage(filePath),
+    reopen: () => new FileStorage(filePath),
+    close: async () => fs.rmSync(dir, { recursive: true, force: true }),
+  };
+}
+
+const drivers: Driver[] = process.env.DATABASE_URL
+  ? [{ name: "DbStorage", create: () => new DbStorage(getDb()), close: () => getPool().end() }]
+  : [{ name: "MemStorage", create: () => new MemStorage() }, fileDriver()];
+
+function newProduct(overrides: Partial<InsertProduct> = {}): InsertProduct {
+  const tag = randomUUID();
+  return {
+    name: `Test product ${tag}`,
+    imageUrl: `/uploads/${tag}.png`,
+    descriptions: { ar: "وصف", en: `Description ${tag}`, fr: "Description" },
+    benefits: { ar: [], en: [], fr: [] },
+    features: { ar: [], en: [], fr: [] },
+    price: 100,
+    options: [],
+    trackStock: true,
+    ...overrides,
+  };
+}
+
+function newOrder(productId: string, quantity: number): NewOrder {
+  return {
+    productId,
+    customerName: "Test customer",
+    customerPhone: "+212600000000",
+    quantity,
+    currency: "MAD",
+    subtotal: 100 * quantity,
+    discountTotal: 0,
+    shippingFee: 0,
+    total: 100 * quantity,
+  };
+}
+
+for (const driver of drivers) {
+  describe(`${driver.name} storage contract`, () => {
+    let storage: IStorage;
+
+    before(() => {
+      storage = driver.create();
+    });
+
+    after(async () => {
+      await driver.close?.();
+    });
+
+    it("creates users and finds them by username", async () => {
+      const username = `user-${randomUUID()}`;
+      const user = await storage.createUser({ username, password: "hash", role: "agent" });
+
+      assert.equal((await storage.getUser(user.id))?.username, username);
+      assert.equal((await storage.getUserByUsername(username))?.id, user.id);
+      assert.equal(await storage.getUserByUsername(`missing-${randomUUID()}`), undefined);
+    });
+
+    it("creates, updates, searches and deletes products", async () => {
+      const product = await storage.createProduct(newProduct());
+      assert.equal(product.stock, 0);
+      assert.equal(product.currency, "MAD");
+      assert.deepEqual(await storage.getProduct(product.id), product);
+
+      const updated = await storage.updateProduct(product.id, { price: 150 });
+      assert.equal(updated?.price, 150);
+
+      const page = await storage.listProducts({
+        page: 1,
+        limit: 20,
+        sort: "name",
+        order: "asc",
+        search: product.descriptions.en,
+      });
+      assert.deepEqual(page.items.map((item) => item.id), [product.id]);
+      assert.equal(page.total, 1);
+
+      assert.equal(await storage.deleteProduct(product.id), true);
+      assert.equal(await storage.getProduct(product.id), undefined);
+      assert.equal(await storage.deleteProduct(product.id), false);
+    });
+
+    it("records a revision only when a product's content changes", async () => {
+      const product = await storage.createProduct(newProduct(), { source: "generated" });
+      assert.deepEqual((await storage.getProductRevisions(product.id)).map((r) => r.source), ["generated"]);
+
+      await storage.reviseProduct(product.id, { trackStock: false }, { source: "edited" });
+      assert.equal((await storage.getProductRevisions(product.id)).length, 1);
+
+      await storage.reviseProduct(product.id, { name: `${product.name} v2` }, { source: "edited" });
+      const revisions = await storage.getProductRevisions(product.id);
+      assert.deepEqual(revisions.map((r) => r.source), ["edited", "generated"]);
+      assert.equal(revisions[0].content.name, `${product.name} v2`);
+    });
+
+    it("adds stock movements to the product's stock", async () => {
+      const product = await storage.createProduct(newProduct());
+      await storage.recordStockMovements([{ productId: product.id, change: 10, reason: "adjustment" }]);
+      await storage.recordStockMovements([{ productId: product.id, change: -3, reason: "adjustment" }]);
+
+      assert.equal((await storage.getProduct(product.id))?.stock, 7);
+      const movements = await storage.getStockMovements({ productId: product.id });
+      assert.deepEqual(movements.map((m) => m.change).sort(), [-3, 10]);
+    });
+
+    it("stores an order's items in line order and its first status", async () => {
+      const first = await storage.createProduct(newProduct());
+      const second = await storage.createProduct(newProduct());
+      const order = await storage.createOrder(newOrder(first.id, 3), [
+        { productId: first.id, quantity: 1, unitPrice: 100, discount: 0 },
+        { productId: second.id, quantity: 2, unitPrice: 100, discount: 10 },
+      ]);
+
+      assert.equal(order.status, "pending");
+      const history = await storage.getOrderStatusHistory(order.id);
+      assert.deepEqual(history.map((change) => [change.fromStatus, change.toStatus]), [[null, "pending"]]);
+      const items = await storage.getOrderItems(order.id);
+      assert.deepEqual(
+        items.map((item) => [item.position, item.productId, item.quantity, item.discount]),
+        [
+          [0, first.id, 1, 0],
+          [1, second.id, 2, 10],
+        ],
+      );
+    });
+
+    it("changes an order's status only from the status it is in", async () => {
+      const product = await storage.createProduct(newProduct());
+      await storage.recordStockMovements([{ productId: product.id, change: 5, reason: "adjustment" }]);
+      const order = await storage.createOrder(newOrder(product.id, 2), [
+        { productId: product.id, quantity: 2, unitPrice: 100, discount: 0 },
+      ]);
+      const reserve = [{ productId: product.id, orderId: order.id, change: -2, reason: "reserved" as const }];
+
+      const confirmed = await storage.changeOrderStatus(
+        { orderId: order.id, fromStatus: "pending", toStatus: "confirmed" },
+        reserve,
+      );
+      assert.equal(confirmed?.status, "confirmed");
+      assert.equal((await storage.getProduct(product.id))?.stock, 3);
+
+      // A second confirmation from "pending" lost the race and changes nothing
+      const stale = await storage.changeOrderStatus(
+        { orderId: order.id, fromStatus: "pending", toStatus: "confirmed" },
+        reserve,
+      );
+      assert.equal(stale, undefined);
+      assert.equal((await storage.getProduct(product.id))?.stock, 3);
+      assert.deepEqual(
+        (await storage.getOrderStatusHistory(order.id)).map((change) => change.toStatus),
+        ["pending", "confirmed"],
+      );
+    });
+
+    it("lets only one of two orders racing for the last units take them", async () => {
+      const product = await storage.createProduct(newProduct());
+      await storage.recordStockMovements([{ productId: product.id, change: 3, reason: "adjustment" }]);
+      const confirm = async () => {
+        const order = await storage.createOrder(newOrder(product.id, 2), [
+          { productId: product.id, quantity: 2, unitPrice: 100, discount: 0 },
+        ]);
+        return storage.changeOrderStatusIfInStock({ orderId: order.id, fromStatus: "pending", toStatus: "confirmed" }, [
+          { productId: product.id, orderId: order.id, change: -2, reason: "reserved" },
+        ]);
+      };
+
+      const results = await Promise.all([confirm(), confirm()]);
+      const confirmed = results.filter((result) => result.order);
+      const refused = results.filter((result) => !result.order);
+      assert.equal(confirmed.length, 1);
+      assert.equal(confirmed[0].order?.status, "confirmed");
+      assert.deepEqual(refused[0].stockShortages, [
+        { productId: product.id, variantId: null, name: product.name, requested: 2, available: 1 },
+      ]);
+      assert.equal((await storage.getProduct(product.id))?.stock, 1);
+    });
+
+    it("deletes an order with what belongs to it, keeping its stock movements", async () => {
+      const product = await storage.createProduct(newProduct());
+      await storage.recordStockMovements([{ productId: product.id, change: 5, reason: "adjustment" }]);
+      const order = await storage.createOrder(newOrder(product.id, 2), [
+        { productId: product.id, quantity: 2, unitPrice: 100, discount: 0 },
+      ]);
+      await storage.changeOrderStatus({ orderId: order.id, fromStatus: "pending", toStatus: "confirmed" }, [
+        { productId: product.id, orderId: order.id, change: -2, reason: "reserved" },
+      ]);
+      await storage.createCallAttempt({ orderId: order.id, outcome: "answered" });
+
+      const deleted = await storage.deleteOrder(order.id, [
+        { productId: product.id, orderId: order.id, change: 2, reason: "released", note: "Order deleted" },
+      ]);
+      assert.equal(deleted, true);
+      assert.equal(await storage.getOrder(order.id), undefined);
+      assert.deepEqual(await storage.getOrderItems(order.id), []);
+      assert.deepEqual(await storage.getOrderStatusHistory(order.id), []);
+      assert.deepEqual(await storage.getCallAttempts(order.id), []);
+
+      assert.equal((await storage.getProduct(product.id))?.stock, 5);
+      const movements = await storage.getStockMovements({ orderId: order.id });
+      assert.deepEqual(movements.map((m) => m.reason).sort(), ["released", "reserved"]);
+
+      assert.equal(await storage.deleteOrder(order.id), false);
+    });
+
+    it("leaves running analysis jobs alone when deleting", async () => {
+      const job = await storage.createAnalysisJob({ imageUrl: "/uploads/job.png", fileName: "job.png" });
+      assert.equal(job.status, "queued");
+
+      await storage.updateAnalysisJob(job.id, { status: "running" });
+      assert.equal(await storage.deleteAnalysisJob(job.id), false);
+      assert.ok(await storage.getAnalysisJob(job.id));
+
+      await storage.updateAnalysisJob(job.id, { status: "failed" });
+      assert.equal(await storage.deleteAnalysisJob(job.id), true);
+      assert.equal(await storage.getAnalysisJob(job.id), undefined);
+    });
+
+    if (driver.reopen) {
+      it("reads back everything it wrote after being reopened", async () => {
+        const product = await storage.createProduct(newProduct());
+        await storage.recordStockMovements([{ productId: product.id, change: 4, reason: "adjustment" }]);
+        const order = await storage.createOrder(newOrder(product.id, 1), [
+          { productId: product.id, quantity: 1, unitPrice: 100, discount: 0 },
+        ]);
+        const removed = await storage.createProduct(newProduct());
+        await storage.deleteProduct(removed.id);
+
+        const reopened = driver.reopen!();
+        assert.deepEqual(await reopened.getProduct(product.id), await storage.getProduct(product.id));
+        assert.deepEqual(await reopened.getOrder(order.id), await storage.getOrder(order.id));
+        assert.deepEqual(await reopened.getOrderItems(order.id), await storage.getOrderItems(order.id));
+        assert.equal(await reopened.getProduct(removed.id), undefined);
+      });
+    }
+  });
+}
@@ -3,45 +3,324 @@ import {
   type InsertUser, 
   type Product, 
   type InsertProduct,
+  type ProductVariant,
+  type InsertProductVariant,
+  type ProductRevision,
+  type InsertProductRevision,
+  type ChatMessage,
+  type InsertChatMessage,
+  type ImageAnalysis,
+  type InsertImageAnalysis,
+  type AnalysisJob,
+  type InsertAnalysisJob,
   type Order,
   type InsertOrder,
+  type OrderItem,
+  type InsertOrderItem,
+  type OrderTotals,
+  type OrderStatusChange,
+  type InsertOrderStatusChange,
+  type CallAttempt,
+  type InsertCallAttempt,
+  type StockMovement,
+  type InsertStockMovement,
+  type LowStockEntry,
+  type BlacklistEntry,
+  type InsertBlacklistEntry,
+  type Customer,
+  type InsertCustomer,
+  type OrderRiskFlag,
+  type StockShortage,
+  type ProductListQuery,
+  type OrderListQuery,
+  type CustomerListQuery,
+  type Paginated,
+  type OrderStatus,
+  type OrderStatusCounts,
+  DEFAULT_CURRENCY,
+  openOrderStatuses,
+  orderStatusEnum,
+  users,
+  products,
+  productVariants,
+  productRevisions,
+  chatMessages,
+  imageAnalyses,
+  analysisJobs,
+  orders,
+  orderItems,
+  orderStatusHistory,
+  callAttempts,
+  stockMovements,
+  phoneBlacklist,
+  customers,
+  phoneDigits,
+  productContent,
+  stockItemName,
+  variantLabel,
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  and,
+  asc,
+  count,
+  desc,
+  eq,
+  getTableColumns,
+  gte,
+  ilike,
+  inArray,
+  is,
+  isNotNull,
+  isNull,
+  lte,
+  not,
+  or,
+  sql,
+  SQL,
+} from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { getDb, getPool, type Database } from "./db";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // Users
+  getUsers(): Promise<User[]>;
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   
   // Products
   getProducts(): Promise<Product[]>;
+  listProducts(query: ProductListQuery): Promise<Paginated<Product>>;
   getProduct(id: string): Promise<Product | undefined>;
-  createProduct(product: InsertProduct): Promise<Product>;
+  // Records the new product's content as its first revision when given one
+  createProduct(product: InsertProduct, revision?: ProductRevisionInfo): Promise<Product>;
   updateProduct(id: string, product: Partial<InsertProduct>): Promise<Product | undefined>;
+  // Updates the product and, when its content changed, records the new content
+  // as a revision. A product without revisions first gets the content it had
+  // recorded as its "original" revision, dated when the product was created.
+  reviseProduct(id: string, product: Partial<InsertProduct>, revision: ProductRevisionInfo): Promise<Product | undefined>;
   deleteProduct(id: string): Promise<boolean>;
+
+  // Product revisions, newest first
+  getProductRevisions(productId: string): Promise<ProductRevision[]>;
+  getProductRevision(id: string): Promise<ProductRevision | undefined>;
+
+  // A user's chat about a product, oldest first
+  getChatMessages(productId: string, userId: string): Promise<ChatMessage[]>;
+  createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  // Clears the user's chat about the product, returning how many messages it had
+  deleteChatMessages(productId: string, userId: string): Promise<number>;
+
+  // Analyses of uploaded images, by the SHA-256 of the image
+  getImageAnalysis(hash: string): Promise<ImageAnalysis | undefined>;
+  // Adds the analysis or replaces the one stored under its hash
+  saveImageAnalysis(analysis: InsertImageAnalysis): Promise<ImageAnalysis>;
+
+  // Background image analysis jobs
+  getAnalysisJob(id: string): Promise<AnalysisJob | undefined>;
+  createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob>;
+  updateAnalysisJob(id: string, job: Partial<AnalysisJob>): Promise<AnalysisJob | undefined>;
+  // Jobs a worker is running are left alone; false for those and missing jobs
+  deleteAnalysisJob(id: string): Promise<boolean>;
+  // Marks the queued job that has waited longest among those due as running,
+  // counting the attempt; undefined if none is due. Two callers never get the
+  // same job.
+  claimAnalysisJob(): Promise<AnalysisJob | undefined>;
+  // Queues again the jobs left running, for when the server that ran them stopped
+  requeueRunningAnalysisJobs(): Promise<number>;
+
+  // Product variants
+  getProductVariants(productId: string): Promise<ProductVariant[]>;
+  getProductVariant(id: string): Promise<ProductVariant | undefined>;
+  getProductVariantBySku(sku: string): Promise<ProductVariant | undefined>;
+  createProductVariant(productId: string, variant: InsertProductVariant): Promise<ProductVariant>;
+  // The image, which clients upload separately, can only be set here
+  updateProductVariant(id: string, variant: VariantUpdate): Promise<ProductVariant | undefined>;
+  deleteProductVariant(id: string): Promise<boolean>;
   
   // Orders
   getOrders(): Promise<Order[]>;
+  listOrders(query: OrderListQuery): Promise<Paginated<Order>>;
   getOrder(id: string): Promise<Order | undefined>;
   getOrdersByProduct(productId: string): Promise<Order[]>;
-  createOrder(order: InsertOrder & { confirmationScript?: string }): Promise<Order>;
+  // Orders whose phone number has the same digits, see phoneDigits
+  getOrdersByPhone(phone: string): Promise<Order[]>;
+  getOrdersByCustomer(customerId: string): Promise<Order[]>;
+  getAssigneeCounts(): Promise<AssigneeCount[]>;
+  getOrderStatusCounts(): Promise<OrderStatusCounts>;
+  // Stores the order with its items and the first entry of its status
+  // history, made by `changedBy`
+  createOrder(order: NewOrder, items: NewOrderItem[], changedBy?: string | null): Promise<Order>;
   updateOrder(id: string, order: Partial<Order>): Promise<Order | undefined>;
-  deleteOrder(id: string): Promise<boolean>;
+  // Deletes the order with its items, history and calls, recording `stock`,
+  // the release of what it held, along with it. Its stock movements are kept
+  // as the products' stock history.
+  deleteOrder(id: string, stock?: InsertStockMovement[]): Promise<boolean>;
+
+  // Order items, in line order
+  getOrderItems(orderId: string): Promise<OrderItem[]>;
+  // For orders stored before they had items; createOrder stores its own
+  createOrderItems(orderId: string, items: NewOrderItem[]): Promise<OrderItem[]>;
+
+  // Order status history
+  getOrderStatusHistory(orderId: string): Promise<OrderStatusChange[]>;
+  createOrderStatusChange(change: InsertOrderStatusChange): Promise<OrderStatusChange>;
+  // Sets the status and records the change, along with the stock it reserves
+  // or releases, only if the order is still in change.fromStatus; returns
+  // undefined otherwise
+  changeOrderStatus(change: InsertOrderStatusChange, stock?: InsertStockMovement[]): Promise<Order | undefined>;
+  // Like changeOrderStatus, but changes nothing and returns the shortages when
+  // `stock` would take a product or variant below zero. Stock is checked and
+  // taken at once, so two orders cannot both get the last units.
+  changeOrderStatusIfInStock(change: InsertOrderStatusChange, stock: InsertStockMovement[]): Promise<StatusChangeResult>;
+
+  // Call attempts
+  getCallAttempts(orderId: string): Promise<CallAttempt[]>;
+  createCallAttempt(attempt: InsertCallAttempt): Promise<CallAttempt>;
+
+  // Stock movements, newest first
+  getStockMovements(filter: { productId?: string; orderId?: string }): Promise<StockMovement[]>;
+  // Records the movements and adds their change to the stock of their variant,
+  // or of their product when they have none
+  recordStockMovements(movements: InsertStockMovement[]): Promise<StockMovement[]>;
+  // Products and variants that track stock and have `threshold` or less
+  getLowStock(threshold: number): Promise<LowStockEntry[]>;
+
+  // Phone blacklist; phones are stored as phoneDigits
+  getBlacklist(): Promise<BlacklistEntry[]>;
+  getBlacklistEntryByPhone(phone: string): Promise<BlacklistEntry | undefined>;
+  createBlacklistEntry(entry: InsertBlacklistEntry & { createdBy?: string | null }): Promise<BlacklistEntry>;
+  deleteBlacklistEntry(id: string): Promise<boolean>;
+
+  // Customers; phones are stored in E.164
+  listCustomers(query: CustomerListQuery): Promise<Paginated<Customer>>;
+  getCustomer(id: string): Promise<Customer | undefined>;
+  getCustomerByPhone(phone: string): Promise<Customer | undefined>;
+  createCustomer(customer: InsertCustomer): Promise<Customer>;
+  updateCustomer(id: string, customer: Partial<InsertCustomer>): Promise<Customer | undefined>;
+  // Unlinks the customer's orders, which keep their copy of the details
+  deleteCustomer(id: string): Promise<boolean>;
+}
+
+// Order as created by POST /api/orders, with the fields the server fills in
+export type NewOrder = InsertOrder & OrderTotals & {
+  currency: string;
+  customerId?: string | null;
+  confirmationScript?: string;
+  riskFlags?: OrderRiskFlag[];
+  duplicateOfId?: string | null;
+};
+
+// Item of an order being created; the order and line number are set on insert
+export type NewOrderItem = Omit<InsertOrderItem, "orderId" | "position"> & Pick<OrderItem, "quantity" | "discount">;
+
+export type VariantUpdate = Partial<InsertProductVariant & Pick<ProductVariant, "imageUrl">>;
+
+// How and by whom a product's content was changed, for the revision it records
+export type ProductRevisionInfo = Pick<InsertProductRevision, "source" | "createdBy" | "restoredFromId">;
+
+// The order is undefined when the status or the stock was not there
+export interface StatusChangeResult {
+  order?: Order;
+  stockShortages: StockShortage[];
+}
+
+export interface AssigneeCount {
+  userId: string;
+  open: number;
+  total: number;
 }
 
+type TableName =
+  | "users"
+  | "products"
+  | "productVariants"
+  | "productRevisions"
+  | "chatMessages"
+  | "imageAnalyses"
+  | "analysisJobs"
+  | "orders"
+  | "orderItems"
+  | "orderStatusHistory"
+  | "callAttempts"
+  | "stockMovements"
+  | "phoneBlacklist"
+  | "customers";
+
 export class MemStorage implements IStorage {
-  private users: Map<string, User>;
-  private products: Map<string, Product>;
-  private orders: Map<string, Order>;
+  protected users: Map<string, User>;
+  protected products: Map<string, Product>;
+  protected productVariants: Map<string, ProductVariant>;
+  protected productRevisions: Map<string, ProductRevision>;
+  protected chatMessages: Map<string, ChatMessage>;
+  protected imageAnalyses: Map<string, ImageAnalysis>;
+  protected analysisJobs: Map<string, AnalysisJob>;
+  protected orders: Map<string, Order>;
+  protected orderItems: Map<string, OrderItem>;
+  protected orderStatusHistory: Map<string, OrderStatusChange>;
+  protected callAttempts: Map<string, CallAttempt>;
+  protected stockMovements: Map<string, StockMovement>;
+  protected phoneBlacklist: Map<string, BlacklistEntry>;
+  protected customers: Map<string, Customer>;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
     this.products = new Map();
+    this.productVariants = new Map();
+    this.productRevisions = new Map();
+    this.chatMessages = new Map();
+    this.imageAnalyses = new Map();
+    this.analysisJobs = new Map();
     this.orders = new Map();
+    this.orderItems = new Map();
+    this.orderStatusHistory = new Map();
+    this.callAttempts = new Map();
+    this.stockMovements = new Map();
+    this.phoneBlacklist = new Map();
+    this.customers = new Map();
+    this.sessionStore = new MemoryStore({ checkPeriod: 86400000 });
+  }
+
+  // Called after every write; `record` is null when the row was deleted.
+  // No-op here, overridden by storages that persist the in-memory tables.
+  protected changed(_table: TableName, _id: string, _record: object | null): void {}
+
+  protected tables(): Record<TableName, Map<string, any>> {
+    return {
+      users: this.users,
+      products: this.products,
+      productVariants: this.productVariants,
+      productRevisions: this.productRevisions,
+      chatMessages: this.chatMessages,
+      imageAnalyses: this.imageAnalyses,
+      analysisJobs: this.analysisJobs,
+      orders: this.orders,
+      orderItems: this.orderItems,
+      orderStatusHistory: this.orderStatusHistory,
+      callAttempts: this.callAttempts,
+      stockMovements: this.stockMovements,
+      phoneBlacklist: this.phoneBlacklist,
+      customers: this.customers,
+    };
   }
 
   // Users
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async getUser(id: string): Promise<User | undefined> {
     return this.users.get(id);
   }
@@ -54,8 +333,9 @@ export class MemStorage implements IStorage {
 
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = randomUUID();
-    const user: User = { ...insertUser, id };
+    const user: User = { ...insertUser, id, role: insertUser.role || "viewer" };
     this.users.set(id, user);
+    this.changed("users", id, user);
     return user;
   }
 
@@ -66,22 +346,44 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async listProducts(query: ProductListQuery): Promise<Paginated<Product>> {
+    const search = query.search?.toLowerCase();
+    const category = query.category?.toLowerCase();
+    const matches = Array.from(this.products.values()).filter((product) => {
+      if (category && product.category?.toLowerCase() !== category) return false;
+      if (search) {
+        const text = [product.name, ...Object.values(product.descriptions)].join(" ").toLowerCase();
+        if (!text.includes(search)) return false;
+      }
+      return true;
+    });
+    return paginate(sortBy(matches, query.sort, query.order), query);
+  }
+
   async getProduct(id: string): Promise<Product | undefined> {
     return this.products.get(id);
   }
 
-  async createProduct(insertProduct: InsertProduct): Promise<Product> {
+  async createProduct(insertProduct: InsertProduct, revision?: ProductRevisionInfo): Promise<Product> {
     const id = randomUUID();
     const product: Product = {
       ...insertProduct,
       id,
       price: insertProduct.price ?? null,
+      currency: insertProduct.currency || DEFAULT_CURRENCY,
+      compareAtPrice: insertProduct.compareAtPrice ?? null,
+      priceText: insertProduct.priceText ?? null,
+      options: insertProduct.options || [],
+      trackStock: insertProduct.trackStock ?? false,
+      stock: 0,
       category: insertProduct.category ?? null,
       benefits: (insertProduct.benefits || { ar: [], en: [], fr: [] }) as any,
       features: (insertProduct.features || { ar: [], en: [], fr: [] }) as any,
       createdAt: new Date(),
     };
     this.products.set(id, product);
+    this.changed("products", id, product);
+    if (revision) this.createProductRevision(product, revision);
     return product;
   }
 
@@ -96,11 +398,232 @@ export class MemStorage implements IStorage {
       features: (updates.features || product.features || { ar: [], en: [], fr: [] }) as any,
     };
     this.products.set(id, updated);
+    this.changed("products", id, updated);
+    return updated;
+  }
+
+  async reviseProduct(id: string, updates: Partial<InsertProduct>, revision: ProductRevisionInfo): Promise<Product | undefined> {
+    const product = this.products.get(id);
+    if (!product) return undefined;
+
+    const updated = (await this.updateProduct(id, updates))!;
+    if (!contentChanged(product, updated)) return updated;
+
+    const hasRevisions = Array.from(this.productRevisions.values()).some((existing) => existing.productId === id);
+    if (!hasRevisions) {
+      this.createProductRevision(product, { source: "original" }, product.createdAt);
+    }
+    this.createProductRevision(updated, revision);
     return updated;
   }
 
+  private createProductRevision(product: Product, revision: ProductRevisionInfo, createdAt = new Date()): ProductRevision {
+    const id = randomUUID();
+    const created: ProductRevision = {
+      id,
+      productId: product.id,
+      content: productContent(product),
+      source: revision.source,
+      restoredFromId: revision.restoredFromId || null,
+      createdBy: revision.createdBy || null,
+      createdAt,
+    };
+    this.productRevisions.set(id, created);
+    this.changed("productRevisions", id, created);
+    return created;
+  }
+
   async deleteProduct(id: string): Promise<boolean> {
-    return this.products.delete(id);
+    const deleted = this.products.delete(id);
+    if (deleted) {
+      this.changed("products", id, null);
+      this.productVariants.forEach((variant, variantId) => {
+        if (variant.productId !== id) return;
+        this.productVariants.delete(variantId);
+        this.changed("productVariants", variantId, null);
+      });
+      this.stockMovements.forEach((movement, movementId) => {
+        if (movement.productId !== id) return;
+        this.stockMovements.delete(movementId);
+        this.changed("stockMovements", movementId, null);
+      });
+      this.productRevisions.forEach((revision, revisionId) => {
+        if (revision.productId !== id) return;
+        this.productRevisions.delete(revisionId);
+        this.changed("productRevisions", revisionId, null);
+      });
+      this.chatMessages.forEach((message, messageId) => {
+        if (message.productId !== id) return;
+        this.chatMessages.delete(messageId);
+        this.changed("chatMessages", messageId, null);
+      });
+    }
+    return deleted;
+  }
+
+  // Product revisions; of two made in the same millisecond, the one recorded
+  // last comes first
+  async getProductRevisions(productId: string): Promise<ProductRevision[]> {
+    return Array.from(this.productRevisions.values())
+      .filter((revision) => revision.productId === productId)
+      .reverse()
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getProductRevision(id: string): Promise<ProductRevision | undefined> {
+    return this.productRevisions.get(id);
+  }
+
+  // Chat messages
+  async getChatMessages(productId: string, userId: string): Promise<ChatMessage[]> {
+    return Array.from(this.chatMessages.values())
+      .filter((message) => message.productId === productId && message.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const id = randomUUID();
+    const message: ChatMessage = { ...insertMessage, id, createdAt: new Date() };
+    this.chatMessages.set(id, message);
+    this.changed("chatMessages", id, message);
+    return message;
+  }
+
+  async deleteChatMessages(productId: string, userId: string): Promise<number> {
+    const messages = await this.getChatMessages(productId, userId);
+    messages.forEach((message) => {
+      this.chatMessages.delete(message.id);
+      this.changed("chatMessages", message.id, null);
+    });
+    return messages.length;
+  }
+
+  // Image analyses
+  async getImageAnalysis(hash: string): Promise<ImageAnalysis | undefined> {
+    return this.imageAnalyses.get(hash);
+  }
+
+  async saveImageAnalysis(insertAnalysis: InsertImageAnalysis): Promise<ImageAnalysis> {
+    const analysis: ImageAnalysis = {
+      ...insertAnalysis,
+      productId: insertAnalysis.productId ?? null,
+      updatedAt: new Date(),
+    };
+    this.imageAnalyses.set(analysis.hash, analysis);
+    this.changed("imageAnalyses", analysis.hash, analysis);
+    return analysis;
+  }
+
+  // Analysis jobs
+  async getAnalysisJob(id: string): Promise<AnalysisJob | undefined> {
+    return this.analysisJobs.get(id);
+  }
+
+  async createAnalysisJob(insertJob: InsertAnalysisJob): Promise<AnalysisJob> {
+    const id = randomUUID();
+    const now = new Date();
+    const job: AnalysisJob = {
+      ...insertJob,
+      id,
+      status: "queued",
+      progress: 0,
+      force: insertJob.force ?? false,
+      attempts: 0,
+      runAt: now,
+      error: null,
+      productId: null,
+      duplicate: false,
+      createdBy: insertJob.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.analysisJobs.set(id, job);
+    this.changed("analysisJobs", id, job);
+    return job;
+  }
+
+  async updateAnalysisJob(id: string, updates: Partial<AnalysisJob>): Promise<AnalysisJob | undefined> {
+    const job = this.analysisJobs.get(id);
+    if (!job) return undefined;
+
+    const updated: AnalysisJob = { ...job, ...updates, updatedAt: new Date() };
+    this.analysisJobs.set(id, updated);
+    this.changed("analysisJobs", id, updated);
+    return updated;
+  }
+
+  async deleteAnalysisJob(id: string): Promise<boolean> {
+    if (this.analysisJobs.get(id)?.status === "running") return false;
+    const deleted = this.analysisJobs.delete(id);
+    if (deleted) {
+      this.changed("analysisJobs", id, null);
+    }
+    return deleted;
+  }
+
+  async claimAnalysisJob(): Promise<AnalysisJob | undefined> {
+    const now = Date.now();
+    const [next] = Array.from(this.analysisJobs.values())
+      .filter((job) => job.status === "queued" && job.runAt.getTime() <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+    if (!next) return undefined;
+    return this.updateAnalysisJob(next.id, { status: "running", attempts: next.attempts + 1 });
+  }
+
+  async requeueRunningAnalysisJobs(): Promise<number> {
+    const running = Array.from(this.analysisJobs.values()).filter((job) => job.status === "running");
+    for (const job of running) {
+      await this.updateAnalysisJob(job.id, { status: "queued", runAt: new Date() });
+    }
+    return running.length;
+  }
+
+  // Product variants
+  async getProductVariants(productId: string): Promise<ProductVariant[]> {
+    return Array.from(this.productVariants.values())
+      .filter((variant) => variant.productId === productId)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getProductVariant(id: string): Promise<ProductVariant | undefined> {
+    return this.productVariants.get(id);
+  }
+
+  async getProductVariantBySku(sku: string): Promise<ProductVariant | undefined> {
+    return Array.from(this.productVariants.values()).find((variant) => variant.sku === sku);
+  }
+
+  async createProductVariant(productId: string, insertVariant: InsertProductVariant): Promise<ProductVariant> {
+    const id = randomUUID();
+    const variant: ProductVariant = {
+      ...insertVariant,
+      id,
+      productId,
+      sku: insertVariant.sku || null,
+      price: insertVariant.price ?? null,
+      stock: insertVariant.stock ?? 0,
+      imageUrl: null,
+      createdAt: new Date(),
+    };
+    this.productVariants.set(id, variant);
+    this.changed("productVariants", id, variant);
+    return variant;
+  }
+
+  async updateProductVariant(id: string, updates: VariantUpdate): Promise<ProductVariant | undefined> {
+    const variant = this.productVariants.get(id);
+    if (!variant) return undefined;
+
+    const updated: ProductVariant = { ...variant, ...updates };
+    this.productVariants.set(id, updated);
+    this.changed("productVariants", id, updated);
+    return updated;
+  }
+
+  async deleteProductVariant(id: string): Promise<boolean> {
+    const deleted = this.productVariants.delete(id);
+    if (deleted) this.changed("productVariants", id, null);
+    return deleted;
   }
 
   // Orders
@@ -110,21 +633,91 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async listOrders(query: OrderListQuery): Promise<Paginated<Order>> {
+    const search = query.search?.toLowerCase();
+    const searchDigits = search && phoneSearchDigits(search);
+    const city = query.city?.toLowerCase();
+    const productOrderIds = new Set(
+      Array.from(this.orderItems.values())
+        .filter((item) => item.productId === query.productId)
+        .map((item) => item.orderId),
+    );
+    const matches = Array.from(this.orders.values()).filter((order) => {
+      if (query.status && !query.status.includes(order.status as OrderStatus)) return false;
+      if (query.productId && !productOrderIds.has(order.id)) return false;
+      if (query.assignedTo && order.assignedTo !== (query.assignedTo === "none" ? null : query.assignedTo)) {
+        return false;
+      }
+      if (city && order.customerCity?.toLowerCase() !== city) return false;
+      if (query.from && order.createdAt < query.from) return false;
+      if (query.to && order.createdAt > query.to) return false;
+      if (query.callbackBefore && !(order.callbackAt && order.callbackAt <= query.callbackBefore)) return false;
+      if (query.flagged !== undefined && isFlagged(order) !== query.flagged) return false;
+      if (
+        search &&
+        !order.customerName.toLowerCase().includes(search) &&
+        !order.customerPhone.includes(search) &&
+        !(searchDigits && phoneDigits(order.customerPhone).includes(searchDigits))
+      ) {
+        return false;
+      }
+      return true;
+    });
+    return paginate(sortBy(matches, query.sort, query.order), query);
+  }
+
   async getOrder(id: string): Promise<Order | undefined> {
     return this.orders.get(id);
   }
 
   async getOrdersByProduct(productId: string): Promise<Order[]> {
+    const orderIds = new Set(
+      Array.from(this.orderItems.values())
+        .filter((item) => item.productId === productId)
+        .map((item) => item.orderId),
+    );
+    return Array.from(this.orders.values()).filter((order) => orderIds.has(order.id));
+  }
+
+  async getOrdersByPhone(phone: string): Promise<Order[]> {
+    const digits = phoneDigits(phone);
     return Array.from(this.orders.values()).filter(
-      (order) => order.productId === productId
+      (order) => phoneDigits(order.customerPhone) === digits
     );
   }
 
-  async createOrder(insertOrder: InsertOrder & { confirmationScript?: string }): Promise<Order> {
+  async getOrdersByCustomer(customerId: string): Promise<Order[]> {
+    return Array.from(this.orders.values())
+      .filter((order) => order.customerId === customerId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getAssigneeCounts(): Promise<AssigneeCount[]> {
+    const counts = new Map<string, AssigneeCount>();
+    this.orders.forEach((order) => {
+      if (!order.assignedTo) return;
+      const entry = counts.get(order.assignedTo) || { userId: order.assignedTo, open: 0, total: 0 };
+      entry.total++;
+      if (openOrderStatuses.includes(order.status as OrderStatus)) entry.open++;
+      counts.set(order.assignedTo, entry);
+    });
+    return Array.from(counts.values());
+  }
+
+  async getOrderStatusCounts(): Promise<OrderStatusCounts> {
+    const counts = emptyStatusCounts();
+    this.orders.forEach((order) => {
+      if (order.status in counts) counts[order.status as OrderStatus]++;
+    });
+    return counts;
+  }
+
+  async createOrder(insertOrder: NewOrder, items: NewOrderItem[], changedBy: string | null = null): Promise<Order> {
     const id = randomUUID();
     const order: Order = {
       ...insertOrder,
       id,
+      customerId: insertOrder.customerId || null,
       status: insertOrder.status || "pending",
       quantity: insertOrder.quantity || 1,
       language: insertOrder.language || "ar",
@@ -132,9 +725,18 @@ export class MemStorage implements IStorage {
       customerCity: insertOrder.customerCity || null,
       notes: insertOrder.notes || null,
       confirmationScript: insertOrder.confirmationScript || null,
+      assignedTo: insertOrder.assignedTo || null,
+      assignedAt: insertOrder.assignedTo ? new Date() : null,
+      callbackAt: null,
+      riskFlags: insertOrder.riskFlags || [],
+      duplicateOfId: insertOrder.duplicateOfId || null,
+      flagsReviewedAt: null,
       createdAt: new Date(),
     };
     this.orders.set(id, order);
+    this.changed("orders", id, order);
+    await this.createOrderItems(id, items);
+    await this.createOrderStatusChange({ orderId: id, fromStatus: null, toStatus: order.status, changedBy });
     return order;
   }
 
@@ -144,12 +746,1250 @@ export class MemStorage implements IStorage {
     
     const updated: Order = { ...order, ...updates };
     this.orders.set(id, updated);
+    this.changed("orders", id, updated);
+    return updated;
+  }
+
+  async deleteOrder(id: string, stock: InsertStockMovement[] = []): Promise<boolean> {
+    const deleted = this.orders.delete(id);
+    if (deleted) {
+      this.changed("orders", id, null);
+      await this.recordStockMovements(stock);
+      this.orderStatusHistory.forEach((change, changeId) => {
+        if (change.orderId !== id) return;
+        this.orderStatusHistory.delete(changeId);
+        this.changed("orderStatusHistory", changeId, null);
+      });
+      this.callAttempts.forEach((attempt, attemptId) => {
+        if (attempt.orderId !== id) return;
+        this.callAttempts.delete(attemptId);
+        this.changed("callAttempts", attemptId, null);
+      });
+      this.orderItems.forEach((item, itemId) => {
+        if (item.orderId !== id) return;
+        this.orderItems.delete(itemId);
+        this.changed("orderItems", itemId, null);
+      });
+    }
+    return deleted;
+  }
+
+  // Order items
+  async getOrderItems(orderId: string): Promise<OrderItem[]> {
+    return Array.from(this.orderItems.values())
+      .filter((item) => item.orderId === orderId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async createOrderItems(orderId: string, newItems: NewOrderItem[]): Promise<OrderItem[]> {
+    return newItems.map((newItem, position) => {
+      const id = randomUUID();
+      const item: OrderItem = {
+        ...newItem,
+        id,
+        orderId,
+        position,
+        variantId: newItem.variantId || null,
+        quantity: newItem.quantity || 1,
+        discount: newItem.discount || 0,
+      };
+      this.orderItems.set(id, item);
+      this.changed("orderItems", id, item);
+      return item;
+    });
+  }
+
+  // Order status history
+  async getOrderStatusHistory(orderId: string): Promise<OrderStatusChange[]> {
+    return Array.from(this.orderStatusHistory.values())
+      .filter((change) => change.orderId === orderId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createOrderStatusChange(insertChange: InsertOrderStatusChange): Promise<OrderStatusChange> {
+    const id = randomUUID();
+    const change: OrderStatusChange = {
+      ...insertChange,
+      id,
+      fromStatus: insertChange.fromStatus || null,
+      changedBy: insertChange.changedBy || null,
+      reasonCode: insertChange.reasonCode || null,
+      reason: insertChange.reason || null,
+      createdAt: new Date(),
+    };
+    this.orderStatusHistory.set(id, change);
+    this.changed("orderStatusHistory", id, change);
+    return change;
+  }
+
+  async changeOrderStatus(change: InsertOrderStatusChange, stock: InsertStockMovement[] = []): Promise<Order | undefined> {
+    const order = this.orders.get(change.orderId);
+    if (!order || order.status !== change.fromStatus) return undefined;
+
+    // Stock is taken before the first await, so no other call sees the order
+    // changed but its stock not yet taken
+    const updated: Order = { ...order, status: change.toStatus };
+    this.orders.set(order.id, updated);
+    this.changed("orders", order.id, updated);
+    await this.recordStockMovements(stock);
+    await this.createOrderStatusChange(change);
+    return updated;
+  }
+
+  async changeOrderStatusIfInStock(change: InsertOrderStatusChange, stock: InsertStockMovement[]): Promise<StatusChangeResult> {
+    const order = this.orders.get(change.orderId);
+    if (!order || order.status !== change.fromStatus) return { stockShortages: [] };
+
+    const stockShortages = findShortages(stock, (movement) => {
+      const product = this.products.get(movement.productId);
+      const variant = movement.variantId ? this.productVariants.get(movement.variantId) : undefined;
+      return product && { product, variant };
+    });
+    if (stockShortages.length > 0) return { stockShortages };
+    return { order: await this.changeOrderStatus(change, stock), stockShortages };
+  }
+
+  // Call attempts
+  async getCallAttempts(orderId: string): Promise<CallAttempt[]> {
+    return Array.from(this.callAttempts.values())
+      .filter((attempt) => attempt.orderId === orderId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createCallAttempt(insertAttempt: InsertCallAttempt): Promise<CallAttempt> {
+    const id = randomUUID();
+    const attempt: CallAttempt = {
+      ...insertAttempt,
+      id,
+      agentId: insertAttempt.agentId || null,
+      durationSeconds: insertAttempt.durationSeconds || 0,
+      notes: insertAttempt.notes || null,
+      callbackAt: insertAttempt.callbackAt || null,
+      createdAt: new Date(),
+    };
+    this.callAttempts.set(id, attempt);
+    this.changed("callAttempts", id, attempt);
+    return attempt;
+  }
+
+  // Stock movements
+  async getStockMovements(filter: { productId?: string; orderId?: string }): Promise<StockMovement[]> {
+    return Array.from(this.stockMovements.values())
+      .filter((movement) => !filter.productId || movement.productId === filter.productId)
+      .filter((movement) => !filter.orderId || movement.orderId === filter.orderId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async recordStockMovements(movements: InsertStockMovement[]): Promise<StockMovement[]> {
+    return movements.map((insertMovement) => {
+      const id = randomUUID();
+      const movement: StockMovement = {
+        ...insertMovement,
+        id,
+        variantId: insertMovement.variantId || null,
+        orderId: insertMovement.orderId || null,
+        note: insertMovement.note || null,
+        createdBy: insertMovement.createdBy || null,
+        createdAt: new Date(),
+      };
+      this.stockMovements.set(id, movement);
+      this.changed("stockMovements", id, movement);
+
+      const variant = movement.variantId ? this.productVariants.get(movement.variantId) : undefined;
+      const product = this.products.get(movement.productId);
+      if (variant) {
+        const updated: ProductVariant = { ...variant, stock: variant.stock + movement.change };
+        this.productVariants.set(variant.id, updated);
+        this.changed("productVariants", variant.id, updated);
+      } else if (product && !movement.variantId) {
+        const updated: Product = { ...product, stock: product.stock + movement.change };
+        this.products.set(product.id, updated);
+        this.changed("products", product.id, updated);
+      }
+      return movement;
+    });
+  }
+
+  async getLowStock(threshold: number): Promise<LowStockEntry[]> {
+    const entries: LowStockEntry[] = [];
+    this.products.forEach((product) => {
+      if (!product.trackStock) return;
+      if (product.options.length === 0) {
+        if (product.stock <= threshold) {
+          entries.push({
+            productId: product.id,
+            productName: product.name,
+            variantId: null,
+            variantLabel: null,
+            sku: null,
+            stock: product.stock,
+          });
+        }
+        return;
+      }
+      this.productVariants.forEach((variant) => {
+        if (variant.productId !== product.id || variant.stock > threshold) return;
+        entries.push({
+          productId: product.id,
+          productName: product.name,
+          variantId: variant.id,
+          variantLabel: variantLabel(variant, product.options),
+          sku: variant.sku,
+          stock: variant.stock,
+        });
+      });
+    });
+    return entries.sort((a, b) => a.stock - b.stock);
+  }
+
+  // Phone blacklist
+  async getBlacklist(): Promise<BlacklistEntry[]> {
+    return Array.from(this.phoneBlacklist.values()).sort(
+      (a, b) => b.createdAt.getTime() - a.createdAt.getTime()
+    );
+  }
+
+  async getBlacklistEntryByPhone(phone: string): Promise<BlacklistEntry | undefined> {
+    const digits = phoneDigits(phone);
+    return Array.from(this.phoneBlacklist.values()).find((entry) => entry.phone === digits);
+  }
+
+  async createBlacklistEntry(
+    insertEntry: InsertBlacklistEntry & { createdBy?: string | null },
+  ): Promise<BlacklistEntry> {
+    const id = randomUUID();
+    const entry: BlacklistEntry = {
+      id,
+      phone: phoneDigits(insertEntry.phone),
+      reason: insertEntry.reason || null,
+      createdBy: insertEntry.createdBy || null,
+      createdAt: new Date(),
+    };
+    this.phoneBlacklist.set(id, entry);
+    this.changed("phoneBlacklist", id, entry);
+    return entry;
+  }
+
+  async deleteBlacklistEntry(id: string): Promise<boolean> {
+    const deleted = this.phoneBlacklist.delete(id);
+    if (deleted) this.changed("phoneBlacklist", id, null);
+    return deleted;
+  }
+
+  // Customers
+  async listCustomers(query: CustomerListQuery): Promise<Paginated<Customer>> {
+    const search = query.search?.toLowerCase();
+    const searchDigits = search && phoneSearchDigits(search);
+    const city = query.city?.toLowerCase();
+    const matches = Array.from(this.customers.values()).filter((customer) => {
+      if (city && customer.city?.toLowerCase() !== city) return false;
+      if (
+        search &&
+        !customer.name.toLowerCase().includes(search) &&
+        !customer.phone.includes(search) &&
+        !(searchDigits && phoneDigits(customer.phone).includes(searchDigits))
+      ) {
+        return false;
+      }
+      return true;
+    });
+    return paginate(sortBy(matches, query.sort, query.order), query);
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    return this.customers.get(id);
+  }
+
+  async getCustomerByPhone(phone: string): Promise<Customer | undefined> {
+    return Array.from(this.customers.values()).find((customer) => customer.phone === phone);
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const id = randomUUID();
+    const customer: Customer = {
+      ...insertCustomer,
+      id,
+      address: insertCustomer.address || null,
+      city: insertCustomer.city || null,
+      notes: insertCustomer.notes || null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.customers.set(id, customer);
+    this.changed("customers", id, customer);
+    return customer;
+  }
+
+  async updateCustomer(id: string, updates: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    const customer = this.customers.get(id);
+    if (!customer) return undefined;
+
+    const updated: Customer = { ...customer, ...updates, updatedAt: new Date() };
+    this.customers.set(id, updated);
+    this.changed("customers", id, updated);
     return updated;
   }
 
-  async deleteOrder(id: string): Promise<boolean> {
-    return this.orders.delete(id);
+  async deleteCustomer(id: string): Promise<boolean> {
+    const deleted = this.customers.delete(id);
+    if (deleted) {
+      this.changed("customers", id, null);
+      this.orders.forEach((order, orderId) => {
+        if (order.customerId !== id) return;
+        const unlinked: Order = { ...order, customerId: null };
+        this.orders.set(orderId, unlinked);
+        this.changed("orders", orderId, unlinked);
+      });
+    }
+    return deleted;
+  }
+}
+
+function sortBy<T>(items: T[], key: keyof T, order: "asc" | "desc"): T[] {
+  const direction = order === "asc" ? 1 : -1;
+  return items.sort((a, b) => {
+    const left = a[key];
+    const right = b[key];
+    // Missing values always sort last
+    if (left == null) return right == null ? 0 : 1;
+    if (right == null) return -1;
+    if (left < right) return -direction;
+    if (left > right) return direction;
+    return 0;
+  });
+}
+
+function toPage<T>(items: T[], total: number, query: { page: number; limit: number }): Paginated<T> {
+  return {
+    items,
+    total,
+    page: query.page,
+    limit: query.limit,
+    totalPages: Math.ceil(total / query.limit),
+  };
+}
+
+function paginate<T>(items: T[], query: { page: number; limit: number }): Paginated<T> {
+  const offset = (query.page - 1) * query.limit;
+  return toPage(items.slice(offset, offset + query.limit), items.length, query);
+}
+
+// Flagged orders have risk flags nobody has reviewed yet
+function isFlagged(order: Order): boolean {
+  return order.riskFlags.length > 0 && !order.flagsReviewedAt;
+}
+
+function emptyStatusCounts(): OrderStatusCounts {
+  return Object.fromEntries(orderStatusEnum.options.map((status) => [status, 0])) as OrderStatusCounts;
+}
+
+// Search terms that look like a phone number also match stored E.164 numbers
+// on their digits, so "06 12 34" finds "+212612345678"
+function phoneSearchDigits(term: string): string | undefined {
+  if (!/^[\d\s+().-]+$/.test(term)) return undefined;
+  const digits = phoneDigits(term).replace(/^0+/, "");
+  return digits.length >= 3 ? digits : undefined;
+}
+
+// Escapes LIKE wildcards so user input is matched literally
+function likePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+interface JournalEntry {
+  table: TableName;
+  id: string;
+  record: Record<string, unknown> | null;
+}
+
+// Tables the journaled records belong to, for their column defaults
+const journalTables: Record<TableName, PgTable> = {
+  users,
+  products,
+  productVariants,
+  productRevisions,
+  chatMessages,
+  imageAnalyses,
+  analysisJobs,
+  orders,
+  orderItems,
+  orderStatusHistory,
+  callAttempts,
+  stockMovements,
+  phoneBlacklist,
+  customers,
+};
+
+// Records journaled before a column existed get what `npm run db:push` gives
+// existing rows: the column's default, or null
+function withColumnDefaults(table: PgTable, record: Record<string, unknown>): Record<string, unknown> {
+  const filled = { ...record };
+  for (const [key, column] of Object.entries(getTableColumns(table))) {
+    if (filled[key] !== undefined) continue;
+    if (column.default !== undefined && !is(column.default, SQL)) {
+      filled[key] = column.default;
+    } else if (!column.notNull) {
+      filled[key] = null;
+    }
+  }
+  return filled;
+}
+
+// Keeps everything in memory like MemStorage and appends every write to a
+// JSON-lines journal, fsynced before the call returns. On startup the journal
+// is replayed and rewritten as a compact snapshot (via temp file + rename), so
+// a crash mid-write can at worst leave a torn last line, which is discarded.
+export class FileStorage extends MemStorage {
+  private fd: number;
+
+  constructor(private filePath: string) {
+    super();
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.replay();
+    this.compact();
+    this.fd = fs.openSync(filePath, "a");
+  }
+
+  protected changed(table: TableName, id: string, record: object | null): void {
+    fs.writeSync(this.fd, JSON.stringify({ table, id, record }) + "\n");
+    fs.fsyncSync(this.fd);
+  }
+
+  private replay() {
+    if (!fs.existsSync(this.filePath)) return;
+
+    const tables = this.tables();
+    const lines = fs.readFileSync(this.filePath, "utf-8").split("\n");
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+
+      let entry: JournalEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch (error) {
+        // Only the last line can be torn by a crash during append
+        if (lines.slice(index + 1).every((rest) => !rest.trim())) {
+          console.warn(`Discarding incomplete journal entry at ${this.filePath}:${index + 1}`);
+          return;
+        }
+        throw new Error(`Corrupt storage journal at ${this.filePath}:${index + 1}`);
+      }
+
+      const table = tables[entry.table];
+      if (!table) return;
+      if (entry.record) {
+        table.set(entry.id, reviveDates(withColumnDefaults(journalTables[entry.table], entry.record)));
+      } else {
+        table.delete(entry.id);
+      }
+    });
+  }
+
+  private compact() {
+    const tmpPath = `${this.filePath}.tmp`;
+    const fd = fs.openSync(tmpPath, "w");
+    try {
+      for (const [table, rows] of Object.entries(this.tables())) {
+        rows.forEach((record, id) => {
+          fs.writeSync(fd, JSON.stringify({ table, id, record }) + "\n");
+        });
+      }
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, this.filePath);
+  }
+}
+
+// Timestamps are serialized as ISO strings; by convention they end in "At"
+function reviveDates(record: Record<string, unknown>): any {
+  const revived: Record<string, unknown> = { ...record };
+  for (const [key, value] of Object.entries(revived)) {
+    if (key.endsWith("At") && typeof value === "string") {
+      revived[key] = new Date(value);
+    }
+  }
+  return revived;
+}
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+// Inserts the movements and adds their change to the stock they are for, in
+// SQL so that concurrent movements add up
+async function applyStockMovements(tx: Transaction, movements: InsertStockMovement[]): Promise<StockMovement[]> {
+  if (movements.length === 0) return [];
+  const recorded = await tx.insert(stockMovements).values(movements).returning();
+  for (const movement of recorded) {
+    if (movement.variantId) {
+      await tx
+        .update(productVariants)
+        .set({ stock: sql`${productVariants.stock} + ${movement.change}` })
+        .where(eq(productVariants.id, movement.variantId));
+    } else {
+      await tx
+        .update(products)
+        .set({ stock: sql`${products.stock} + ${movement.change}` })
+        .where(eq(products.id, movement.productId));
+    }
+  }
+  return recorded;
+}
+
+// Movements taking more out of a product or variant than it has. `lookup`
+// gives the current product, and variant for movements on one.
+function findShortages(
+  movements: InsertStockMovement[],
+  lookup: (movement: InsertStockMovement) => { product: Product; variant?: ProductVariant } | undefined,
+): StockShortage[] {
+  return movements.flatMap((movement) => {
+    const found = lookup(movement);
+    if (!found || movement.change >= 0) return [];
+    const available = found.variant ? found.variant.stock : found.product.stock;
+    if (available + movement.change >= 0) return [];
+    return [
+      {
+        productId: movement.productId,
+        variantId: movement.variantId ?? null,
+        name: stockItemName(found.product, found.variant),
+        requested: -movement.change,
+        available,
+      },
+    ];
+  });
+}
+
+// Whether a change touched what product revisions keep
+function contentChanged(before: Product, after: Product): boolean {
+  return JSON.stringify(productContent(before)) !== JSON.stringify(productContent(after));
+}
+
+// Records the product's content after a change, preceded by its content
+// before the change when it has no revisions yet; nothing if the content is
+// unchanged
+async function applyProductRevision(
+  tx: Transaction,
+  before: Product,
+  after: Product,
+  revision: ProductRevisionInfo,
+): Promise<void> {
+  if (!contentChanged(before, after)) return;
+
+  const [existing] = await tx
+    .select({ id: productRevisions.id })
+    .from(productRevisions)
+    .where(eq(productRevisions.productId, before.id))
+    .limit(1);
+  const revisions: (typeof productRevisions.$inferInsert)[] = [];
+  if (!existing) {
+    revisions.push({
+      productId: before.id,
+      content: productContent(before),
+      source: "original",
+      createdAt: before.createdAt,
+    });
+  }
+  revisions.push({ ...revision, productId: after.id, content: productContent(after) });
+  await tx.insert(productRevisions).values(revisions);
+}
+
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor(private db: Database) {
+    this.sessionStore = new PostgresSessionStore({ pool: getPool(), createTableIfMissing: true });
+  }
+
+  // Users
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(users.username);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Products
+  async getProducts(): Promise<Product[]> {
+    return this.db.select().from(products).orderBy(desc(products.createdAt));
+  }
+
+  async listProducts(query: ProductListQuery): Promise<Paginated<Product>> {
+    const conditions: SQL[] = [];
+    if (query.category) conditions.push(ilike(products.category, query.category));
+    if (query.search) {
+      const pattern = likePattern(query.search);
+      conditions.push(
+        or(ilike(products.name, pattern), sql`${products.descriptions}::text ilike ${pattern}`)!,
+      );
+    }
+    const where = and(...conditions);
+    const direction = query.order === "asc" ? asc : desc;
+
+    const [items, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(products)
+        .where(where)
+        .orderBy(direction(products[query.sort]), desc(products.id))
+        .limit(query.limit)
+        .offset((query.page - 1) * query.limit),
+      this.db.select({ total: count() }).from(products).where(where),
+    ]);
+    return toPage(items, total, query);
+  }
+
+  async getProduct(id: string): Promise<Product | undefined> {
+    const [product] = await this.db.select().from(products).where(eq(products.id, id));
+    return product;
+  }
+
+  async createProduct(insertProduct: InsertProduct, revision?: ProductRevisionInfo): Promise<Product> {
+    return this.db.transaction(async (tx) => {
+      const [product] = await tx.insert(products).values(insertProduct).returning();
+      if (revision) {
+        await tx.insert(productRevisions).values({ ...revision, productId: product.id, content: productContent(product) });
+      }
+      return product;
+    });
+  }
+
+  async updateProduct(id: string, updates: Partial<InsertProduct>): Promise<Product | undefined> {
+    if (Object.keys(updates).length === 0) return this.getProduct(id);
+
+    const [product] = await this.db
+      .update(products)
+      .set(updates)
+      .where(eq(products.id, id))
+      .returning();
+    return product;
+  }
+
+  async reviseProduct(id: string, updates: Partial<InsertProduct>, revision: ProductRevisionInfo): Promise<Product | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Locked so that concurrent edits each see the content they replace
+      const [current] = await tx.select().from(products).where(eq(products.id, id)).for("update");
+      if (!current) return undefined;
+      if (Object.keys(updates).length === 0) return current;
+
+      const [product] = await tx.update(products).set(updates).where(eq(products.id, id)).returning();
+      await applyProductRevision(tx, current, product, revision);
+      return product;
+    });
+  }
+
+  async deleteProduct(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(products)
+        .where(eq(products.id, id))
+        .returning({ id: products.id });
+      await tx.delete(productVariants).where(eq(productVariants.productId, id));
+      await tx.delete(stockMovements).where(eq(stockMovements.productId, id));
+      await tx.delete(productRevisions).where(eq(productRevisions.productId, id));
+      await tx.delete(chatMessages).where(eq(chatMessages.productId, id));
+      return deleted.length > 0;
+    });
+  }
+
+  // Product revisions
+  async getProductRevisions(productId: string): Promise<ProductRevision[]> {
+    return this.db
+      .select()
+      .from(productRevisions)
+      .where(eq(productRevisions.productId, productId))
+      .orderBy(desc(productRevisions.createdAt));
+  }
+
+  async getProductRevision(id: string): Promise<ProductRevision | undefined> {
+    const [revision] = await this.db.select().from(productRevisions).where(eq(productRevisions.id, id));
+    return revision;
+  }
+
+  // Chat messages
+  async getChatMessages(productId: string, userId: string): Promise<ChatMessage[]> {
+    return this.db
+      .select()
+      .from(chatMessages)
+      .where(and(eq(chatMessages.productId, productId), eq(chatMessages.userId, userId)))
+      .orderBy(asc(chatMessages.createdAt));
+  }
+
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const [message] = await this.db.insert(chatMessages).values(insertMessage).returning();
+    return message;
+  }
+
+  async deleteChatMessages(productId: string, userId: string): Promise<number> {
+    const deleted = await this.db
+      .delete(chatMessages)
+      .where(and(eq(chatMessages.productId, productId), eq(chatMessages.userId, userId)))
+      .returning({ id: chatMessages.id });
+    return deleted.length;
+  }
+
+  // Image analyses
+  async getImageAnalysis(hash: string): Promise<ImageAnalysis | undefined> {
+    const [analysis] = await this.db.select().from(imageAnalyses).where(eq(imageAnalyses.hash, hash));
+    return analysis;
+  }
+
+  async saveImageAnalysis(insertAnalysis: InsertImageAnalysis): Promise<ImageAnalysis> {
+    const [analysis] = await this.db
+      .insert(imageAnalyses)
+      .values(insertAnalysis)
+      .onConflictDoUpdate({
+        target: imageAnalyses.hash,
+        set: { analysis: insertAnalysis.analysis, productId: insertAnalysis.productId ?? null, updatedAt: new Date() },
+      })
+      .returning();
+    return analysis;
+  }
+
+  // Analysis jobs
+  async getAnalysisJob(id: string): Promise<AnalysisJob | undefined> {
+    const [job] = await this.db.select().from(analysisJobs).where(eq(analysisJobs.id, id));
+    return job;
+  }
+
+  async createAnalysisJob(insertJob: InsertAnalysisJob): Promise<AnalysisJob> {
+    const [job] = await this.db.insert(analysisJobs).values(insertJob).returning();
+    return job;
+  }
+
+  async updateAnalysisJob(id: string, updates: Partial<AnalysisJob>): Promise<AnalysisJob | undefined> {
+    // id and createdAt are immutable
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    const [job] = await this.db
+      .update(analysisJobs)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(analysisJobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async deleteAnalysisJob(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(analysisJobs)
+      .where(and(eq(analysisJobs.id, id), not(eq(analysisJobs.status, "running"))))
+      .returning({ id: analysisJobs.id });
+    return deleted.length > 0;
+  }
+
+  async claimAnalysisJob(): Promise<AnalysisJob | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Jobs another server is claiming are skipped rather than waited for
+      const [next] = await tx
+        .select()
+        .from(analysisJobs)
+        .where(and(eq(analysisJobs.status, "queued"), lte(analysisJobs.runAt, new Date())))
+        .orderBy(asc(analysisJobs.runAt))
+        .limit(1)
+        .for("update", { skipLocked: true });
+      if (!next) return undefined;
+
+      const [job] = await tx
+        .update(analysisJobs)
+        .set({ status: "running", attempts: next.attempts + 1, updatedAt: new Date() })
+        .where(eq(analysisJobs.id, next.id))
+        .returning();
+      return job;
+    });
+  }
+
+  async requeueRunningAnalysisJobs(): Promise<number> {
+    const requeued = await this.db
+      .update(analysisJobs)
+      .set({ status: "queued", runAt: new Date(), updatedAt: new Date() })
+      .where(eq(analysisJobs.status, "running"))
+      .returning({ id: analysisJobs.id });
+    return requeued.length;
+  }
+
+  // Product variants
+  async getProductVariants(productId: string): Promise<ProductVariant[]> {
+    return this.db
+      .select()
+      .from(productVariants)
+      .where(eq(productVariants.productId, productId))
+      .orderBy(asc(productVariants.createdAt));
+  }
+
+  async getProductVariant(id: string): Promise<ProductVariant | undefined> {
+    const [variant] = await this.db.select().from(productVariants).where(eq(productVariants.id, id));
+    return variant;
+  }
+
+  async getProductVariantBySku(sku: string): Promise<ProductVariant | undefined> {
+    const [variant] = await this.db.select().from(productVariants).where(eq(productVariants.sku, sku));
+    return variant;
+  }
+
+  async createProductVariant(productId: string, insertVariant: InsertProductVariant): Promise<ProductVariant> {
+    const [variant] = await this.db
+      .insert(productVariants)
+      .values({ ...insertVariant, productId })
+      .returning();
+    return variant;
+  }
+
+  async updateProductVariant(id: string, updates: VariantUpdate): Promise<ProductVariant | undefined> {
+    if (Object.keys(updates).length === 0) return this.getProductVariant(id);
+    const [variant] = await this.db
+      .update(productVariants)
+      .set(updates)
+      .where(eq(productVariants.id, id))
+      .returning();
+    return variant;
+  }
+
+  async deleteProductVariant(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(productVariants)
+      .where(eq(productVariants.id, id))
+      .returning({ id: productVariants.id });
+    return deleted.length > 0;
+  }
+
+  // Orders
+  async getOrders(): Promise<Order[]> {
+    return this.db.select().from(orders).orderBy(desc(orders.createdAt));
+  }
+
+  async listOrders(query: OrderListQuery): Promise<Paginated<Order>> {
+    const conditions: SQL[] = [];
+    if (query.status) conditions.push(inArray(orders.status, query.status));
+    if (query.productId) {
+      conditions.push(
+        inArray(
+          orders.id,
+          this.db.select({ orderId: orderItems.orderId }).from(orderItems).where(eq(orderItems.productId, query.productId)),
+        ),
+      );
+    }
+    if (query.assignedTo) {
+      conditions.push(
+        query.assignedTo === "none" ? isNull(orders.assignedTo) : eq(orders.assignedTo, query.assignedTo),
+      );
+    }
+    if (query.city) conditions.push(ilike(orders.customerCity, query.city));
+    if (query.from) conditions.push(gte(orders.createdAt, query.from));
+    if (query.to) conditions.push(lte(orders.createdAt, query.to));
+    if (query.callbackBefore) conditions.push(lte(orders.callbackAt, query.callbackBefore));
+    if (query.flagged !== undefined) {
+      const flagged = and(sql`jsonb_array_length(${orders.riskFlags}) > 0`, isNull(orders.flagsReviewedAt))!;
+      conditions.push(query.flagged ? flagged : not(flagged));
+    }
+    if (query.search) {
+      const pattern = likePattern(query.search);
+      const digits = phoneSearchDigits(query.search);
+      conditions.push(
+        or(
+          ilike(orders.customerName, pattern),
+          ilike(orders.customerPhone, pattern),
+          digits ? sql`regexp_replace(${orders.customerPhone}, '\\D', '', 'g') LIKE ${`%${digits}%`}` : undefined,
+        )!,
+      );
+    }
+    const where = and(...conditions);
+    const direction = query.order === "asc" ? asc : desc;
+
+    const [items, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(orders)
+        .where(where)
+        .orderBy(direction(orders[query.sort]), desc(orders.id))
+        .limit(query.limit)
+        .offset((query.page - 1) * query.limit),
+      this.db.select({ total: count() }).from(orders).where(where),
+    ]);
+    return toPage(items, total, query);
+  }
+
+  async getOrder(id: string): Promise<Order | undefined> {
+    const [order] = await this.db.select().from(orders).where(eq(orders.id, id));
+    return order;
+  }
+
+  async getOrdersByProduct(productId: string): Promise<Order[]> {
+    return this.db
+      .selectDistinct({ order: orders })
+      .from(orders)
+      .innerJoin(orderItems, eq(orderItems.orderId, orders.id))
+      .where(eq(orderItems.productId, productId))
+      .then((rows) => rows.map((row) => row.order));
+  }
+
+  async getOrdersByPhone(phone: string): Promise<Order[]> {
+    // Same normalization as phoneDigits, done in SQL
+    return this.db
+      .select()
+      .from(orders)
+      .where(
+        eq(
+          sql`regexp_replace(regexp_replace(${orders.customerPhone}, '\\D', '', 'g'), '^00', '')`,
+          phoneDigits(phone),
+        ),
+      );
+  }
+
+  async getOrdersByCustomer(customerId: string): Promise<Order[]> {
+    return this.db
+      .select()
+      .from(orders)
+      .where(eq(orders.customerId, customerId))
+      .orderBy(desc(orders.createdAt));
+  }
+
+  async getAssigneeCounts(): Promise<AssigneeCount[]> {
+    const rows = await this.db
+      .select({
+        userId: orders.assignedTo,
+        open: sql<number>`count(*) filter (where ${inArray(orders.status, openOrderStatuses)})`.mapWith(Number),
+        total: count(),
+      })
+      .from(orders)
+      .where(isNotNull(orders.assignedTo))
+      .groupBy(orders.assignedTo);
+    return rows.map((row) => ({ ...row, userId: row.userId! }));
+  }
+
+  async getOrderStatusCounts(): Promise<OrderStatusCounts> {
+    const rows = await this.db
+      .select({ status: orders.status, count: count() })
+      .from(orders)
+      .groupBy(orders.status);
+    const counts = emptyStatusCounts();
+    for (const row of rows) {
+      if (row.status in counts) counts[row.status as OrderStatus] = row.count;
+    }
+    return counts;
+  }
+
+  async createOrder(insertOrder: NewOrder, items: NewOrderItem[], changedBy: string | null = null): Promise<Order> {
+    return this.db.transaction(async (tx) => {
+      const [order] = await tx
+        .insert(orders)
+        .values({ ...insertOrder, assignedAt: insertOrder.assignedTo ? new Date() : null })
+        .returning();
+      if (items.length > 0) {
+        await tx.insert(orderItems).values(items.map((item, position) => ({ ...item, orderId: order.id, position })));
+      }
+      await tx
+        .insert(orderStatusHistory)
+        .values({ orderId: order.id, fromStatus: null, toStatus: order.status, changedBy });
+      return order;
+    });
+  }
+
+  async updateOrder(id: string, updates: Partial<Order>): Promise<Order | undefined> {
+    // id and createdAt are immutable
+    const { id: _id, createdAt: _createdAt, ...changes } = updates;
+    if (Object.keys(changes).length === 0) return this.getOrder(id);
+
+    const [order] = await this.db
+      .update(orders)
+      .set(changes)
+      .where(eq(orders.id, id))
+      .returning();
+    return order;
+  }
+
+  async deleteOrder(id: string, stock: InsertStockMovement[] = []): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(orders)
+        .where(eq(orders.id, id))
+        .returning({ id: orders.id });
+      if (deleted.length === 0) return false;
+      await applyStockMovements(tx, stock);
+      await tx.delete(orderStatusHistory).where(eq(orderStatusHistory.orderId, id));
+      await tx.delete(callAttempts).where(eq(callAttempts.orderId, id));
+      await tx.delete(orderItems).where(eq(orderItems.orderId, id));
+      return deleted.length > 0;
+    });
+  }
+
+  // Order items
+  async getOrderItems(orderId: string): Promise<OrderItem[]> {
+    return this.db
+      .select()
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId))
+      .orderBy(asc(orderItems.position));
+  }
+
+  async createOrderItems(orderId: string, items: NewOrderItem[]): Promise<OrderItem[]> {
+    if (items.length === 0) return [];
+    return this.db
+      .insert(orderItems)
+      .values(items.map((item, position) => ({ ...item, orderId, position })))
+      .returning();
+  }
+
+  // Order status history
+  async getOrderStatusHistory(orderId: string): Promise<OrderStatusChange[]> {
+    return this.db
+      .select()
+      .from(orderStatusHistory)
+      .where(eq(orderStatusHistory.orderId, orderId))
+      .orderBy(asc(orderStatusHistory.createdAt));
+  }
+
+  async createOrderStatusChange(insertChange: InsertOrderStatusChange): Promise<OrderStatusChange> {
+    const [change] = await this.db.insert(orderStatusHistory).values(insertChange).returning();
+    return change;
+  }
+
+  async changeOrderStatus(change: InsertOrderStatusChange, stock: InsertStockMovement[] = []): Promise<Order | undefined> {
+    return this.db.transaction(async (tx) => {
+      // The status condition makes concurrent changes from the same status lose cleanly
+      const [order] = await tx
+        .update(orders)
+        .set({ status: change.toStatus })
+        .where(and(eq(orders.id, change.orderId), eq(orders.status, change.fromStatus!)))
+        .returning();
+      if (!order) return undefined;
+
+      await tx.insert(orderStatusHistory).values(change);
+      await applyStockMovements(tx, stock);
+      return order;
+    });
+  }
+
+  async changeOrderStatusIfInStock(change: InsertOrderStatusChange, stock: InsertStockMovement[]): Promise<StatusChangeResult> {
+    return this.db.transaction(async (tx) => {
+      const [order] = await tx
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, change.orderId), eq(orders.status, change.fromStatus!)))
+        .for("update");
+      if (!order) return { stockShortages: [] };
+
+      // Locked until the transaction ends, so concurrent reservations of the
+      // same stock wait for this one and then see what it left
+      const productIds = Array.from(new Set(stock.map((movement) => movement.productId)));
+      const variantIds = stock.flatMap((movement) => (movement.variantId ? [movement.variantId] : []));
+      const lockedProducts =
+        productIds.length > 0
+          ? await tx.select().from(products).where(inArray(products.id, productIds)).for("update")
+          : [];
+      const lockedVariants =
+        variantIds.length > 0
+          ? await tx.select().from(productVariants).where(inArray(productVariants.id, variantIds)).for("update")
+          : [];
+
+      const stockShortages = findShortages(stock, (movement) => {
+        const product = lockedProducts.find((locked) => locked.id === movement.productId);
+        const variant = lockedVariants.find((locked) => locked.id === movement.variantId);
+        return product && { product, variant };
+      });
+      if (stockShortages.length > 0) return { stockShortages };
+
+      const [updated] = await tx
+        .update(orders)
+        .set({ status: change.toStatus })
+        .where(eq(orders.id, order.id))
+        .returning();
+      await tx.insert(orderStatusHistory).values(change);
+      await applyStockMovements(tx, stock);
+      return { order: updated, stockShortages };
+    });
+  }
+
+  // Call attempts
+  async getCallAttempts(orderId: string): Promise<CallAttempt[]> {
+    return this.db
+      .select()
+      .from(callAttempts)
+      .where(eq(callAttempts.orderId, orderId))
+      .orderBy(asc(callAttempts.createdAt));
+  }
+
+  async createCallAttempt(insertAttempt: InsertCallAttempt): Promise<CallAttempt> {
+    const [attempt] = await this.db.insert(callAttempts).values(insertAttempt).returning();
+    return attempt;
+  }
+
+  // Stock movements
+  async getStockMovements(filter: { productId?: string; orderId?: string }): Promise<StockMovement[]> {
+    const conditions: SQL[] = [];
+    if (filter.productId) conditions.push(eq(stockMovements.productId, filter.productId));
+    if (filter.orderId) conditions.push(eq(stockMovements.orderId, filter.orderId));
+    return this.db
+      .select()
+      .from(stockMovements)
+      .where(and(...conditions))
+      .orderBy(desc(stockMovements.createdAt));
+  }
+
+  async recordStockMovements(movements: InsertStockMovement[]): Promise<StockMovement[]> {
+    if (movements.length === 0) return [];
+    return this.db.transaction((tx) => applyStockMovements(tx, movements));
+  }
+
+  async getLowStock(threshold: number): Promise<LowStockEntry[]> {
+    const hasOptions = sql`jsonb_array_length(${products.options}) > 0`;
+    const [productRows, variantRows] = await Promise.all([
+      this.db
+        .select()
+        .from(products)
+        .where(and(eq(products.trackStock, true), not(hasOptions), lte(products.stock, threshold))),
+      this.db
+        .select({ variant: productVariants, product: products })
+        .from(productVariants)
+        .innerJoin(products, eq(productVariants.productId, products.id))
+        .where(and(eq(products.trackStock, true), hasOptions, lte(productVariants.stock, threshold))),
+    ]);
+
+    const entries: LowStockEntry[] = [
+      ...productRows.map((product) => ({
+        productId: product.id,
+        productName: product.name,
+        variantId: null,
+        variantLabel: null,
+        sku: null,
+        stock: product.stock,
+      })),
+      ...variantRows.map(({ variant, product }) => ({
+        productId: product.id,
+        productName: product.name,
+        variantId: variant.id,
+        variantLabel: variantLabel(variant, product.options),
+        sku: variant.sku,
+        stock: variant.stock,
+      })),
+    ];
+    return entries.sort((a, b) => a.stock - b.stock);
+  }
+
+  // Phone blacklist
+  async getBlacklist(): Promise<BlacklistEntry[]> {
+    return this.db.select().from(phoneBlacklist).orderBy(desc(phoneBlacklist.createdAt));
+  }
+
+  async getBlacklistEntryByPhone(phone: string): Promise<BlacklistEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(phoneBlacklist)
+      .where(eq(phoneBlacklist.phone, phoneDigits(phone)));
+    return entry;
+  }
+
+  async createBlacklistEntry(
+    insertEntry: InsertBlacklistEntry & { createdBy?: string | null },
+  ): Promise<BlacklistEntry> {
+    const [entry] = await this.db
+      .insert(phoneBlacklist)
+      .values({ ...insertEntry, phone: phoneDigits(insertEntry.phone) })
+      .returning();
+    return entry;
+  }
+
+  async deleteBlacklistEntry(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(phoneBlacklist)
+      .where(eq(phoneBlacklist.id, id))
+      .returning({ id: phoneBlacklist.id });
+    return deleted.length > 0;
+  }
+
+  // Customers
+  async listCustomers(query: CustomerListQuery): Promise<Paginated<Customer>> {
+    const conditions: SQL[] = [];
+    if (query.city) conditions.push(ilike(customers.city, query.city));
+    if (query.search) {
+      const pattern = likePattern(query.search);
+      const digits = phoneSearchDigits(query.search);
+      conditions.push(
+        or(
+          ilike(customers.name, pattern),
+          ilike(customers.phone, pattern),
+          digits ? sql`regexp_replace(${customers.phone}, '\\D', '', 'g') LIKE ${`%${digits}%`}` : undefined,
+        )!,
+      );
+    }
+    const where = and(...conditions);
+    const direction = query.order === "asc" ? asc : desc;
+
+    const [items, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(customers)
+        .where(where)
+        .orderBy(direction(customers[query.sort]), desc(customers.id))
+        .limit(query.limit)
+        .offset((query.page - 1) * query.limit),
+      this.db.select({ total: count() }).from(customers).where(where),
+    ]);
+    return toPage(items, total, query);
+  }
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers).where(eq(customers.id, id));
+    return customer;
+  }
+
+  async getCustomerByPhone(phone: string): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers).where(eq(customers.phone, phone));
+    return customer;
+  }
+
+  async createCustomer(insertCustomer: InsertCustomer): Promise<Customer> {
+    const [customer] = await this.db.insert(customers).values(insertCustomer).returning();
+    return customer;
+  }
+
+  async updateCustomer(id: string, updates: Partial<InsertCustomer>): Promise<Customer | undefined> {
+    const [customer] = await this.db
+      .update(customers)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(customers.id, id))
+      .returning();
+    return customer;
+  }
+
+  async deleteCustomer(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const deleted = await tx
+        .delete(customers)
+        .where(eq(customers.id, id))
+        .returning({ id: customers.id });
+      await tx.update(orders).set({ customerId: null }).where(eq(orders.customerId, id));
+      return deleted.length > 0;
+    });
+  }
+}
+
+// STORAGE_DRIVER selects the implementation: "postgres" (default when
+// DATABASE_URL is set), "file" (default otherwise) or "memory" (tests only)
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "file");
+
+  switch (driver) {
+    case "postgres":
+      return new DbStorage(getDb());
+    case "file":
+      return new FileStorage(
+        process.env.STORAGE_FILE || path.join(process.cwd(), "data", "storage.jsonl"),
+      );
+    case "memory":
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}", expected postgres, file or memory`);
   }
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,70 @@
+import multer from "multer";
+import fs from "fs";
+import path from "path";
+
+// Configure multer for file uploads
+export const uploadDir = path.join(process.cwd(), "uploads");
+if (!fs.existsSync(uploadDir)) {
+  fs.mkdirSync(uploadDir, { recursive: true });
+}
+
+export const upload = multer({
+  storage: multer.diskStorage({
+    destination: uploadDir,
+    filename: (req, file, cb) => {
+      const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+      cb(null, uniqueSuffix + path.extname(file.originalname));
+    },
+  }),
+  limits: { fileSize: 10 * 1024 * 1024 }, // 10MB
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith("image/")) {
+      cb(null, true);
+    } else {
+      cb(new Error("Only image files are allowed"));
+    }
+  },
+});
+
+// File behind an /uploads/ URL; undefined for external URLs and names that
+// would reach outside uploadDir, like "/uploads/../.env"
+function uploadPath(imageUrl: string): string | undefined {
+  if (!imageUrl.startsWith("/uploads/")) return undefined;
+  const filePath = path.resolve(uploadDir, imageUrl.slice("/uploads/".length));
+  if (path.dirname(filePath) !== path.resolve(uploadDir)) return undefined;
+  return filePath;
+}
+
+// Deletes an uploaded image, leaving external URLs alone
+export function removeUpload(imageUrl: string | null) {
+  const filePath = imageUrl ? uploadPath(imageUrl) : undefined;
+  if (filePath && fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
+
+const uploadMimeTypes: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+// Bytes of an uploaded image; undefined for external URLs and files that are gone
+export function readUpload(imageUrl: string): { data: Buffer; mimeType: string } | undefined {
+  const filePath = uploadPath(imageUrl);
+  if (!filePath || !fs.existsSync(filePath)) return undefined;
+  return {
+    data: fs.readFileSync(filePath),
+    mimeType: uploadMimeTypes[path.extname(filePath).toLowerCase()] ?? "image/jpeg",
+  };
+}
+
+// An uploaded image as a data URL for the AI; undefined for external URLs and
+// files that are gone
+export function readUploadAsDataUrl(imageUrl: string): string | undefined {
+  const image = readUpload(imageUrl);
+  if (!image) return undefined;
+  return `data:${image.mimeType};base64,${image.data.toString("base64")}`;
+}
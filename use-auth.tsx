@@ -0,0 +1,73 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation, type UseMutationResult } from "@tanstack/react-query";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import type { PublicUser, UserRole } from "@shared/schema";
+
+type LoginData = {
+  username: string;
+  password: string;
+};
+
+interface AuthContextType {
+  user: PublicUser | null;
+  isLoading: boolean;
+  hasRole: (...roles: UserRole[]) => boolean;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginData>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+export const AUTH_QUERY_KEY = ["/api/auth/me"];
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (credentials: LoginData) => {
+      return apiRequest<PublicUser>("POST", "/api/auth/login", credentials);
+    },
+    onSuccess: (loggedIn) => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, loggedIn);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      // Drop every cached response so the next user starts clean
+      queryClient.clear();
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+    },
+  });
+
+  const hasRole = (...roles: UserRole[]) =>
+    !!user && roles.includes(user.role as UserRole);
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        hasRole,
+        loginMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
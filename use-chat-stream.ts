@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { ChatStreamEvent } from "@shared/schema";
+
+// Sends a chat question and reads the answer as it streams in. Leaving the
+// page, or cancel(), stops the answer on the server as well.
+export function useChatStream() {
+  const controllerRef = useRef<AbortController | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  // Resolves with the whole answer; onText gets the answer so far after each
+  // piece. Rejects on errors and with an AbortError when cancelled.
+  const stream = useCallback(async (url: string, body: unknown, onText: (answer: string) => void): Promise<string> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsStreaming(true);
+
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        credentials: "include",
+        signal: controller.signal,
+      });
+      if (!res.ok || !res.body) {
+        const text = (await res.text()) || res.statusText;
+        throw new Error(`${res.status}: ${text}`);
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      let answer = "";
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // Events are "data: <json>" blocks separated by a blank line
+        const blocks = buffer.split("\n\n");
+        buffer = blocks.pop() ?? "";
+        for (const block of blocks) {
+          if (!block.startsWith("data: ")) continue;
+          const event = JSON.parse(block.slice("data: ".length)) as ChatStreamEvent;
+          if (event.type === "text") {
+            answer += event.text;
+            onText(answer);
+          } else if (event.type === "done") {
+            return event.answer;
+          } else {
+            throw new Error(event.message);
+          }
+        }
+      }
+      throw new Error("The answer was cut off");
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsStreaming(false);
+      }
+    }
+  }, []);
+
+  return { stream, cancel, isStreaming };
+}
@@ -0,0 +1,55 @@
+import { useEffect } from "react";
+import { applyLiveEvent } from "@/lib/liveUpdates";
+import { queryClient } from "@/lib/queryClient";
+import { liveUpdatesPath, type LiveEvent } from "@shared/schema";
+
+// Reconnect delays grow from 1s up to this
+const MAX_RECONNECT_DELAY = 30 * 1000;
+
+// Keeps the query cache in step with changes other users make, over a
+// WebSocket that is reopened whenever it drops
+export function useLiveUpdates(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let failures = 0;
+    let connectedBefore = false;
+    let closed = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}${liveUpdatesPath}`);
+      socket.onopen = () => {
+        failures = 0;
+        // Changes made while the socket was down were missed
+        if (connectedBefore) {
+          queryClient.invalidateQueries({ queryKey: ["/api/products"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+        }
+        connectedBefore = true;
+      };
+      socket.onmessage = (message) => {
+        try {
+          applyLiveEvent(JSON.parse(message.data) as LiveEvent);
+        } catch (error) {
+          console.error("Invalid live update:", error);
+        }
+      };
+      socket.onclose = () => {
+        if (closed) return;
+        const delay = Math.min(1000 * 2 ** failures, MAX_RECONNECT_DELAY);
+        failures++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+    return () => {
+      closed = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [enabled]);
+}
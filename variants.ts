@@ -0,0 +1,35 @@
+import { storage } from "./storage";
+import { variantLabel, type Product, type ProductOption, type ProductVariant } from "@shared/schema";
+
+// Problem with a variant's option values, if any: every option of the product
+// needs one of its values, and nothing else is allowed
+export function checkVariantOptions(options: ProductOption[], values: Record<string, string>): string | undefined {
+  for (const option of options) {
+    const value = values[option.name];
+    if (value === undefined) return `Missing a value for "${option.name}"`;
+    if (!option.values.includes(value)) return `"${value}" is not a value of "${option.name}"`;
+  }
+  const unknown = Object.keys(values).find((name) => !options.some((option) => option.name === name));
+  if (unknown) return `"${unknown}" is not an option of this product`;
+  return undefined;
+}
+
+// Why a variant would clash with another one: same option values within the
+// product, or an SKU already in use by any product
+export async function findVariantConflict(
+  product: Product,
+  variant: Pick<ProductVariant, "options" | "sku">,
+  excludeId?: string,
+): Promise<string | undefined> {
+  if (variant.sku) {
+    const existing = await storage.getProductVariantBySku(variant.sku);
+    if (existing && existing.id !== excludeId) return `SKU "${variant.sku}" is already in use`;
+  }
+
+  const label = variantLabel(variant, product.options);
+  const siblings = await storage.getProductVariants(product.id);
+  const duplicate = siblings.find(
+    (sibling) => sibling.id !== excludeId && variantLabel(sibling, product.options) === label,
+  );
+  return duplicate ? `Variant "${label}" already exists` : undefined;
+}